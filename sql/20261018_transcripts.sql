@@ -0,0 +1,34 @@
+-- 20261018_transcripts.sql
+-- Diarised transcript segments per call + jobs lifecycle (queued → running → done | failed).
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.call_transcript_segments (
+  id uuid primary key default gen_random_uuid(),
+  call_id uuid not null references public.calls(id) on delete cascade,
+  idx integer not null,
+
+  speaker text not null,
+  role text not null default 'unknown' check (role in ('rep','buyer','unknown')),
+
+  start_sec numeric not null default 0,
+  end_sec numeric not null default 0,
+  text text not null default '',
+
+  created_at timestamptz not null default now(),
+  unique (call_id, idx)
+);
+
+create index if not exists idx_call_transcript_segments_call
+  on public.call_transcript_segments (call_id, start_sec);
+
+-- Legacy sim-worker statuses → new lifecycle
+update public.jobs set status = 'running' where status = 'processing';
+update public.jobs set status = 'done' where status = 'succeeded';
+
+alter table public.jobs drop constraint if exists jobs_status_check;
+alter table public.jobs
+  add constraint jobs_status_check check (status in ('queued','running','done','failed'));
+
+COMMIT;
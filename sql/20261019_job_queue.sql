@@ -0,0 +1,32 @@
+-- 20261019_job_queue.sql
+-- Durable job queue: leases, retry scheduling, dead-lettering and admin cancel.
+-- Lifecycle: queued → running → done | failed (retry at run_at) | dead; any open job → cancelled.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.jobs
+  add column if not exists payload jsonb,
+  add column if not exists max_attempts integer not null default 5,
+  add column if not exists run_at timestamptz not null default now(),
+  add column if not exists locked_by text,
+  add column if not exists locked_until timestamptz,
+  add column if not exists finished_at timestamptz,
+  add column if not exists error text,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.jobs alter column attempts set default 0;
+alter table public.jobs alter column call_id drop not null;
+
+alter table public.jobs drop constraint if exists jobs_status_check;
+alter table public.jobs
+  add constraint jobs_status_check
+  check (status in ('queued','running','done','failed','dead','cancelled'));
+
+-- Runner poll: ready work ordered by run_at; expired leases
+create index if not exists idx_jobs_status_run_at on public.jobs (status, run_at);
+create index if not exists idx_jobs_running_lease on public.jobs (locked_until) where status = 'running';
+create index if not exists idx_jobs_call on public.jobs (call_id);
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- 20261020_scoring_rubrics.sql
+-- Versioned, org-configurable scoring rubrics.
+-- Versions are append-only per org; one is active. The built-in default is a
+-- global row (org_id null) with a well-known id so every score can point at a rubric.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.scoring_rubrics (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid,
+  version integer not null check (version >= 1),
+  name text not null,
+
+  -- [{ key, label, weight, guidance }]
+  sections jsonb not null check (jsonb_typeof(sections) = 'array'),
+
+  is_active boolean not null default false,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  unique (org_id, version)
+);
+
+-- At most one active version per org
+create unique index if not exists uq_scoring_rubrics_active
+  on public.scoring_rubrics (org_id) where is_active;
+
+insert into public.scoring_rubrics (id, org_id, version, name, sections, is_active)
+values (
+  '00000000-0000-4000-8000-000000000001', null, 1, 'Gravix default',
+  '[
+    {"key":"intro","label":"Intro","weight":1,"guidance":"Pattern interrupt, clear reason for the call, agenda set."},
+    {"key":"discovery","label":"Discovery","weight":1,"guidance":"Deep questions, pain/impact, budget/timeline, authority."},
+    {"key":"objection","label":"Objection Handling","weight":1,"guidance":"Isolates the true objection, reframes value, tests commitment."},
+    {"key":"close","label":"Close","weight":1,"guidance":"Clear next step, assumptive/binary ask, time/date locked."}
+  ]'::jsonb,
+  true
+)
+on conflict (id) do nothing;
+
+-- Exact rubric used for each score (rubric_version keeps the human "vN" label)
+alter table public.calls
+  add column if not exists rubric_id uuid references public.scoring_rubrics(id);
+alter table public.call_scores
+  add column if not exists rubric_id uuid references public.scoring_rubrics(id);
+
+-- Everything scored before this migration used the built-in v1 rubric
+update public.calls
+   set rubric_id = '00000000-0000-4000-8000-000000000001'
+ where rubric_id is null and rubric_version = 'v1';
+update public.call_scores
+   set rubric_id = '00000000-0000-4000-8000-000000000001'
+ where rubric_id is null and rubric_version = 'v1';
+
+create index if not exists idx_call_scores_rubric on public.call_scores (rubric_id);
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- 20261021_fallback_scores.sql
+-- Flag heuristic fallback scores (LLM unavailable) so dashboards can exclude or badge them.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.calls
+  add column if not exists score_is_fallback boolean not null default false;
+alter table public.call_scores
+  add column if not exists is_fallback boolean not null default false;
+
+-- Legacy random fallback (heuristic:v1) rows
+update public.calls set score_is_fallback = true
+ where ai_model like 'heuristic:%' and score_is_fallback = false;
+update public.call_scores set is_fallback = true
+ where ai_model like 'heuristic:%' and is_fallback = false;
+
+COMMIT;
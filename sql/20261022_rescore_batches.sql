@@ -0,0 +1,35 @@
+-- 20261022_rescore_batches.sql
+-- Batch re-score for rubric migrations: batch header, jobs → batch link,
+-- and call_scores rows tagged with the batch that produced them.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.rescore_batches (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid,
+  requested_by uuid,
+  filters jsonb not null default '{}'::jsonb,
+
+  rubric_id uuid not null references public.scoring_rubrics(id),
+  rubric_version text not null,
+
+  total integer not null default 0,
+  status text not null default 'running' check (status in ('running','done','cancelled')),
+
+  created_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists idx_rescore_batches_created on public.rescore_batches (created_at desc);
+
+alter table public.jobs
+  add column if not exists batch_id uuid; -- rescore_batches.id (no FK: other batch kinds may reuse it)
+create index if not exists idx_jobs_batch_status on public.jobs (batch_id, status) where batch_id is not null;
+
+alter table public.call_scores
+  add column if not exists rescore_batch_id uuid references public.rescore_batches(id) on delete set null;
+create index if not exists idx_call_scores_batch on public.call_scores (rescore_batch_id) where rescore_batch_id is not null;
+create index if not exists idx_call_scores_call_created on public.call_scores (call_id, created_at desc);
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- 20261023_calibration.sql
+-- Calibration runs: re-score batches can use a candidate model in shadow mode
+-- (call_scores only), and the report reads call_scores by model + rubric version.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.rescore_batches
+  add column if not exists model text,
+  add column if not exists shadow boolean not null default false;
+
+create index if not exists idx_call_scores_model_version
+  on public.call_scores (ai_model, rubric_version, created_at desc);
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- 20261024_score_overrides.sql
+-- Manager score overrides: append-only audit trail per call section.
+-- The AI score (calls.score_overall / call_scores) is never modified;
+-- calls.override_overall caches the effective overall when overrides exist.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.call_score_overrides (
+  id uuid primary key default gen_random_uuid(),
+  call_id uuid not null references public.calls(id) on delete cascade,
+  call_score_id uuid references public.call_scores(id) on delete set null,
+  section_key text not null,
+  ai_score numeric,
+  override_score numeric check (override_score is null or (override_score >= 0 and override_score <= 100)),
+  reason text not null,
+  author_id uuid not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_call_score_overrides_call
+  on public.call_score_overrides (call_id, created_at);
+
+create index if not exists idx_call_score_overrides_created
+  on public.call_score_overrides (created_at);
+
+alter table public.calls
+  add column if not exists override_overall numeric;
+
+COMMIT;
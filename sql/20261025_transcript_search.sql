@@ -0,0 +1,22 @@
+-- 20261025_transcript_search.sql
+-- Transcript search: stored full-text vector per segment (websearch / phrase
+-- queries) + trigram index for literal keyword matches. Safe to run multiple times.
+
+BEGIN;
+
+create extension if not exists pg_trgm;
+
+alter table public.call_transcript_segments
+  add column if not exists search_tsv tsvector
+    generated always as (to_tsvector('english', coalesce(text, ''))) stored;
+
+create index if not exists idx_call_transcript_segments_tsv
+  on public.call_transcript_segments using gin (search_tsv);
+
+create index if not exists idx_call_transcript_segments_text_trgm
+  on public.call_transcript_segments using gin (text gin_trgm_ops);
+
+create index if not exists idx_calls_org_created
+  on public.calls (org_id, created_at desc);
+
+COMMIT;
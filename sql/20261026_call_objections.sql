@@ -0,0 +1,34 @@
+-- 20261026_call_objections.sql
+-- Buyer objections extracted per call after transcription (LLM or heuristic),
+-- with the rep's reply and a handling grade. Backs /v1/dashboard/objections/top.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.call_objections (
+  id uuid primary key default gen_random_uuid(),
+  call_id uuid not null references public.calls(id) on delete cascade,
+
+  category text not null check (category in ('price','timing','authority','competitor','need')),
+  start_sec numeric not null default 0,
+  end_sec numeric not null default 0,
+  quote text not null default '',
+
+  response_start_sec numeric,
+  response_text text,
+  handling_score integer check (handling_score between 0 and 100),
+  handling_quality text check (handling_quality in ('strong','ok','weak','none')),
+  notes text,
+
+  source text not null default 'llm' check (source in ('llm','heuristic')),
+  model text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_call_objections_call
+  on public.call_objections (call_id, start_sec);
+
+create index if not exists idx_call_objections_category
+  on public.call_objections (category, handling_score desc);
+
+COMMIT;
@@ -0,0 +1,29 @@
+-- 20261027_system_pins.sql
+-- Auto-generated pins: source distinguishes rep-authored ('user') from detected
+-- moments ('system'); system_key makes detection idempotent per call and
+-- dismissed_at hides a system pin without letting re-scoring recreate it.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.pins
+  add column if not exists source text not null default 'user',
+  add column if not exists system_key text,
+  add column if not exists dismissed_at timestamptz,
+  add column if not exists dismissed_by uuid;
+
+alter table public.pins drop constraint if exists pins_source_check;
+alter table public.pins
+  add constraint pins_source_check check (source in ('user','system'));
+
+-- System pins have no author
+alter table public.pins alter column user_id drop not null;
+
+alter table public.pins drop constraint if exists pins_call_system_key_key;
+alter table public.pins
+  add constraint pins_call_system_key_key unique (call_id, system_key);
+
+create index if not exists idx_pins_call_t
+  on public.pins (call_id, t);
+
+COMMIT;
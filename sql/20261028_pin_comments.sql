@@ -0,0 +1,47 @@
+-- 20261028_pin_comments.sql
+-- Shared pins: threaded comments with @-mentions and resolved state, so a pin
+-- becomes a coaching conversation between a rep and managers in their org.
+-- Mentions are logged as 'pin_mention' activities, so that type is appended
+-- to activities_type_check (the existing list is kept as it is).
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.pins
+  add column if not exists resolved_at timestamptz,
+  add column if not exists resolved_by uuid;
+
+create table if not exists public.pin_comments (
+  id uuid primary key default gen_random_uuid(),
+  pin_id uuid not null references public.pins(id) on delete cascade,
+  parent_id uuid references public.pin_comments(id) on delete cascade,
+  author_id uuid not null,
+  body text not null check (char_length(body) between 1 and 2000),
+  mentions uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  edited_at timestamptz
+);
+
+create index if not exists idx_pin_comments_pin
+  on public.pin_comments (pin_id, created_at);
+
+create index if not exists idx_pin_comments_mentions
+  on public.pin_comments using gin (mentions);
+
+do $$
+declare
+  def text;
+begin
+  select pg_get_constraintdef(oid) into def
+  from pg_constraint
+  where conrelid = 'public.activities'::regclass and conname = 'activities_type_check';
+
+  -- Postgres prints an IN list as "type = ANY (ARRAY['a'::text, ...])"
+  if def is not null and def like '%ARRAY[%' and def not like '%''pin_mention''%' then
+    alter table public.activities drop constraint activities_type_check;
+    execute 'alter table public.activities add constraint activities_type_check '
+      || replace(def, 'ARRAY[', 'ARRAY[''pin_mention''::text, ');
+  end if;
+end $$;
+
+COMMIT;
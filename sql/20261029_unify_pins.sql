@@ -0,0 +1,40 @@
+-- 20261029_unify_pins.sql
+-- One pins table behind /v1/pins and /v1/calls/:id/pins.
+--   - time ranges: start_sec / end_sec (t stays as floor(start_sec) for old clients)
+--   - label / color carried over from call_pins
+--   - call_pins rows copied into pins (call_pins is no longer read; drop it once verified)
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.pins
+  add column if not exists start_sec numeric,
+  add column if not exists end_sec numeric,
+  add column if not exists label text,
+  add column if not exists color text,
+  add column if not exists updated_at timestamptz,
+  add column if not exists legacy_call_pin_id uuid;
+
+update public.pins set start_sec = t where start_sec is null;
+alter table public.pins alter column start_sec set not null;
+alter table public.pins alter column start_sec set default 0;
+
+alter table public.pins drop constraint if exists pins_range_check;
+alter table public.pins
+  add constraint pins_range_check check (start_sec >= 0 and (end_sec is null or end_sec >= start_sec));
+
+do $$
+begin
+  if to_regclass('public.call_pins') is not null then
+    insert into public.pins (call_id, user_id, t, start_sec, label, note, color, source, created_at, legacy_call_pin_id)
+    select cp.call_id, cp.user_id, floor(cp.t_sec), cp.t_sec, cp.label, cp.note, cp.color, 'user', cp.created_at, cp.id
+    from public.call_pins cp
+    where not exists (select 1 from public.pins p where p.legacy_call_pin_id = cp.id);
+  end if;
+end $$;
+
+drop index if exists idx_pins_call_t;
+create index if not exists idx_pins_call_start
+  on public.pins (call_id, start_sec);
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- 20261030_conversation_metrics.sql
+-- Talk ratio, longest monologue, questions, words per minute and interruptions
+-- per call (computed from the diarised transcript), stored next to calls.rubric.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.calls
+  add column if not exists conversation_metrics jsonb;
+
+COMMIT;
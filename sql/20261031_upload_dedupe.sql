@@ -0,0 +1,24 @@
+-- 20261031_upload_dedupe.sql
+-- Upload de-duplication on calls.sha256: lookups per user / org, plus
+-- duplicate_of for historical duplicates merged into a canonical call
+-- (those get status = 'merged' and drop out of call lists).
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.calls
+  add column if not exists duplicate_of uuid references public.calls(id) on delete set null;
+
+create index if not exists calls_user_sha256_idx
+  on public.calls (user_id, sha256)
+  where sha256 is not null;
+
+create index if not exists calls_org_sha256_idx
+  on public.calls (org_id, sha256)
+  where sha256 is not null;
+
+create index if not exists calls_duplicate_of_idx
+  on public.calls (duplicate_of)
+  where duplicate_of is not null;
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- 20261101_audio_validation.sql
+-- Server-side audio checks on upload: what the probe found (container, codec,
+-- channels, sample rate, levels, path of the normalised 16 kHz mono WAV) and
+-- why a call was rejected (status = 'rejected', e.g. silent_audio).
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.calls
+  add column if not exists audio_meta jsonb,
+  add column if not exists rejection_reason text;
+
+COMMIT;
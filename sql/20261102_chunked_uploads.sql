@@ -0,0 +1,44 @@
+-- 20261102_chunked_uploads.sql
+-- Resumable chunked uploads: one session per file (declared size + sha256)
+-- and one row per received part (checked against its own sha256). Parts are
+-- stored under <user>/.parts/<upload_id>/ until complete/abort/expiry.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.upload_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  org_id uuid,
+  filename text not null,
+  mime text,
+  size_bytes bigint not null check (size_bytes > 0),
+  sha256 text not null,
+  part_size integer not null check (part_size > 0),
+  total_parts integer not null check (total_parts > 0),
+  status text not null default 'open'
+    check (status in ('open','completed','aborted','expired')),
+  call_id uuid references public.calls(id) on delete set null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index if not exists upload_sessions_user_idx
+  on public.upload_sessions (user_id, created_at desc);
+
+create index if not exists upload_sessions_open_expiry_idx
+  on public.upload_sessions (expires_at)
+  where status = 'open';
+
+create table if not exists public.upload_parts (
+  upload_id uuid not null references public.upload_sessions(id) on delete cascade,
+  part_number integer not null check (part_number > 0),
+  size_bytes integer not null,
+  sha256 text not null,
+  storage_path text not null,
+  created_at timestamptz not null default now(),
+  primary key (upload_id, part_number)
+);
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- 20261103_call_import.sql
+-- Pre-transcribed call imports (kind = 'json'): title, start time, language,
+-- participants, dialer metadata and CRM contact email from the import file.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.calls
+  add column if not exists import_meta jsonb;
+
+COMMIT;
@@ -0,0 +1,46 @@
+-- 20261104_retention.sql
+-- Per-org retention windows (days; null = keep forever), purge markers on
+-- calls, and signed deletion receipts for rep / contact erasure requests.
+-- Receipts hold the subject only as a sha256 hash.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.retention_policies (
+  org_id uuid primary key,
+  audio_days integer check (audio_days is null or audio_days > 0),
+  transcript_days integer check (transcript_days is null or transcript_days > 0),
+  call_days integer check (call_days is null or call_days > 0),
+  updated_at timestamptz not null default now(),
+  updated_by uuid
+);
+
+alter table public.calls
+  add column if not exists audio_purged_at timestamptz,
+  add column if not exists transcript_redacted_at timestamptz;
+
+create index if not exists calls_org_created_idx
+  on public.calls (org_id, created_at);
+
+create table if not exists public.deletion_receipts (
+  id uuid primary key,
+  org_id uuid not null,
+  subject_type text not null check (subject_type in ('rep','contact')),
+  subject_hash text not null,
+  requested_by uuid not null,
+  call_ids uuid[] not null default '{}',
+  counts jsonb not null default '{}'::jsonb,
+  errors text[] not null default '{}',
+  status text not null check (status in ('completed','partial')),
+  completed_at timestamptz not null,
+  signature text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists deletion_receipts_org_idx
+  on public.deletion_receipts (org_id, completed_at desc);
+
+create index if not exists deletion_receipts_subject_idx
+  on public.deletion_receipts (subject_hash);
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- 20261105_pii_redaction.sql
+-- PII redaction: a redacted copy of every transcript segment (what LLM
+-- prompts see), a per-call report of what was redacted (types, counts and
+-- segment positions — never the values) and the per-org toggle.
+-- Rows saved before this migration have no redacted copy; prompts redact
+-- them on the fly.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.call_transcript_segments
+  add column if not exists text_redacted text;
+
+alter table public.calls
+  add column if not exists pii_report jsonb;
+
+create table if not exists public.org_privacy_settings (
+  org_id uuid primary key,
+  redact_pii boolean not null default true,
+  updated_at timestamptz not null default now(),
+  updated_by uuid
+);
+
+COMMIT;
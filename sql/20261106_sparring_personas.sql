@@ -0,0 +1,27 @@
+-- 20261106_sparring_personas.sql
+-- Org-defined sparring personas. `config` is a validated PersonaConfig
+-- (minus id); the row id doubles as the persona id stored on
+-- sparring_sessions.persona_id. Deleting archives, so old sessions resolve.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.sparring_personas (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null,
+  label text not null,
+  config jsonb not null,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  archived_at timestamptz
+);
+
+create unique index if not exists sparring_personas_org_label_uidx
+  on public.sparring_personas (org_id, lower(label))
+  where archived_at is null;
+
+create index if not exists sparring_personas_org_idx
+  on public.sparring_personas (org_id, created_at);
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- 20261107_persona_emotion_models.sql
+-- Per-org override of a sparring persona's emotional model (declarative
+-- rules + starting mood, see lib/emotionModel). persona_id is a built-in id
+-- ("angry", …) or a sparring_personas id.
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.persona_emotion_models (
+  org_id uuid not null,
+  persona_id text not null,
+  model jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid,
+  primary key (org_id, persona_id)
+);
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- 20261108_sparring_voice.sql
+-- Voice sparring: audio offsets for spoken turns (session timeline, ms),
+-- whether the buyer cut in, and where the synthesised buyer audio is stored.
+-- One row per sparring_turns row that was spoken; text turns have none.
+-- Voice sessions carry meta.channel = 'voice' (no column change needed).
+-- Safe to run multiple times.
+
+BEGIN;
+
+create table if not exists public.sparring_turn_audio (
+  turn_id uuid primary key,
+  session_id uuid not null,
+  role text not null check (role in ('user', 'assistant')),
+  start_ms integer not null check (start_ms >= 0),
+  end_ms integer not null check (end_ms >= start_ms),
+  interrupted boolean not null default false,
+  provider text,
+  storage_path text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sparring_turn_audio_session_idx
+  on public.sparring_turn_audio (session_id, start_ms);
+
+COMMIT;
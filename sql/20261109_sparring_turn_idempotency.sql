@@ -0,0 +1,17 @@
+-- 20261109_sparring_turn_idempotency.sql
+-- Client turn ids for sparring text turns (POST /turns, /turns/stream):
+-- both rows of a turn carry the id the client sent, unique per session and
+-- role, so a retried request finds the stored turn instead of adding a
+-- second one. Turns sent without an id (and voice turns) keep it null.
+-- Safe to run multiple times.
+
+BEGIN;
+
+alter table public.sparring_turns
+  add column if not exists client_turn_id text;
+
+create unique index if not exists sparring_turns_client_turn_idx
+  on public.sparring_turns (session_id, client_turn_id, role)
+  where client_turn_id is not null;
+
+COMMIT;
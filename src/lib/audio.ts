@@ -0,0 +1,829 @@
+// src/lib/audio.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { spawn } from "child_process";
+import crypto from "crypto";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// ---------------------------------------------
+// Audio validation + normalisation
+//
+// probeAudio() sniffs the container from the bytes (never the client mime)
+// and reads codec, channels, sample rate and duration from the headers:
+//   wav (RIFF) · mp3 · aac (ADTS) · flac · ogg (opus/vorbis) · mp4/m4a · webm/mkv
+// validateAudio() rejects empty, unknown, too short/long and — where samples
+// are readable (PCM) — silent files. Rejections are Error messages from
+// AUDIO_REJECTIONS so routes and the transcribe job can map them.
+//
+// Stored uploads are never read whole just to probe them: an AudioSample is
+// the first AUDIO_PROBE_HEAD_BYTES plus the last AUDIO_PROBE_TAIL_BYTES
+// (Ogg's last page, an MP4 index written after the media) and the real size.
+//
+// normalizeAudio() converts to the canonical transcription format: via
+// ffmpeg when available (FFMPEG_PATH), file to file, to 16 kHz mono Opus in
+// Ogg — ~1.5 kB/s, so even an AUDIO_MAX_SEC call stays under the provider's
+// 25 MB upload limit, where 16-bit PCM (32 kB/s) passes it after 13 minutes.
+// Without ffmpeg only PCM WAV converts (in-process, to 16 kHz mono WAV);
+// other formats pass through unchanged. A canonical copy that comes out
+// bigger than the original is dropped in favour of the original.
+//
+// Env (all optional):
+//   AUDIO_MIN_SEC        (default 2)
+//   AUDIO_MAX_SEC        (default 14400 = 4h)
+//   AUDIO_SILENCE_DBFS   (default -60, RMS below this = silent)
+//   FFMPEG_PATH          (default "ffmpeg"; set to "off" to disable)
+//   FFMPEG_TIMEOUT_MS    (default 300000)
+//   AUDIO_OPUS_BITRATE   (default "12k")
+// ---------------------------------------------
+
+const AUDIO_MIN_SEC = Number(process.env.AUDIO_MIN_SEC || 2);
+const AUDIO_MAX_SEC = Number(process.env.AUDIO_MAX_SEC || 4 * 60 * 60);
+const AUDIO_SILENCE_DBFS = Number(process.env.AUDIO_SILENCE_DBFS || -60);
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFMPEG_TIMEOUT_MS = Number(process.env.FFMPEG_TIMEOUT_MS || 300_000);
+const AUDIO_OPUS_BITRATE = process.env.AUDIO_OPUS_BITRATE || "12k";
+
+export const AUDIO_PROBE_HEAD_BYTES = 1024 * 1024;
+export const AUDIO_PROBE_TAIL_BYTES = 256 * 1024;
+
+export const CANONICAL_SAMPLE_RATE = 16_000;
+export const CANONICAL_MIME = "audio/ogg";
+
+export const AUDIO_REJECTIONS = [
+  "empty_file",
+  "unsupported_format",
+  "unsupported_codec",
+  "invalid_audio_header",
+  "audio_too_short",
+  "audio_too_long",
+  "silent_audio",
+] as const;
+export type AudioRejection = (typeof AUDIO_REJECTIONS)[number];
+
+export function isAudioRejection(msg: string | null | undefined): msg is AudioRejection {
+  return (AUDIO_REJECTIONS as readonly string[]).includes(String(msg || ""));
+}
+
+export type AudioContainer = "wav" | "mp3" | "aac" | "flac" | "ogg" | "mp4" | "webm" | "matroska";
+
+export type AudioProbe = {
+  container: AudioContainer;
+  codec: string;               // pcm_s16le, mp3, aac, opus, …
+  mime: string;                // derived from the container
+  channels: number | null;
+  sampleRate: number | null;
+  bitsPerSample: number | null;
+  durationSec: number | null;  // null when the headers don't say (e.g. live WebM)
+};
+
+export type AudioLevels = { rms_dbfs: number; peak_dbfs: number };
+
+/** Both ends of a file too big to read whole; tail is null when head is the whole file. */
+export type AudioSample = { head: Buffer; tail: Buffer | null; totalBytes: number };
+
+const SUPPORTED_CODECS = new Set([
+  "pcm_u8", "pcm_s16le", "pcm_s24le", "pcm_s32le", "pcm_f32le", "pcm_f64le", "pcm_mulaw", "pcm_alaw",
+  "mp3", "aac", "alac", "flac", "opus", "vorbis",
+]);
+
+const CONTAINER_MIME: Record<AudioContainer, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  mp4: "audio/mp4",
+  webm: "audio/webm",
+  matroska: "audio/x-matroska",
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function ascii(buf: Buffer, start: number, len: number) {
+  return buf.toString("latin1", start, Math.min(buf.length, start + len));
+}
+
+function probe(container: AudioContainer, rest: Omit<AudioProbe, "container" | "mime">): AudioProbe {
+  return {
+    container,
+    mime: CONTAINER_MIME[container],
+    ...rest,
+    durationSec: rest.durationSec != null && Number.isFinite(rest.durationSec) ? round2(rest.durationSec) : null,
+  };
+}
+
+// --- WAV (RIFF) -------------------------------------------------------------
+type WavInfo = {
+  format: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataSize: number;
+};
+
+function wavCodec(format: number, bits: number) {
+  if (format === 1) return bits === 8 ? "pcm_u8" : `pcm_s${bits}le`;
+  if (format === 3) return `pcm_f${bits}le`;
+  if (format === 6) return "pcm_alaw";
+  if (format === 7) return "pcm_mulaw";
+  if (format === 0x55) return "mp3";
+  return `wav_0x${format.toString(16)}`;
+}
+
+function readWav(buf: Buffer, total = buf.length): WavInfo | null {
+  if (buf.length < 12 || ascii(buf, 0, 4) !== "RIFF" || ascii(buf, 8, 4) !== "WAVE") return null;
+
+  let fmt: Omit<WavInfo, "dataOffset" | "dataSize"> | null = null;
+  let off = 12;
+  while (off + 8 <= buf.length) {
+    const id = ascii(buf, off, 4);
+    const size = buf.readUInt32LE(off + 4);
+    const body = off + 8;
+
+    if (id === "fmt " && body + 16 <= buf.length) {
+      let format = buf.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first 2 bytes of the sub-format GUID
+      if (format === 0xfffe && size >= 26 && body + 26 <= buf.length) format = buf.readUInt16LE(body + 24);
+      fmt = {
+        format,
+        channels: buf.readUInt16LE(body + 2),
+        sampleRate: buf.readUInt32LE(body + 4),
+        blockAlign: buf.readUInt16LE(body + 12),
+        bitsPerSample: buf.readUInt16LE(body + 14),
+      };
+    } else if (id === "data") {
+      if (!fmt) return null;
+      // Streamed WAVs carry 0 / 0xFFFFFFFF here; trust the bytes we have.
+      const dataSize = size === 0 || body + size > total ? total - body : size;
+      return { ...fmt, dataOffset: body, dataSize };
+    }
+    off = body + size + (size % 2);
+  }
+  return null;
+}
+
+function probeWav(buf: Buffer, total: number): AudioProbe | null {
+  const w = readWav(buf, total);
+  if (!w) return null;
+  const bytesPerSec = w.sampleRate * w.blockAlign;
+  return probe("wav", {
+    codec: wavCodec(w.format, w.bitsPerSample),
+    channels: w.channels,
+    sampleRate: w.sampleRate,
+    bitsPerSample: w.bitsPerSample,
+    durationSec: bytesPerSec ? w.dataSize / bytesPerSec : null,
+  });
+}
+
+/** Normalised sample reader (-1..1) for the PCM formats we can decode in-process. */
+function pcmReader(buf: Buffer, w: WavInfo): ((byteOffset: number) => number) | null {
+  if (w.format === 1 && w.bitsPerSample === 8) return (o) => (buf[o] - 128) / 128;
+  if (w.format === 1 && w.bitsPerSample === 16) return (o) => buf.readInt16LE(o) / 32768;
+  if (w.format === 1 && w.bitsPerSample === 24) return (o) => buf.readIntLE(o, 3) / 8388608;
+  if (w.format === 1 && w.bitsPerSample === 32) return (o) => buf.readInt32LE(o) / 2147483648;
+  if (w.format === 3 && w.bitsPerSample === 32) return (o) => buf.readFloatLE(o);
+  if (w.format === 3 && w.bitsPerSample === 64) return (o) => buf.readDoubleLE(o);
+  return null;
+}
+
+/** RMS + peak level of a PCM WAV (sampled to ~2M frames), or null if not decodable. */
+export function pcmLevels(buf: Buffer): AudioLevels | null {
+  const w = readWav(buf);
+  if (!w || !w.blockAlign || !w.channels) return null;
+  const read = pcmReader(buf, w);
+  if (!read) return null;
+
+  const frames = Math.floor(w.dataSize / w.blockAlign);
+  if (!frames) return null;
+  const stride = Math.max(1, Math.floor(frames / 2_000_000));
+  const bytesPerSample = w.bitsPerSample / 8;
+
+  let sumSq = 0;
+  let peak = 0;
+  let n = 0;
+  for (let f = 0; f < frames; f += stride) {
+    const base = w.dataOffset + f * w.blockAlign;
+    for (let c = 0; c < w.channels; c++) {
+      const v = read(base + c * bytesPerSample);
+      sumSq += v * v;
+      peak = Math.max(peak, Math.abs(v));
+      n++;
+    }
+  }
+
+  const dbfs = (x: number) => (x > 0 ? round2(20 * Math.log10(x)) : -Infinity);
+  return { rms_dbfs: dbfs(Math.sqrt(sumSq / n)), peak_dbfs: dbfs(peak) };
+}
+
+// --- MP3 / ADTS AAC -----------------------------------------------------------
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+function id3Length(buf: Buffer) {
+  if (buf.length < 10 || ascii(buf, 0, 3) !== "ID3") return 0;
+  const size = ((buf[6] & 0x7f) << 21) | ((buf[7] & 0x7f) << 14) | ((buf[8] & 0x7f) << 7) | (buf[9] & 0x7f);
+  return 10 + size + (buf[5] & 0x10 ? 10 : 0);
+}
+
+function mp3Header(buf: Buffer, off: number) {
+  if (off + 4 > buf.length || buf[off] !== 0xff || (buf[off + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (buf[off + 1] >> 3) & 3; // 0 = 2.5, 2 = 2, 3 = 1
+  const layerBits = (buf[off + 1] >> 1) & 3;   // 1 = Layer III
+  const brIdx = buf[off + 2] >> 4;
+  const srIdx = (buf[off + 2] >> 2) & 3;
+  if (versionBits === 1 || layerBits !== 1 || brIdx === 0 || brIdx === 15 || srIdx === 3) return null;
+
+  const v1 = versionBits === 3;
+  const sampleRate = MP3_SAMPLE_RATES[srIdx] / (v1 ? 1 : versionBits === 2 ? 2 : 4);
+  const bitrate = (v1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[brIdx] * 1000;
+  const channels = buf[off + 3] >> 6 === 3 ? 1 : 2;
+  const samplesPerFrame = v1 ? 1152 : 576;
+  const frameLen = Math.floor(((v1 ? 144 : 72) * bitrate) / sampleRate) + ((buf[off + 2] >> 1) & 1);
+  return { v1, sampleRate, bitrate, channels, samplesPerFrame, frameLen };
+}
+
+function probeMp3(buf: Buffer, total: number, end: Buffer | null): AudioProbe | null {
+  const start = id3Length(buf);
+  // Require two consecutive frames so random bytes don't pass as MP3.
+  let off = start;
+  let h = mp3Header(buf, off);
+  while (!h && off < Math.min(buf.length, start + 8192)) h = mp3Header(buf, ++off);
+  if (!h || !mp3Header(buf, off + h.frameLen)) return null;
+
+  // Xing/Info (VBR) header carries the frame count; otherwise assume CBR.
+  const xingOff = off + 4 + (h.v1 ? (h.channels === 1 ? 17 : 32) : h.channels === 1 ? 9 : 17);
+  const tag = ascii(buf, xingOff, 4);
+  let durationSec: number | null = null;
+  if ((tag === "Xing" || tag === "Info") && xingOff + 12 <= buf.length && buf.readUInt32BE(xingOff + 4) & 1) {
+    durationSec = (buf.readUInt32BE(xingOff + 8) * h.samplesPerFrame) / h.sampleRate;
+  } else {
+    const tag1 = end && end.length >= 128 && ascii(end, end.length - 128, 3) === "TAG" ? 128 : 0;
+    durationSec = ((total - off - tag1) * 8) / h.bitrate;
+  }
+
+  return probe("mp3", { codec: "mp3", channels: h.channels, sampleRate: h.sampleRate, bitsPerSample: null, durationSec });
+}
+
+function probeAdts(buf: Buffer, total: number): AudioProbe | null {
+  const start = id3Length(buf);
+  let off = start;
+  if (off + 7 > buf.length || buf[off] !== 0xff || (buf[off + 1] & 0xf6) !== 0xf0) return null;
+
+  const sampleRate = AAC_SAMPLE_RATES[(buf[off + 2] >> 2) & 0xf];
+  const channels = ((buf[off + 2] & 1) << 2) | (buf[off + 3] >> 6);
+  if (!sampleRate) return null;
+
+  let frames = 0;
+  while (off + 7 <= buf.length && buf[off] === 0xff && (buf[off + 1] & 0xf6) === 0xf0) {
+    const len = ((buf[off + 3] & 3) << 11) | (buf[off + 4] << 3) | (buf[off + 5] >> 5);
+    if (len < 7) break;
+    frames += (buf[off + 6] & 3) + 1;
+    off += len;
+  }
+
+  // Only the head was read: extrapolate from the frames seen so far.
+  const seen = (frames * 1024) / sampleRate;
+  const scanned = off - start;
+  return probe("aac", {
+    codec: "aac",
+    channels: channels || null,
+    sampleRate,
+    bitsPerSample: null,
+    durationSec: total > buf.length && scanned > 0 ? seen * ((total - start) / scanned) : seen,
+  });
+}
+
+// --- FLAC ---------------------------------------------------------------------
+function probeFlac(buf: Buffer): AudioProbe | null {
+  if (buf.length < 42 || ascii(buf, 0, 4) !== "fLaC" || (buf[4] & 0x7f) !== 0) return null;
+  const si = 8; // STREAMINFO body
+  const sampleRate = (buf[si + 10] << 12) | (buf[si + 11] << 4) | (buf[si + 12] >> 4);
+  const channels = ((buf[si + 12] >> 1) & 7) + 1;
+  const bitsPerSample = (((buf[si + 12] & 1) << 4) | (buf[si + 13] >> 4)) + 1;
+  const totalSamples = (buf[si + 13] & 0xf) * 2 ** 32 + buf.readUInt32BE(si + 14);
+  return probe("flac", {
+    codec: "flac",
+    channels,
+    sampleRate,
+    bitsPerSample,
+    durationSec: sampleRate && totalSamples ? totalSamples / sampleRate : null,
+  });
+}
+
+// --- Ogg (Opus / Vorbis) --------------------------------------------------------
+function probeOgg(buf: Buffer, end: Buffer | null): AudioProbe | null {
+  if (buf.length < 28 || ascii(buf, 0, 4) !== "OggS") return null;
+  const packet = 27 + buf[26];
+
+  let codec: string;
+  let channels: number;
+  let sampleRate: number;
+  let granuleRate: number;
+  let preSkip = 0;
+  if (ascii(buf, packet, 8) === "OpusHead") {
+    codec = "opus";
+    channels = buf[packet + 9];
+    preSkip = buf.readUInt16LE(packet + 10);
+    sampleRate = buf.readUInt32LE(packet + 12) || 48000;
+    granuleRate = 48000; // Opus granules are always 48 kHz
+  } else if (buf[packet] === 1 && ascii(buf, packet + 1, 6) === "vorbis") {
+    codec = "vorbis";
+    channels = buf[packet + 11];
+    sampleRate = granuleRate = buf.readUInt32LE(packet + 12);
+  } else {
+    return probe("ogg", { codec: "unknown", channels: null, sampleRate: null, bitsPerSample: null, durationSec: null });
+  }
+
+  // Duration = granule position of the last page.
+  const last = end ? end.lastIndexOf("OggS") : -1;
+  const granule = end && last >= 0 && last + 14 <= end.length ? Number(end.readBigUInt64LE(last + 6)) : 0;
+  return probe("ogg", {
+    codec,
+    channels,
+    sampleRate,
+    bitsPerSample: null,
+    durationSec: granule && granuleRate ? Math.max(0, granule - preSkip) / granuleRate : null,
+  });
+}
+
+// --- MP4 / M4A -----------------------------------------------------------------
+const MP4_AUDIO_ENTRIES: Record<string, string> = { mp4a: "aac", alac: "alac", Opus: "opus", fLaC: "flac", ".mp3": "mp3" };
+
+function mp4Boxes(buf: Buffer, start: number, end: number) {
+  const boxes: { type: string; body: number; end: number }[] = [];
+  let off = start;
+  while (off + 8 <= end) {
+    let size = buf.readUInt32BE(off);
+    let header = 8;
+    if (size === 1 && off + 16 <= end) {
+      size = Number(buf.readBigUInt64BE(off + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - off;
+    }
+    if (size < header) break;
+    boxes.push({ type: ascii(buf, off + 4, 4), body: off + header, end: Math.min(end, off + size) });
+    off += size;
+  }
+  return boxes;
+}
+
+/** moov written after the media (no faststart): follow the top-level boxes into the tail. */
+function mp4TailMoov(head: Buffer, tail: Buffer, total: number) {
+  const tailStart = total - tail.length;
+  let off = 0;
+  while (off + 8 <= total) {
+    const buf = off + 16 <= head.length ? head : off >= tailStart ? tail : null;
+    if (!buf) return null;
+    const at = buf === head ? off : off - tailStart;
+    if (at + 8 > buf.length) return null;
+    let size = buf.readUInt32BE(at);
+    let header = 8;
+    if (size === 1 && at + 16 <= buf.length) {
+      size = Number(buf.readBigUInt64BE(at + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = total - off;
+    }
+    if (size < header) return null;
+    if (ascii(buf, at + 4, 4) === "moov") {
+      return buf === tail && at + size <= tail.length ? { type: "moov", body: at + header, end: at + size } : null;
+    }
+    off += size;
+  }
+  return null;
+}
+
+function probeMp4(buf: Buffer, total: number, tail: Buffer | null): AudioProbe | null {
+  if (buf.length < 12 || ascii(buf, 4, 4) !== "ftyp") return null;
+  const moov = mp4Boxes(buf, 0, buf.length).find((b) => b.type === "moov");
+  if (moov) return mp4Track(buf, moov);
+  const late = tail && mp4TailMoov(buf, tail, total);
+  if (late) return mp4Track(tail!, late);
+  return probe("mp4", { codec: "unknown", channels: null, sampleRate: null, bitsPerSample: null, durationSec: null });
+}
+
+function mp4Track(buf: Buffer, moov: { body: number; end: number }): AudioProbe {
+  let durationSec: number | null = null;
+  const mvhd = mp4Boxes(buf, moov.body, moov.end).find((b) => b.type === "mvhd");
+  if (mvhd) {
+    const v1 = buf[mvhd.body] === 1;
+    const timescale = buf.readUInt32BE(mvhd.body + (v1 ? 20 : 12));
+    const duration = v1 ? Number(buf.readBigUInt64BE(mvhd.body + 24)) : buf.readUInt32BE(mvhd.body + 16);
+    durationSec = timescale ? duration / timescale : null;
+  }
+
+  // First audio sample entry anywhere under moov (trak/mdia/minf/stbl/stsd).
+  const region = buf.subarray(moov.body, moov.end);
+  for (const [fourcc, codec] of Object.entries(MP4_AUDIO_ENTRIES)) {
+    const i = region.indexOf(fourcc, 0, "latin1");
+    if (i < 4) continue;
+    const entry = moov.body + i - 4;
+    if (entry + 36 > buf.length) continue;
+    return probe("mp4", {
+      codec,
+      channels: buf.readUInt16BE(entry + 24) || null,
+      sampleRate: buf.readUInt32BE(entry + 32) >>> 16 || null,
+      bitsPerSample: buf.readUInt16BE(entry + 26) || null,
+      durationSec,
+    });
+  }
+  return probe("mp4", { codec: "unknown", channels: null, sampleRate: null, bitsPerSample: null, durationSec });
+}
+
+// --- WebM / Matroska (EBML) -------------------------------------------------------
+const EBML = {
+  header: 0x1a45dfa3,
+  docType: 0x4282,
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackType: 0x83,
+  codecId: 0x86,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  cluster: 0x1f43b675,
+};
+
+function readVint(buf: Buffer, off: number, keepMarker: boolean) {
+  const first = buf[off];
+  if (first === undefined || first === 0) return null;
+  let len = 1;
+  while (!(first & (0x80 >> (len - 1)))) len++;
+  if (off + len > buf.length) return null;
+  let value = keepMarker ? first : first & (0xff >> len);
+  let allOnes = value === (0xff >> len);
+  for (let i = 1; i < len; i++) {
+    value = value * 256 + buf[off + i];
+    if (buf[off + i] !== 0xff) allOnes = false;
+  }
+  return { value, len, unknown: !keepMarker && allOnes };
+}
+
+function ebmlElements(buf: Buffer, start: number, end: number) {
+  const out: { id: number; body: number; end: number }[] = [];
+  let off = start;
+  while (off < end) {
+    const id = readVint(buf, off, true);
+    const size = id && readVint(buf, off + id.len, false);
+    if (!id || !size) break;
+    const body = off + id.len + size.len;
+    const elEnd = size.unknown ? end : Math.min(end, body + size.value);
+    out.push({ id: id.value, body, end: elEnd });
+    if (id.value === EBML.cluster) break; // media data from here on
+    off = elEnd;
+  }
+  return out;
+}
+
+function ebmlUint(buf: Buffer, el: { body: number; end: number }) {
+  let v = 0;
+  for (let i = el.body; i < el.end; i++) v = v * 256 + buf[i];
+  return v;
+}
+
+function ebmlFloat(buf: Buffer, el: { body: number; end: number }) {
+  const len = el.end - el.body;
+  return len === 4 ? buf.readFloatBE(el.body) : len === 8 ? buf.readDoubleBE(el.body) : null;
+}
+
+function probeMatroska(buf: Buffer): AudioProbe | null {
+  if (buf.length < 4 || buf.readUInt32BE(0) !== EBML.header) return null;
+  const top = ebmlElements(buf, 0, buf.length);
+  const header = top.find((e) => e.id === EBML.header);
+  const docType = header && ebmlElements(buf, header.body, header.end).find((e) => e.id === EBML.docType);
+  const container: AudioContainer = docType && ascii(buf, docType.body, docType.end - docType.body) === "webm" ? "webm" : "matroska";
+
+  const segment = top.find((e) => e.id === EBML.segment);
+  const children = segment ? ebmlElements(buf, segment.body, segment.end) : [];
+
+  let durationSec: number | null = null;
+  const info = children.find((e) => e.id === EBML.info);
+  if (info) {
+    const fields = ebmlElements(buf, info.body, info.end);
+    const scale = fields.find((e) => e.id === EBML.timecodeScale);
+    const dur = fields.find((e) => e.id === EBML.duration);
+    const ticks = dur ? ebmlFloat(buf, dur) : null;
+    if (ticks != null) durationSec = (ticks * (scale ? ebmlUint(buf, scale) : 1_000_000)) / 1e9;
+  }
+
+  let codec = "unknown";
+  let channels: number | null = null;
+  let sampleRate: number | null = null;
+  const tracks = children.find((e) => e.id === EBML.tracks);
+  for (const entry of tracks ? ebmlElements(buf, tracks.body, tracks.end).filter((e) => e.id === EBML.trackEntry) : []) {
+    const fields = ebmlElements(buf, entry.body, entry.end);
+    const type = fields.find((e) => e.id === EBML.trackType);
+    if (!type || ebmlUint(buf, type) !== 2) continue; // 2 = audio
+    const id = fields.find((e) => e.id === EBML.codecId);
+    codec = id ? ascii(buf, id.body, id.end - id.body).replace(/^A_/, "").replace(/\0+$/, "").toLowerCase() : "unknown";
+    if (codec === "mpeg/l3") codec = "mp3";
+    if (codec.startsWith("aac")) codec = "aac";
+    const audio = fields.find((e) => e.id === EBML.audio);
+    if (audio) {
+      const a = ebmlElements(buf, audio.body, audio.end);
+      const sf = a.find((e) => e.id === EBML.samplingFrequency);
+      const ch = a.find((e) => e.id === EBML.channels);
+      sampleRate = sf ? ebmlFloat(buf, sf) : null;
+      channels = ch ? ebmlUint(buf, ch) : null;
+    }
+    break;
+  }
+
+  return probe(container, { codec, channels, sampleRate, bitsPerSample: null, durationSec });
+}
+
+// --- Public API -------------------------------------------------------------------
+
+function asSample(input: Buffer | AudioSample): AudioSample {
+  return Buffer.isBuffer(input) ? { head: input, tail: null, totalBytes: input.length } : input;
+}
+
+/** Container/codec/duration from the file's own headers, or null if it isn't audio we know. */
+export function probeAudio(input: Buffer | AudioSample): AudioProbe | null {
+  const { head: buf, tail, totalBytes: total } = asSample(input);
+  if (!buf?.length) return null;
+  // The last bytes of the file, when we have them.
+  const end = total > buf.length ? tail : buf;
+  return (
+    probeWav(buf, total) ||
+    probeFlac(buf) ||
+    probeOgg(buf, end) ||
+    probeMp4(buf, total, tail) ||
+    probeMatroska(buf) ||
+    probeAdts(buf, total) ||
+    probeMp3(buf, total, end)
+  );
+}
+
+/**
+ * Probe + reject what can't be transcribed. Throws an Error whose message is
+ * one of AUDIO_REJECTIONS; returns the probe (and PCM levels when readable).
+ * A sample skips the silence check; prepareCallAudio runs it on the decoded file.
+ */
+export function validateAudio(input: Buffer | AudioSample): { probe: AudioProbe; levels: AudioLevels | null } {
+  const sample = asSample(input);
+  if (!sample.head?.length) throw new Error("empty_file");
+
+  const p = probeAudio(sample);
+  if (!p) throw new Error("unsupported_format");
+  if (!SUPPORTED_CODECS.has(p.codec)) throw new Error("unsupported_codec");
+  if (p.channels === 0 || p.sampleRate === 0) throw new Error("invalid_audio_header");
+  if (p.durationSec != null && p.durationSec < AUDIO_MIN_SEC) throw new Error("audio_too_short");
+  if (p.durationSec != null && p.durationSec > AUDIO_MAX_SEC) throw new Error("audio_too_long");
+
+  const whole = sample.totalBytes <= sample.head.length;
+  const levels = p.container === "wav" && whole ? pcmLevels(sample.head) : null;
+  if (levels && levels.rms_dbfs < AUDIO_SILENCE_DBFS) throw new Error("silent_audio");
+
+  return { probe: p, levels };
+}
+
+/** Summary stored on calls.audio_meta. */
+export function audioMeta(p: AudioProbe, extra: Record<string, unknown> = {}) {
+  return {
+    container: p.container,
+    codec: p.codec,
+    channels: p.channels,
+    sample_rate: p.sampleRate,
+    bits_per_sample: p.bitsPerSample,
+    duration_sec: p.durationSec,
+    ...extra,
+  };
+}
+
+function wavHeader(dataSize: number, sampleRate: number) {
+  const h = Buffer.alloc(44);
+  h.write("RIFF", 0, "latin1");
+  h.writeUInt32LE(36 + dataSize, 4);
+  h.write("WAVEfmt ", 8, "latin1");
+  h.writeUInt32LE(16, 16);
+  h.writeUInt16LE(1, 20);              // PCM
+  h.writeUInt16LE(1, 22);              // mono
+  h.writeUInt32LE(sampleRate, 24);
+  h.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  h.writeUInt16LE(2, 32);              // block align
+  h.writeUInt16LE(16, 34);             // bits per sample
+  h.write("data", 36, "latin1");
+  h.writeUInt32LE(dataSize, 40);
+  return h;
+}
+
+/** PCM WAV → 16 kHz mono s16 WAV (channel average + linear resampling). */
+function normalizePcmWav(buf: Buffer): Buffer | null {
+  const w = readWav(buf);
+  const read = w && pcmReader(buf, w);
+  if (!w || !read || !w.blockAlign || !w.sampleRate) return null;
+
+  const frames = Math.floor(w.dataSize / w.blockAlign);
+  const outFrames = Math.floor((frames * CANONICAL_SAMPLE_RATE) / w.sampleRate);
+  const bytesPerSample = w.bitsPerSample / 8;
+  const mono = (f: number) => {
+    const base = w.dataOffset + Math.min(f, frames - 1) * w.blockAlign;
+    let sum = 0;
+    for (let c = 0; c < w.channels; c++) sum += read(base + c * bytesPerSample);
+    return sum / w.channels;
+  };
+
+  const out = Buffer.alloc(outFrames * 2);
+  const ratio = w.sampleRate / CANONICAL_SAMPLE_RATE;
+  for (let i = 0; i < outFrames; i++) {
+    const pos = i * ratio;
+    const f = Math.floor(pos);
+    const v = mono(f) + (mono(f + 1) - mono(f)) * (pos - f);
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(v * 32767))), i * 2);
+  }
+  return Buffer.concat([wavHeader(out.length, CANONICAL_SAMPLE_RATE), out]);
+}
+
+let ffmpegMissing = FFMPEG_PATH === "off";
+
+function tempAudioPath(ext: string) {
+  return path.join(os.tmpdir(), `audio-${crypto.randomUUID()}${ext}`);
+}
+
+/** mean_volume / max_volume from ffmpeg's volumedetect summary. */
+function volumedetectLevels(stderr: string): AudioLevels | null {
+  const mean = /mean_volume:\s*(-?[\d.]+|-inf) dB/.exec(stderr)?.[1];
+  const max = /max_volume:\s*(-?[\d.]+|-inf) dB/.exec(stderr)?.[1];
+  if (!mean || !max) return null;
+  const db = (v: string) => (v === "-inf" ? -Infinity : Number(v));
+  return { rms_dbfs: db(mean), peak_dbfs: db(max) };
+}
+
+/**
+ * Encode anything ffmpeg understands to a canonical Ogg/Opus file, measuring
+ * levels on the way (volumedetect — the decoded samples never touch disk);
+ * false when ffmpeg isn't installed. Input is a file rather than stdin: MP4s
+ * with the index at the end need seeking.
+ */
+async function ffmpegToCanonical(input: string, output: string): Promise<{ levels: AudioLevels | null } | false> {
+  if (ffmpegMissing) return false;
+
+  return new Promise<{ levels: AudioLevels | null } | false>((resolve, reject) => {
+    const proc = spawn(FFMPEG_PATH, [
+      "-hide_banner", "-nostats", "-loglevel", "info", "-y", "-i", input,
+      "-vn", "-ac", "1", "-ar", String(CANONICAL_SAMPLE_RATE), "-af", "volumedetect",
+      "-c:a", "libopus", "-b:a", AUDIO_OPUS_BITRATE, "-application", "voip", "-f", "ogg", output,
+    ]);
+    let stderr = "";
+    const timer = setTimeout(() => proc.kill("SIGKILL"), FFMPEG_TIMEOUT_MS);
+    proc.stderr.on("data", (c: Buffer) => (stderr += c.toString()));
+    proc.on("error", (e: any) => {
+      clearTimeout(timer);
+      if (e?.code === "ENOENT") {
+        ffmpegMissing = true;
+        console.warn("[audio] ffmpeg not found — only PCM WAV is normalised");
+        return resolve(false);
+      }
+      reject(e);
+    });
+    proc.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve({ levels: volumedetectLevels(stderr) });
+      else reject(new Error(`ffmpeg exited ${code}: ${stderr.trim().slice(-300)}`));
+    });
+  });
+}
+
+export type NormalizedAudio = { audio: Buffer; mime: string; ext: string; levels: AudioLevels | null };
+
+/**
+ * Convert an audio file to the canonical format (16 kHz mono Opus, or 16 kHz
+ * mono PCM WAV without ffmpeg). Returns null when nothing could convert it
+ * (no ffmpeg + compressed input); the caller then transcribes the original bytes.
+ */
+export async function normalizeAudio(file: string, p: AudioProbe): Promise<NormalizedAudio | null> {
+  const output = tempAudioPath(".ogg");
+  try {
+    const done = await ffmpegToCanonical(file, output);
+    if (done) return { audio: await fs.readFile(output), mime: CANONICAL_MIME, ext: ".ogg", levels: done.levels };
+  } finally {
+    await fs.unlink(output).catch(() => {});
+  }
+  const wav = p.container === "wav" ? normalizePcmWav(await fs.readFile(file)) : null;
+  return wav && { audio: wav, mime: "audio/wav", ext: ".wav", levels: pcmLevels(wav) };
+}
+
+/** Head + tail of a local file, for probing. */
+export async function readAudioFileSample(file: string): Promise<AudioSample> {
+  const fh = await fs.open(file, "r");
+  try {
+    const { size } = await fh.stat();
+    const head = Buffer.alloc(Math.min(size, AUDIO_PROBE_HEAD_BYTES));
+    await fh.read(head, 0, head.length, 0);
+    if (size <= head.length) return { head, tail: null, totalBytes: size };
+    const tail = Buffer.alloc(Math.min(size - head.length, AUDIO_PROBE_TAIL_BYTES));
+    await fh.read(tail, 0, tail.length, size - tail.length);
+    return { head, tail, totalBytes: size };
+  } finally {
+    await fh.close();
+  }
+}
+
+async function signedStorageUrl(supabase: SupabaseClient, bucket: string, storagePath: string) {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(storagePath, 300);
+  if (error || !data?.signedUrl) throw new Error(`audio download failed: ${error?.message || "no_url"}`);
+  return data.signedUrl;
+}
+
+async function fetchRange(url: string, range: string) {
+  const res = await fetch(url, { headers: { Range: `bytes=${range}` } });
+  if (res.status === 416) return { bytes: Buffer.alloc(0), totalBytes: 0 }; // empty object
+  if (!res.ok) throw new Error(`audio download failed: HTTP ${res.status}`);
+  const bytes = Buffer.from(await res.arrayBuffer());
+  // 206 carries the object size in Content-Range; a 200 is the whole object.
+  const total = Number(res.headers.get("content-range")?.split("/")[1]);
+  return { bytes, totalBytes: res.status === 206 && Number.isFinite(total) ? total : bytes.length };
+}
+
+/** Head + tail of a stored object via ranged reads, for probing without downloading it. */
+export async function readStoredAudioSample(opts: {
+  supabase: SupabaseClient;
+  bucket: string;
+  storagePath: string;
+}): Promise<AudioSample> {
+  const url = await signedStorageUrl(opts.supabase, opts.bucket, opts.storagePath);
+  const head = await fetchRange(url, `0-${AUDIO_PROBE_HEAD_BYTES - 1}`);
+  if (head.totalBytes <= head.bytes.length) return { head: head.bytes, tail: null, totalBytes: head.bytes.length };
+  const tailBytes = Math.min(head.totalBytes - head.bytes.length, AUDIO_PROBE_TAIL_BYTES);
+  const tail = await fetchRange(url, `-${tailBytes}`);
+  return { head: head.bytes, tail: tail.bytes, totalBytes: head.totalBytes };
+}
+
+async function downloadToFile(supabase: SupabaseClient, bucket: string, storagePath: string, file: string) {
+  const url = await signedStorageUrl(supabase, bucket, storagePath);
+  const res = await fetch(url);
+  if (!res.ok || !res.body) throw new Error(`audio download failed: HTTP ${res.status}`);
+  await pipeline(Readable.fromWeb(res.body as any), createWriteStream(file));
+}
+
+export type PreparedAudio = {
+  audio: Buffer;
+  filename: string;
+  mime: string;
+  probe: AudioProbe;
+  levels: AudioLevels | null;
+  normalizedPath: string | null;
+};
+
+/**
+ * Transcription input for a stored upload: stream it to a temp file, probe
+ * its ends, normalise and keep the canonical copy next to the original
+ * (<path>.norm.ogg, or .norm.wav without ffmpeg) unless it came out bigger
+ * than the original. Throws an AUDIO_REJECTIONS message when the file can't
+ * be transcribed — including silence that only shows once compressed audio
+ * is decoded.
+ */
+export async function prepareCallAudio(opts: {
+  supabase: SupabaseClient;
+  bucket: string;
+  storagePath: string;
+}): Promise<PreparedAudio> {
+  const { supabase, bucket, storagePath } = opts;
+  const filename = storagePath.split("/").pop() || "audio";
+
+  const original = tempAudioPath(path.extname(filename));
+  try {
+    await downloadToFile(supabase, bucket, storagePath, original);
+    const { probe: p } = validateAudio(await readAudioFileSample(original));
+    const canonical = await normalizeAudio(original, p);
+    const levels = canonical?.levels ?? null;
+    if (levels && levels.rms_dbfs < AUDIO_SILENCE_DBFS) throw new Error("silent_audio");
+
+    if (!canonical || canonical.audio.length >= (await fs.stat(original)).size) {
+      return { audio: await fs.readFile(original), filename, mime: p.mime, probe: p, levels, normalizedPath: null };
+    }
+
+    const normalizedPath = `${storagePath.replace(/\.[^./]+$/, "")}.norm${canonical.ext}`;
+    const { error: upErr } = await supabase.storage
+      .from(bucket)
+      .upload(normalizedPath, canonical.audio, { contentType: canonical.mime, upsert: true });
+    if (upErr) console.warn("[audio] normalised copy upload failed:", upErr.message);
+
+    return {
+      audio: canonical.audio,
+      filename: filename.replace(/\.[^.]+$/, "") + canonical.ext,
+      mime: canonical.mime,
+      probe: p,
+      levels,
+      normalizedPath: upErr ? null : normalizedPath,
+    };
+  } finally {
+    await fs.unlink(original).catch(() => {});
+  }
+}
@@ -0,0 +1,152 @@
+// src/lib/autoPins.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatTimestamp, loadTranscriptSegments, type TranscriptSegment } from "./transcription";
+import { AGREEMENT_WORDS, CLOSE_WORDS, DATE_RE, containsAny } from "./heuristicScoring";
+import { OBJECTION_LABELS, heuristicExtractObjections, type ObjectionCategory } from "./objections";
+import { speakerRuns } from "./conversationMetrics";
+
+// ---------------------------------------------
+// System pins (auto-generated after objection extraction)
+//
+// Detected moments become pins with source = 'system' and a stable
+// system_key per call, so re-scoring never duplicates them and a pin the rep
+// dismissed (dismissed_at) is not brought back. Moments:
+//   - first_objection  → earliest buyer objection (call_objections, else phrase match)
+//   - pricing          → first time price/cost comes up
+//   - next_step        → rep asks for a next step and the buyer agrees
+//   - monologue:<sec>  → rep talks uninterrupted for MONOLOGUE_SEC+ (max 3)
+// ---------------------------------------------
+
+export type SystemPinKind = "first_objection" | "pricing" | "next_step" | "monologue";
+
+export type SystemPin = {
+  kind: SystemPinKind;
+  key: string;   // unique per call (system_key)
+  t: number;     // seconds
+  end?: number;  // range end (monologues)
+  note: string;
+};
+
+const MONOLOGUE_SEC = Number(process.env.AUTO_PIN_MONOLOGUE_SEC || 90);
+const MAX_MONOLOGUE_PINS = 3;
+const PRICING_WORDS = ["price", "pricing", "cost", "per seat", "per user", "per month", "discount", "quote", "$"];
+
+function quote(text: string, max = 120) {
+  const t = String(text || "").trim().replace(/\s+/g, " ");
+  return t.length > max ? `${t.slice(0, max - 1)}…` : t;
+}
+
+function firstObjectionPin(
+  segments: TranscriptSegment[],
+  stored: { category: ObjectionCategory; start_sec: number; quote: string }[]
+): SystemPin | null {
+  const first = stored.length
+    ? stored.slice().sort((a, b) => Number(a.start_sec) - Number(b.start_sec))[0]
+    : (() => {
+        const h = heuristicExtractObjections(segments)[0];
+        return h ? { category: h.category, start_sec: h.start, quote: h.quote } : null;
+      })();
+  if (!first) return null;
+  return {
+    kind: "first_objection",
+    key: "first_objection",
+    t: Math.floor(Number(first.start_sec)),
+    note: `First objection (${OBJECTION_LABELS[first.category]}): “${quote(first.quote)}”`,
+  };
+}
+
+function pricingPin(segments: TranscriptSegment[]): SystemPin | null {
+  const seg = segments.find((s) => containsAny(s.text, PRICING_WORDS));
+  if (!seg) return null;
+  return {
+    kind: "pricing",
+    key: "pricing",
+    t: Math.floor(seg.start),
+    note: `Pricing discussion (${seg.role === "buyer" ? "buyer" : "rep"} raised it): “${quote(seg.text)}”`,
+  };
+}
+
+/** Last rep next-step ask answered by a buyer yes within the next two turns. */
+function nextStepPin(segments: TranscriptSegment[]): SystemPin | null {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const ask = segments[i];
+    if (ask.role !== "rep" || !containsAny(ask.text, CLOSE_WORDS)) continue;
+    const answer = segments.slice(i + 1, i + 3).find((s) => s.role === "buyer" && containsAny(s.text, AGREEMENT_WORDS));
+    if (!answer) continue;
+    const dated = DATE_RE.test(ask.text) || DATE_RE.test(answer.text);
+    return {
+      kind: "next_step",
+      key: "next_step",
+      t: Math.floor(ask.start),
+      note: `Next step agreed${dated ? " (with a date)" : ""}: “${quote(ask.text)}” → “${quote(answer.text, 60)}”`,
+    };
+  }
+  return null;
+}
+
+/** Runs of consecutive rep segments lasting MONOLOGUE_SEC or more, longest first. */
+function monologuePins(segments: TranscriptSegment[]): SystemPin[] {
+  return speakerRuns(segments)
+    .filter((r) => r.role === "rep" && r.end - r.start >= MONOLOGUE_SEC)
+    .sort((a, b) => b.end - b.start - (a.end - a.start))
+    .slice(0, MAX_MONOLOGUE_PINS)
+    .map((r) => ({
+      kind: "monologue" as const,
+      key: `monologue:${Math.floor(r.start)}`,
+      t: Math.floor(r.start),
+      end: Math.ceil(r.end),
+      note: `Long monologue: rep spoke for ${Math.round(r.end - r.start)}s without a buyer turn (until ${formatTimestamp(r.end)}).`,
+    }));
+}
+
+/** Pure detection over a transcript (plus any stored objections). */
+export function detectKeyMoments(
+  segments: TranscriptSegment[],
+  objections: { category: ObjectionCategory; start_sec: number; quote: string }[] = []
+): SystemPin[] {
+  if (!segments.length) return [];
+  const pins = [
+    firstObjectionPin(segments, objections),
+    pricingPin(segments),
+    nextStepPin(segments),
+    ...monologuePins(segments),
+  ].filter((p): p is SystemPin => !!p);
+  return pins.sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Detect moments for a call and insert any that don't exist yet.
+ * Existing system pins (including dismissed ones) are left untouched.
+ */
+export async function createSystemPins(supabase: SupabaseClient, callId: string) {
+  const segments = await loadTranscriptSegments(supabase, callId);
+
+  const { data: objections, error: objErr } = await supabase
+    .from("call_objections")
+    .select("category,start_sec,quote")
+    .eq("call_id", callId);
+  if (objErr) console.warn("[autoPins] objections load failed:", objErr.message);
+
+  const moments = detectKeyMoments(segments, (objections || []) as any[]);
+  if (!moments.length) return { detected: 0, created: 0 };
+
+  const { data, error } = await supabase
+    .from("pins")
+    .upsert(
+      moments.map((m) => ({
+        call_id: callId,
+        user_id: null,
+        t: m.t,
+        start_sec: m.t,
+        end_sec: m.end ?? null,
+        note: m.note,
+        source: "system",
+        system_key: m.key,
+      })),
+      { onConflict: "call_id,system_key", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (error) throw new Error(`system pins insert failed: ${error.message}`);
+
+  return { detected: moments.length, created: (data || []).length };
+}
@@ -0,0 +1,221 @@
+// src/lib/callImport.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { assignSpeakerRoles, saveTranscript, type SpeakerRole, type Transcript } from "./transcription";
+
+// ---------------------------------------------
+// Call import (kind = "json")
+//
+// Pre-transcribed calls from a dialer skip transcription: the JSON is
+// validated on upload and, in the transcribe job, stored as the call's
+// transcript (provider "import") before scoring continues as usual.
+//
+// Format (version 1):
+//   {
+//     "version": 1,
+//     "title": "Discovery – Acme",                 // optional
+//     "started_at": "2026-10-01T14:00:00Z",        // optional
+//     "duration_sec": 1820,                        // optional (else last segment end)
+//     "language": "en",                            // optional
+//     "participants": [
+//       { "id": "A", "name": "Sam Lee", "email": "sam@us.com", "role": "rep" },
+//       { "id": "B", "name": "Dana Ortiz", "role": "buyer" }
+//     ],
+//     "segments": [{ "speaker": "A", "start": 0, "end": 4.2, "text": "Hi Dana…" }],
+//     "metadata": { "source": "aircall", "external_id": "123" },   // optional, kept as-is
+//     "crm": { "contact_email": "dana@acme.com" }                   // optional → crm_call_links
+//   }
+// Participant roles are optional; without any, whoever speaks first is the rep.
+// With some, unlabelled participants are taken as the opposite side.
+// ---------------------------------------------
+
+export const CALL_IMPORT_VERSION = 1;
+const MAX_SEGMENTS = 5000; // matches loadTranscriptSegments
+const MAX_SEC = 24 * 60 * 60;
+
+const ParticipantSchema = z.object({
+  id: z.string().trim().min(1).max(64),
+  name: z.string().trim().max(120).optional(),
+  email: z.string().trim().email().toLowerCase().optional(),
+  role: z.enum(["rep", "buyer", "other"]).optional(),
+});
+
+const SegmentSchema = z
+  .object({
+    speaker: z.string().trim().min(1).max(64),
+    start: z.number().min(0).max(MAX_SEC),
+    end: z.number().min(0).max(MAX_SEC),
+    text: z.string().trim().min(1).max(10_000),
+  })
+  .refine((s) => s.end >= s.start, { message: "end must be >= start", path: ["end"] });
+
+export const CallImportSchema = z
+  .object({
+    version: z.literal(CALL_IMPORT_VERSION).default(CALL_IMPORT_VERSION),
+    title: z.string().trim().max(200).optional(),
+    started_at: z.string().datetime({ offset: true }).optional(),
+    duration_sec: z.number().positive().max(MAX_SEC).optional(),
+    language: z.string().trim().min(2).max(16).optional(),
+    participants: z.array(ParticipantSchema).min(1).max(20),
+    segments: z.array(SegmentSchema).min(1).max(MAX_SEGMENTS),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+    crm: z.object({ contact_email: z.string().trim().email().toLowerCase().optional() }).optional(),
+  })
+  .superRefine((doc, ctx) => {
+    const ids = new Set<string>();
+    doc.participants.forEach((p, i) => {
+      if (ids.has(p.id)) ctx.addIssue({ code: "custom", message: `duplicate participant id "${p.id}"`, path: ["participants", i, "id"] });
+      ids.add(p.id);
+    });
+    doc.segments.forEach((s, i) => {
+      if (!ids.has(s.speaker)) {
+        ctx.addIssue({ code: "custom", message: `unknown speaker "${s.speaker}"`, path: ["segments", i, "speaker"] });
+      }
+    });
+  });
+
+export type CallImport = z.infer<typeof CallImportSchema>;
+
+export type CallImportResult =
+  | { ok: true; data: CallImport }
+  | { ok: false; error: "invalid_json" | "invalid_call_import"; details?: unknown };
+
+/** Parse + validate an uploaded JSON file. */
+export function parseCallImport(raw: Buffer | string): CallImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(Buffer.isBuffer(raw) ? raw.toString("utf8").replace(/^\uFEFF/, "") : raw);
+  } catch {
+    return { ok: false, error: "invalid_json" };
+  }
+  const parsed = CallImportSchema.safeParse(json);
+  if (!parsed.success) return { ok: false, error: "invalid_call_import", details: parsed.error.flatten() };
+  return { ok: true, data: parsed.data };
+}
+
+/** Name of the rep participant (for calls.rep_name), if the file says who that is. */
+export function importRepName(doc: CallImport) {
+  return doc.participants.find((p) => p.role === "rep")?.name ?? null;
+}
+
+/** Import → Transcript (segments in time order, speakers mapped to rep/buyer). */
+export function importToTranscript(doc: CallImport): Transcript {
+  const ordered = doc.segments.slice().sort((a, b) => a.start - b.start);
+  const byId = new Map(doc.participants.map((p) => [p.id, p]));
+  const hasRoles = doc.participants.some((p) => p.role === "rep" || p.role === "buyer");
+
+  // Unlabelled participants are the other side of whoever is labelled; "other" stays unknown.
+  const hasRep = doc.participants.some((p) => p.role === "rep");
+  const roleOf = (speaker: string): SpeakerRole => {
+    const role = byId.get(speaker)?.role;
+    if (role === "rep" || role === "buyer") return role;
+    if (role === "other") return "unknown";
+    return hasRep ? "buyer" : "rep";
+  };
+
+  const segments = hasRoles
+    ? ordered.map((s) => ({ ...s, role: roleOf(s.speaker) }))
+    : assignSpeakerRoles(ordered);
+
+  return {
+    provider: "import",
+    model: `call-import:v${doc.version}`,
+    durationSec: doc.duration_sec ?? (ordered.length ? ordered[ordered.length - 1].end : null),
+    text: segments.map((s) => s.text).join(" "),
+    segments,
+  };
+}
+
+/** Summary stored on calls.import_meta. */
+export function importMeta(doc: CallImport) {
+  return {
+    version: doc.version,
+    title: doc.title ?? null,
+    started_at: doc.started_at ?? null,
+    language: doc.language ?? null,
+    participants: doc.participants,
+    metadata: doc.metadata ?? null,
+    contact_email: doc.crm?.contact_email ?? null,
+  };
+}
+
+/** calls columns filled from a validated import at upload time. */
+export function importCallFields(doc: CallImport) {
+  const lastEnd = doc.segments.reduce((m, s) => Math.max(m, s.end), 0);
+  return {
+    duration_sec: Math.round(doc.duration_sec ?? lastEnd),
+    rep_name: importRepName(doc),
+    import_meta: importMeta(doc),
+  };
+}
+
+/**
+ * Link the call to the rep's CRM contact with this email (created if missing),
+ * same rules as POST /v1/crm/link-call.
+ */
+export async function linkImportedCallToContact(
+  supabase: SupabaseClient,
+  args: { userId: string; callId: string; email: string }
+): Promise<string> {
+  const { data: existing, error: exErr } = await supabase
+    .from("crm_contacts")
+    .select("id")
+    .eq("user_id", args.userId)
+    .eq("email", args.email)
+    .maybeSingle();
+  if (exErr) throw new Error(`contact lookup failed: ${exErr.message}`);
+
+  let contactId = (existing as any)?.id as string | undefined;
+  if (!contactId) {
+    const { data: created, error } = await supabase
+      .from("crm_contacts")
+      .insert({ user_id: args.userId, email: args.email })
+      .select("id")
+      .single();
+    if (error || !created) throw new Error(`contact insert failed: ${error?.message ?? "no_data"}`);
+    contactId = String((created as any).id);
+  }
+
+  const { error: linkErr } = await supabase
+    .from("crm_call_links")
+    .upsert({ call_id: args.callId, contact_id: contactId }, { onConflict: "call_id" });
+  if (linkErr) throw new Error(`call link failed: ${linkErr.message}`);
+
+  return contactId;
+}
+
+/**
+ * Transcribe-job path for kind = "json": load the stored file, save it as the
+ * call's transcript and link the CRM contact. Throws invalid_call_import /
+ * invalid_json when the stored file doesn't validate.
+ */
+export async function importCallTranscript(opts: {
+  supabase: SupabaseClient;
+  bucket: string;
+  callId: string;
+  userId: string;
+  storagePath: string;
+}): Promise<{ transcript: Transcript; doc: CallImport; contactId: string | null }> {
+  const { supabase, bucket, callId, storagePath } = opts;
+
+  const { data: blob, error } = await supabase.storage.from(bucket).download(storagePath);
+  if (error || !blob) throw new Error(`import download failed: ${error?.message || "no_data"}`);
+
+  const parsed = parseCallImport(Buffer.from(await blob.arrayBuffer()));
+  if (!parsed.ok) throw new Error(parsed.error);
+
+  const transcript = importToTranscript(parsed.data);
+  await saveTranscript(supabase, callId, transcript);
+
+  let contactId: string | null = null;
+  const email = parsed.data.crm?.contact_email;
+  if (email) {
+    try {
+      contactId = await linkImportedCallToContact(supabase, { userId: opts.userId, callId, email });
+    } catch (e: any) {
+      console.warn("[import] CRM link failed:", e?.message || e);
+    }
+  }
+
+  return { transcript, doc: parsed.data, contactId };
+}
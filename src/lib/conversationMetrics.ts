@@ -0,0 +1,140 @@
+// src/lib/conversationMetrics.ts
+import type { SpeakerRole, TranscriptSegment } from "./transcription";
+import { isQuestion } from "./heuristicScoring";
+
+// ---------------------------------------------
+// Conversation metrics (from diarised segments)
+//
+// Classic call analytics, computed once after transcription and stored in
+// calls.conversation_metrics next to calls.rubric:
+//   - talk time + share per side (rep vs buyer)
+//   - longest monologue (consecutive turns by one side)
+//   - questions asked per side
+//   - words per minute of talk time per side
+//   - interruptions: a turn that starts before the other side finished
+//     (overlap ≥ INTERRUPT_OVERLAP_SEC) or right after an unfinished sentence
+// ---------------------------------------------
+
+export const CONVERSATION_METRICS_VERSION = 1;
+
+const INTERRUPT_OVERLAP_SEC = 0.25;
+const CUTOFF_GAP_SEC = 0.3;
+
+export type SideMetrics = {
+  talk_sec: number;
+  talk_pct: number;     // share of total talk time (0–100)
+  words: number;
+  wpm: number | null;   // words per minute of own talk time
+  questions: number;
+  interruptions: number; // times this side cut the other off
+};
+
+export type ConversationMetrics = {
+  version: number;
+  duration_sec: number;
+  rep: SideMetrics;
+  buyer: SideMetrics;
+  talk_ratio: number | null; // rep talk ÷ buyer talk
+  longest_monologue: { role: SpeakerRole; start_sec: number; duration_sec: number } | null;
+  longest_rep_monologue_sec: number;
+  interruptions: number;
+};
+
+export type SpeakerRun = { role: SpeakerRole; start: number; end: number; turns: number };
+
+/** Merge consecutive segments by the same side into runs (monologues). */
+export function speakerRuns(segments: TranscriptSegment[]): SpeakerRun[] {
+  const runs: SpeakerRun[] = [];
+  for (const s of segments) {
+    const last = runs[runs.length - 1];
+    if (last && last.role === s.role) {
+      last.end = Math.max(last.end, s.end);
+      last.turns += 1;
+    } else {
+      runs.push({ role: s.role, start: s.start, end: s.end, turns: 1 });
+    }
+  }
+  return runs;
+}
+
+function round(n: number, dp = 1) {
+  const f = Math.pow(10, dp);
+  return Math.round(n * f) / f;
+}
+
+function wordCount(text: string) {
+  return String(text || "").split(/\s+/).filter(Boolean).length;
+}
+
+function emptySide(): SideMetrics {
+  return { talk_sec: 0, talk_pct: 0, words: 0, wpm: null, questions: 0, interruptions: 0 };
+}
+
+export function computeConversationMetrics(segments: TranscriptSegment[]): ConversationMetrics {
+  const sides: Record<"rep" | "buyer", SideMetrics> = { rep: emptySide(), buyer: emptySide() };
+  const ordered = segments.slice().sort((a, b) => a.start - b.start);
+
+  let prev: TranscriptSegment | null = null;
+  for (const seg of ordered) {
+    const side = seg.role === "rep" || seg.role === "buyer" ? sides[seg.role] : null;
+    if (side) {
+      side.talk_sec += Math.max(0, seg.end - seg.start);
+      side.words += wordCount(seg.text);
+      if (isQuestion(seg.text)) side.questions += 1;
+
+      if (prev && prev.role !== seg.role && prev.role !== "unknown") {
+        const overlap = prev.end - seg.start;
+        const unfinished = !/[.?!…]["')\]]?\s*$/.test(prev.text.trim());
+        if (overlap >= INTERRUPT_OVERLAP_SEC || (unfinished && seg.start - prev.end < CUTOFF_GAP_SEC)) {
+          side.interruptions += 1;
+        }
+      }
+    }
+    prev = seg;
+  }
+
+  const total = sides.rep.talk_sec + sides.buyer.talk_sec;
+  for (const side of Object.values(sides)) {
+    side.talk_pct = total ? round((side.talk_sec / total) * 100) : 0;
+    side.wpm = side.talk_sec >= 5 ? Math.round(side.words / (side.talk_sec / 60)) : null;
+    side.talk_sec = round(side.talk_sec);
+  }
+
+  const runs = speakerRuns(ordered).filter((r) => r.role !== "unknown");
+  const longest = runs.reduce<SpeakerRun | null>((best, r) => (!best || r.end - r.start > best.end - best.start ? r : best), null);
+  const longestRep = runs.filter((r) => r.role === "rep").reduce((m, r) => Math.max(m, r.end - r.start), 0);
+
+  return {
+    version: CONVERSATION_METRICS_VERSION,
+    duration_sec: ordered.length ? round(ordered[ordered.length - 1].end - ordered[0].start) : 0,
+    rep: sides.rep,
+    buyer: sides.buyer,
+    talk_ratio: sides.buyer.talk_sec ? round(sides.rep.talk_sec / sides.buyer.talk_sec, 2) : null,
+    longest_monologue: longest
+      ? { role: longest.role, start_sec: round(longest.start), duration_sec: round(longest.end - longest.start) }
+      : null,
+    longest_rep_monologue_sec: round(longestRep),
+    interruptions: sides.rep.interruptions + sides.buyer.interruptions,
+  };
+}
+
+/** Mean of the headline numbers across calls (null when no call has metrics). */
+export function averageConversationMetrics(items: (ConversationMetrics | null | undefined)[]) {
+  const ms = items.filter((m): m is ConversationMetrics => !!m && typeof m === "object" && !!m.rep);
+  if (!ms.length) return null;
+  const avg = (pick: (m: ConversationMetrics) => number | null) => {
+    const xs = ms.map(pick).filter((v): v is number => v != null && Number.isFinite(v));
+    return xs.length ? round(xs.reduce((a, b) => a + b, 0) / xs.length) : null;
+  };
+  return {
+    calls: ms.length,
+    rep_talk_pct: avg((m) => m.rep.talk_pct),
+    talk_ratio: avg((m) => m.talk_ratio),
+    longest_rep_monologue_sec: avg((m) => m.longest_rep_monologue_sec),
+    rep_questions: avg((m) => m.rep.questions),
+    rep_wpm: avg((m) => m.rep.wpm),
+    buyer_wpm: avg((m) => m.buyer.wpm),
+    rep_interruptions: avg((m) => m.rep.interruptions),
+    interruptions: avg((m) => m.interruptions),
+  };
+}
@@ -0,0 +1,194 @@
+// src/lib/emotionModel.ts
+import type { DifficultyLevel, EmotionalState, PersonaConfig } from "../personas";
+
+// ---------------------------------------------
+// Sparring buyer emotional model (anger / boredom / trust, 0–100)
+//
+// Each rep turn runs a list of declarative rules: when a rule's trigger
+// matches (phrases in the rep's text, turn labels from the classifier, or
+// no trigger = every turn) its delta is applied, optionally scaled by
+// difficulty. Every persona gets SHARED_EMOTION_RULES plus its own
+// `emotion.rules`; orgs can override a persona's model without a deploy
+// (persona_emotion_models, see services/customPersonas).
+// ---------------------------------------------
+
+export const EMOTION_KEYS = ["anger", "boredom", "trust"] as const;
+export type EmotionKey = (typeof EMOTION_KEYS)[number];
+
+/** Labels the turn classifier can put on a rep message. */
+export const TURN_LABELS = [
+  "price",
+  "acknowledgement",
+  "empathy",
+  "stall",
+  "hard_close",
+  "salesy",
+  "question",
+  "value",
+  "next_step",
+] as const;
+export type TurnLabel = (typeof TURN_LABELS)[number];
+
+export type EmotionRule = {
+  id: string;
+  phrases?: string[];             // any phrase in the rep's text (whole words, case-insensitive)
+  labels?: string[];              // any classifier label on the turn
+  minTurns?: number;              // only once the conversation has this many messages
+  delta: Partial<EmotionalState>; // added to the current state
+  scale?: boolean;                // multiply the delta by the difficulty scale
+};
+
+export type EmotionModel = {
+  rules: EmotionRule[];
+  inheritShared?: boolean; // default true: SHARED_EMOTION_RULES run around the persona's own
+  difficultyScale?: Partial<Record<DifficultyLevel, number>>;
+};
+
+export const DEFAULT_EMOTIONAL_STATE: EmotionalState = { anger: 10, boredom: 10, trust: 30 };
+
+export const DEFAULT_DIFFICULTY_SCALE: Record<DifficultyLevel, number> = {
+  easy: 1,
+  normal: 1,
+  hard: 1.5,
+  nightmare: 2,
+};
+
+/** Phrase lists behind the heuristic turn classifier. */
+export const TURN_LABEL_PHRASES: Record<Exclude<TurnLabel, "question">, string[]> = {
+  price: ["price", "cost", "expensive", "budget", "roi"],
+  acknowledgement: [
+    "thanks", "thank you", "that makes sense", "makes sense", "got it",
+    "sounds good", "sounds great", "okay that sounds", "ok that sounds",
+  ],
+  empathy: ["sorry", "i understand", "i get that", "i hear you", "totally get"],
+  stall: [
+    "think about it", "send me an email", "send me an e-mail", "circle back",
+    "touch base", "maybe later", "not a priority",
+  ],
+  hard_close: ["sign today", "sign right now", "right now", "last chance", "today only", "lock this in"],
+  salesy: ["deal", "sign up", "discount", "offer", "promotion"],
+  value: ["save", "saves", "increase", "reduce", "payback", "revenue", "profit", "conversion"],
+  next_step: ["next step", "book", "schedule", "calendar", "move forward", "go ahead", "trial", "pilot"],
+};
+
+/** Rules every persona runs (unless its model sets inheritShared: false). */
+export const SHARED_EMOTION_RULES: EmotionRule[] = [
+  // Longer drills slowly increase boredom
+  { id: "drift", delta: { boredom: 1 } },
+  { id: "drift_long", minTurns: 9, delta: { boredom: 1 } },
+  // Positive acknowledgement / buying signals → more trust, less anger
+  { id: "acknowledgement", labels: ["acknowledgement"], delta: { trust: 4, anger: -2 } },
+  // Empathy / apology from the rep → less anger
+  { id: "empathy", labels: ["empathy"], delta: { anger: -3 } },
+  // Stall / brush-off phrases → bored, less trust
+  { id: "stall", labels: ["stall"], delta: { boredom: 4, trust: -2 } },
+  // Hard-close pressure → angrier, less trust
+  { id: "hard_close", labels: ["hard_close"], delta: { anger: 4, trust: -3 } },
+  // Asking questions helps engagement
+  { id: "question", labels: ["question"], delta: { trust: 2, boredom: -1 } },
+  // Generic "salesy" language → small trust drop + anger bump
+  { id: "salesy", labels: ["salesy"], delta: { trust: -2, anger: 2 } },
+];
+
+export function clampEmotion(n: number): number {
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const phraseReCache = new Map<string, RegExp>();
+function phrasesRe(phrases: string[]): RegExp {
+  const key = phrases.join("\u0000");
+  let re = phraseReCache.get(key);
+  if (!re) {
+    re = new RegExp(`\\b(?:${phrases.map((p) => escapeRe(p.trim())).join("|")})\\b`, "i");
+    if (phraseReCache.size > 500) phraseReCache.clear();
+    phraseReCache.set(key, re);
+  }
+  return re;
+}
+
+/** Heuristic labels for a rep message (the fallback when no classifier labels are given). */
+export function classifyTurnLabels(text: string): TurnLabel[] {
+  const labels: TurnLabel[] = [];
+  for (const [label, phrases] of Object.entries(TURN_LABEL_PHRASES) as [TurnLabel, string[]][]) {
+    if (phrasesRe(phrases).test(text || "")) labels.push(label);
+  }
+  if ((text || "").includes("?")) labels.push("question");
+  return labels;
+}
+
+/** Starting mood: the persona's own, else the default, plus its difficulty offset. */
+export function initialEmotionalState(persona: PersonaConfig, difficulty: string): EmotionalState {
+  const base = persona.initialEmotion ?? DEFAULT_EMOTIONAL_STATE;
+  const offset = persona.difficulty?.[difficulty as DifficultyLevel]?.emotionOffset ?? {};
+  return {
+    anger: clampEmotion(base.anger + (offset.anger ?? 0)),
+    boredom: clampEmotion(base.boredom + (offset.boredom ?? 0)),
+    trust: clampEmotion(base.trust + (offset.trust ?? 0)),
+  };
+}
+
+function isTriggered(rule: EmotionRule) {
+  return !!(rule.phrases?.length || rule.labels?.length);
+}
+
+function ruleMatches(rule: EmotionRule, ctx: { text: string; labels: Set<string>; turnsSoFar: number }) {
+  if (rule.minTurns != null && ctx.turnsSoFar < rule.minTurns) return false;
+  if (!isTriggered(rule)) return true;
+  if (rule.phrases?.length && phrasesRe(rule.phrases).test(ctx.text)) return true;
+  return !!rule.labels?.some((l) => ctx.labels.has(l));
+}
+
+/**
+ * Rules a persona runs this turn, in order: shared per-turn drift, the
+ * persona's own rules, then shared reactions to what the rep said.
+ */
+export function personaEmotionRules(persona: PersonaConfig): EmotionRule[] {
+  const model = persona.emotion;
+  const own = model?.rules ?? [];
+  if (model?.inheritShared === false) return own;
+  return [
+    ...SHARED_EMOTION_RULES.filter((r) => !isTriggered(r)),
+    ...own,
+    ...SHARED_EMOTION_RULES.filter(isTriggered),
+  ];
+}
+
+/**
+ * Apply one rep turn to the state. `labels` come from the turn classifier;
+ * without them the heuristic phrase labels are used. Returns the new state
+ * and the ids of the rules that fired.
+ */
+export function applyEmotionRules(
+  prev: EmotionalState,
+  opts: {
+    persona: PersonaConfig;
+    difficulty: string;
+    turnsSoFar: number;
+    text: string;
+    labels?: string[] | null;
+  }
+): { state: EmotionalState; fired: string[] } {
+  const text = opts.text || "";
+  const labels = new Set<string>(opts.labels ?? classifyTurnLabels(text));
+  const scale =
+    opts.persona.emotion?.difficultyScale?.[opts.difficulty as DifficultyLevel] ??
+    DEFAULT_DIFFICULTY_SCALE[opts.difficulty as DifficultyLevel] ??
+    1;
+
+  const next: EmotionalState = { ...prev };
+  const fired: string[] = [];
+  for (const rule of personaEmotionRules(opts.persona)) {
+    if (!ruleMatches(rule, { text, labels, turnsSoFar: opts.turnsSoFar })) continue;
+    for (const k of EMOTION_KEYS) {
+      const d = rule.delta[k];
+      if (d) next[k] = clampEmotion(next[k] + (rule.scale ? d * scale : d));
+    }
+    fired.push(rule.id);
+  }
+  return { state: next, fired };
+}
@@ -0,0 +1,219 @@
+// src/lib/heuristicScoring.ts
+import type { RubricSection } from "./scoring";
+import type { ScoringRubric, RubricSectionDef } from "../services/rubrics";
+import { formatTimestamp, type TranscriptSegment } from "./transcription";
+
+// ---------------------------------------------
+// Deterministic fallback scorer (used when the LLM is unavailable)
+//
+// Same transcript + rubric → same scores, every time. Signals are plain phrase
+// checks in the spirit of scoreRepTurnHeuristic (sparring), applied per call
+// phase, and every note says which moments it looked at so a manager can see
+// why the number is what it is. Scores carry HEURISTIC_MODEL and are flagged as
+// fallback (calls.score_is_fallback / call_scores.is_fallback).
+// ---------------------------------------------
+
+export const HEURISTIC_MODEL = "heuristic:v2";
+
+function clamp100(n: number) {
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+export function containsAny(text: string, needles: string[]) {
+  const t = String(text || "").toLowerCase();
+  return needles.some((n) => t.includes(n));
+}
+
+const QUESTION_STARTS = ["what", "how", "why", "when", "where", "who", "which", "tell me", "walk me through"];
+export const VALUE_WORDS = ["save", "increase", "reduce", "roi", "payback", "revenue", "profit", "conversion", "%", "percent"];
+export const EMPATHY_WORDS = ["totally fair", "makes sense", "i hear you", "understand", "fair point", "good question"];
+export const CLOSE_WORDS = ["next step", "book", "schedule", "calendar", "move forward", "go ahead", "trial", "pilot", "send you", "invite"];
+export type ObjectionCategory = "price" | "timing" | "authority" | "competitor" | "need";
+
+export const OBJECTION_PHRASES: Record<ObjectionCategory, string[]> = {
+  price: ["expensive", "too high", "price", "cost", "budget"],
+  timing: ["not now", "next quarter", "later", "think about it", "busy"], // incl. stalls
+  authority: ["need to check", "sign off", "my boss", "not my decision"],
+  competitor: ["already use", "already have", "competitor", "happy with"], // incl. status quo
+  need: ["don't need", "not a priority", "not interested"],
+};
+const OBJECTION_WORDS = Object.values(OBJECTION_PHRASES).flat();
+export const AGREEMENT_WORDS = ["works", "sounds good", "send me", "sure", "yes", "let's do", "okay", "deal"];
+export const DATE_RE = /\b(monday|tuesday|wednesday|thursday|friday|tomorrow|next week|\d{1,2}(:\d{2})?\s?(am|pm)|at \d{1,2})\b/i;
+
+const STOPWORDS = new Set([
+  "about", "after", "their", "there", "these", "those", "which", "where", "while", "would", "could",
+  "should", "other", "being", "every", "through", "with", "from", "into", "that", "this", "they",
+  "them", "what", "when", "clear", "call", "calls", "buyer", "buyers", "sales", "really",
+]);
+
+export function isQuestion(text: string) {
+  const t = text.trim().toLowerCase();
+  return t.includes("?") || QUESTION_STARTS.some((q) => t.startsWith(q));
+}
+
+function cite(segs: TranscriptSegment[]) {
+  return Array.from(new Set(segs.map((s) => `[${formatTimestamp(s.start)}]`))).slice(0, 3).join(" ");
+}
+
+function evidenceOf(segs: TranscriptSegment[]) {
+  return Array.from(new Set(segs.map((s) => Math.floor(s.start)))).sort((a, b) => a - b).slice(0, 5);
+}
+
+type Ctx = {
+  segments: TranscriptSegment[];
+  rep: TranscriptSegment[];
+  buyer: TranscriptSegment[];
+  endSec: number;
+};
+
+function scoreIntro(ctx: Ctx): RubricSection {
+  const opening = ctx.rep.filter((s) => s.start <= Math.max(60, ctx.endSec * 0.15)).slice(0, 3);
+  const text = opening.map((s) => s.text).join(" ");
+  if (!opening.length) return { score: 30, notes: "Rep did not speak in the opening of the call.", evidence: [] };
+
+  const intro = containsAny(text, ["it's ", "this is ", "my name is", " from "]);
+  const reason = containsAny(text, ["reason for my call", "reason i'm calling", "calling because", "the reason", "reaching out"]);
+  const agenda = containsAny(text, ["minutes", "agenda", "quick", "bad time", "plan for", "okay if"]);
+
+  const hits = [intro && "introduced self", reason && "stated a reason", agenda && "set time/agenda"].filter(Boolean);
+  const score = 40 + (intro ? 15 : 0) + (reason ? 25 : 0) + (agenda ? 20 : 0);
+  const missing = [!reason && "clear reason for the call", !agenda && "time/agenda check"].filter(Boolean);
+
+  return {
+    score: clamp100(score),
+    notes: `Opening ${cite(opening)}: ${hits.length ? hits.join(", ") : "no clear intro signals"}.` +
+      (missing.length ? ` Missing: ${missing.join(", ")}.` : ""),
+    evidence: evidenceOf(opening),
+  };
+}
+
+function scoreDiscovery(ctx: Ctx): RubricSection {
+  const questions = ctx.rep.filter((s) => isQuestion(s.text));
+  const repText = questions.map((s) => s.text).join(" ");
+  const topics = [
+    containsAny(repText, ["impact", "cost you", "pain", "problem", "challenge", "affect"]) && "impact",
+    containsAny(repText, ["budget", "spend", "invest"]) && "budget",
+    containsAny(repText, ["timeline", "when", "by when", "deadline", "quarter"]) && "timeline",
+    containsAny(repText, ["who else", "decision", "sign off", "involved"]) && "authority",
+  ].filter(Boolean) as string[];
+
+  const repWords = ctx.rep.reduce((n, s) => n + s.text.split(/\s+/).length, 0);
+  const allWords = ctx.segments.reduce((n, s) => n + s.text.split(/\s+/).length, 0) || 1;
+  const repShare = repWords / allWords;
+
+  let score = 30 + Math.min(30, questions.length * 6) + topics.length * 10;
+  if (repShare > 0.7) score -= 10;
+
+  return {
+    score: clamp100(score),
+    notes: `${questions.length} rep question${questions.length === 1 ? "" : "s"}${questions.length ? ` ${cite(questions)}` : ""}; ` +
+      `covered ${topics.length ? topics.join(", ") : "no qualification topics"}; rep talk share ${Math.round(repShare * 100)}%.`,
+    evidence: evidenceOf(questions),
+  };
+}
+
+function scoreObjection(ctx: Ctx): RubricSection {
+  const objections = ctx.buyer.filter((s) => containsAny(s.text, OBJECTION_WORDS));
+  if (!objections.length) {
+    return { score: 60, notes: "No buyer objections detected; nothing to handle.", evidence: [] };
+  }
+
+  let handled = 0;
+  let empathetic = 0;
+  const responses: TranscriptSegment[] = [];
+  for (const obj of objections) {
+    const reply = ctx.rep.find((s) => s.start >= obj.start);
+    if (!reply) continue;
+    responses.push(reply);
+    if (containsAny(reply.text, EMPATHY_WORDS)) empathetic += 1;
+    if (containsAny(reply.text, VALUE_WORDS) || isQuestion(reply.text)) handled += 1;
+  }
+
+  const score = 35 + (handled / objections.length) * 45 + (empathetic ? 15 : 0);
+  return {
+    score: clamp100(score),
+    notes: `${objections.length} objection${objections.length === 1 ? "" : "s"} ${cite(objections)}; ` +
+      `${handled} answered with value or a question${empathetic ? ", acknowledged empathetically" : ""}.`,
+    evidence: evidenceOf([...objections, ...responses]),
+  };
+}
+
+function scoreClose(ctx: Ctx): RubricSection {
+  const tail = ctx.segments.filter((s) => s.start >= ctx.endSec * 0.7);
+  const repTail = tail.filter((s) => s.role === "rep");
+  const buyerTail = tail.filter((s) => s.role === "buyer");
+
+  const asks = repTail.filter((s) => containsAny(s.text, CLOSE_WORDS));
+  const dated = repTail.concat(buyerTail).filter((s) => DATE_RE.test(s.text));
+  const agreed = buyerTail.filter((s) => containsAny(s.text, AGREEMENT_WORDS));
+
+  const score = 30 + (asks.length ? 25 : 0) + (dated.length ? 20 : 0) + (agreed.length ? 20 : 0);
+  const got = [asks.length && "asked for a next step", dated.length && "specific time/date", agreed.length && "buyer agreed"].filter(Boolean);
+
+  return {
+    score: clamp100(score),
+    notes: got.length
+      ? `Close ${cite([...asks, ...dated, ...agreed])}: ${got.join(", ")}.`
+      : "No next-step ask detected in the final part of the call.",
+    evidence: evidenceOf([...asks, ...dated, ...agreed]),
+  };
+}
+
+/** Org-defined sections: coverage of the guidance's key terms in what the rep said. */
+function scoreByGuidance(ctx: Ctx, def: RubricSectionDef): RubricSection {
+  const terms = Array.from(new Set(
+    `${def.label} ${def.guidance}`.toLowerCase().split(/[^a-z]+/).filter((w) => w.length >= 5 && !STOPWORDS.has(w))
+  )).slice(0, 12);
+  if (!terms.length) return { score: 50, notes: "No guidance terms to match against.", evidence: [] };
+
+  const matched = terms.filter((t) => ctx.rep.some((s) => s.text.toLowerCase().includes(t)));
+  const moments = ctx.rep.filter((s) => matched.some((t) => s.text.toLowerCase().includes(t)));
+
+  return {
+    score: clamp100(35 + (matched.length / terms.length) * 55),
+    notes: `Rep touched ${matched.length}/${terms.length} guidance terms` +
+      (matched.length ? ` (${matched.slice(0, 5).join(", ")}) ${cite(moments)}.` : "."),
+    evidence: evidenceOf(moments),
+  };
+}
+
+const BUILTIN: Record<string, (ctx: Ctx) => RubricSection> = {
+  intro: scoreIntro,
+  discovery: scoreDiscovery,
+  objection: scoreObjection,
+  close: scoreClose,
+};
+
+/**
+ * Score a transcript against a rubric without an LLM.
+ * Built-in section keys use phase-specific signals; any other key falls back to
+ * guidance-term coverage. No transcript → neutral 50s with an explicit note.
+ */
+export function heuristicScoreSections(
+  rubric: ScoringRubric,
+  segments: TranscriptSegment[]
+): Record<string, RubricSection> {
+  const out: Record<string, RubricSection> = {};
+
+  if (!segments.length) {
+    for (const def of rubric.sections) {
+      out[def.key] = { score: 50, notes: "No transcript available; neutral placeholder score.", evidence: [] };
+    }
+    return out;
+  }
+
+  const ctx: Ctx = {
+    segments,
+    rep: segments.filter((s) => s.role === "rep"),
+    buyer: segments.filter((s) => s.role === "buyer"),
+    endSec: segments[segments.length - 1].end,
+  };
+
+  for (const def of rubric.sections) {
+    const section = (BUILTIN[def.key] ?? ((c: Ctx) => scoreByGuidance(c, def)))(ctx);
+    out[def.key] = { ...section, notes: `Heuristic: ${section.notes}`.slice(0, 400) };
+  }
+  return out;
+}
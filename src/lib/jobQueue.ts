@@ -0,0 +1,523 @@
+// src/lib/jobQueue.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import crypto from "crypto";
+import os from "os";
+import { backoffDelay } from "./retry";
+
+// ---------------------------------------------
+// Durable in-process job runner (backed by public.jobs)
+//
+// Lifecycle:
+//   queued → running → done
+//                    → failed (attempt failed, retry scheduled at run_at)
+//                    → dead   (max_attempts exhausted — dead-letter, needs a human)
+//   queued | failed | running → cancelled (admin)
+//
+// Claiming is a compare-and-set on (status, attempts) plus a lease
+// (locked_by/locked_until). A worker that dies mid-job simply lets its lease
+// expire and the next poll picks the job up again, so a restart never loses work.
+//
+// Env (all optional):
+//   JOB_CONCURRENCY       (default 2)
+//   JOB_POLL_MS           (default 2000)
+//   JOB_LEASE_MS          (default 120000)
+//   JOB_MAX_ATTEMPTS      (default 5)
+//   JOB_BACKOFF_BASE_MS   (default 5000)
+//   JOB_BACKOFF_MAX_MS    (default 600000)
+// ---------------------------------------------
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "dead" | "cancelled";
+
+export type JobRow = {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  call_id: string | null;
+  user_id: string | null;
+  batch_id: string | null;
+  payload: Record<string, any> | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string | null;
+  locked_by: string | null;
+  locked_until: string | null;
+  error: string | null;
+  result: any;
+  created_at?: string;
+  updated_at?: string;
+  finished_at?: string | null;
+};
+
+export type JobContext = { supabase: SupabaseClient };
+
+export type JobHandler = {
+  /** Return value is stored in jobs.result. Throw to fail the attempt. */
+  run(job: JobRow, ctx: JobContext): Promise<Record<string, unknown> | void>;
+  /** Called once when the job is dead-lettered (e.g. to mark the call failed). */
+  onDead?(job: JobRow, err: Error, ctx: JobContext): Promise<void>;
+  /** Max jobs of this kind running at once in this process (bulk work like re-scores). */
+  concurrency?: number;
+};
+
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY || 2));
+const JOB_POLL_MS = Math.max(250, Number(process.env.JOB_POLL_MS || 2000));
+const JOB_LEASE_MS = Math.max(5000, Number(process.env.JOB_LEASE_MS || 120_000));
+const JOB_MAX_ATTEMPTS = Math.max(1, Number(process.env.JOB_MAX_ATTEMPTS || 5));
+const JOB_BACKOFF_BASE_MS = Number(process.env.JOB_BACKOFF_BASE_MS || 5000);
+const JOB_BACKOFF_MAX_MS = Number(process.env.JOB_BACKOFF_MAX_MS || 600_000);
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+
+const handlers = new Map<string, JobHandler>();
+
+let runner: {
+  supabase: SupabaseClient;
+  timer: NodeJS.Timeout;
+  active: number;
+  activeByKind: Map<string, number>;
+  ticking: boolean;
+} | null = null;
+
+export function registerJobHandler(kind: string, handler: JobHandler) {
+  handlers.set(kind, handler);
+}
+
+/**
+ * Queue a job. With `dedupe`, a job of the same kind for the same call that
+ * hasn't finished yet (queued | running | failed) is reused and its id
+ * returned — so a step that retries after enqueueing its follow-ups doesn't
+ * queue them twice.
+ */
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  opts: {
+    kind: string;
+    callId?: string | null;
+    userId?: string | null;
+    batchId?: string | null;
+    payload?: Record<string, unknown> | null;
+    maxAttempts?: number;
+    runAt?: Date;
+    dedupe?: boolean;
+  }
+): Promise<string> {
+  if (opts.dedupe && opts.callId) {
+    const { data: pending, error: pendErr } = await supabase
+      .from("jobs")
+      .select("id")
+      .eq("kind", opts.kind)
+      .eq("call_id", opts.callId)
+      .in("status", ["queued", "running", "failed"])
+      .limit(1);
+    if (pendErr) throw new Error(`enqueue ${opts.kind} failed: ${pendErr.message}`);
+    if (pending?.length) return String(pending[0].id);
+  }
+
+  const id = crypto.randomUUID();
+  const { error } = await supabase.from("jobs").insert({
+    id,
+    kind: opts.kind,
+    status: "queued",
+    call_id: opts.callId ?? null,
+    user_id: opts.userId ?? null,
+    batch_id: opts.batchId ?? null,
+    payload: opts.payload ?? null,
+    attempts: 0,
+    max_attempts: opts.maxAttempts ?? JOB_MAX_ATTEMPTS,
+    run_at: (opts.runAt || new Date()).toISOString(),
+  });
+  if (error) throw new Error(`enqueue ${opts.kind} failed: ${error.message}`);
+
+  pokeJobRunner();
+  return id;
+}
+
+/** Bulk enqueue (chunks of 500 rows) — for batch operations that fan out one job per call. */
+export async function enqueueJobs(
+  supabase: SupabaseClient,
+  jobs: Array<Parameters<typeof enqueueJob>[1]>
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (let i = 0; i < jobs.length; i += 500) {
+    const rows = jobs.slice(i, i + 500).map((opts) => ({
+      id: crypto.randomUUID(),
+      kind: opts.kind,
+      status: "queued",
+      call_id: opts.callId ?? null,
+      user_id: opts.userId ?? null,
+      batch_id: opts.batchId ?? null,
+      payload: opts.payload ?? null,
+      attempts: 0,
+      max_attempts: opts.maxAttempts ?? JOB_MAX_ATTEMPTS,
+      run_at: (opts.runAt || new Date()).toISOString(),
+    }));
+    const { error } = await supabase.from("jobs").insert(rows);
+    if (error) throw new Error(`bulk enqueue failed: ${error.message}`);
+    ids.push(...rows.map((r) => r.id));
+  }
+
+  pokeJobRunner();
+  return ids;
+}
+
+/** Free slots for a kind under its own concurrency cap (Infinity when uncapped). */
+function kindCapacity(kind: string, activeByKind: Map<string, number>) {
+  const cap = handlers.get(kind)?.concurrency;
+  return cap ? cap - (activeByKind.get(kind) || 0) : Infinity;
+}
+
+/** Claim up to `limit` ready jobs for this worker. */
+async function claimJobs(
+  supabase: SupabaseClient,
+  limit: number,
+  activeByKind: Map<string, number> = new Map()
+): Promise<JobRow[]> {
+  const kinds = Array.from(handlers.keys()).filter((k) => kindCapacity(k, activeByKind) > 0);
+  if (!kinds.length || limit <= 0) return [];
+  const claimedByKind = new Map(activeByKind);
+
+  const now = new Date();
+  const nowIso = now.toISOString();
+
+  // Ready = queued/failed whose run_at has passed, or running with an expired/missing lease.
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("*")
+    .in("kind", kinds)
+    .or(
+      `and(status.in.(queued,failed),run_at.lte."${nowIso}"),` +
+      `and(status.eq.running,locked_until.lt."${nowIso}"),` +
+      `and(status.eq.running,locked_until.is.null)`
+    )
+    .order("run_at", { ascending: true })
+    .limit(limit * 3);
+  if (error) throw new Error(`claim select failed: ${error.message}`);
+
+  const claimed: JobRow[] = [];
+  for (const cand of (data || []) as JobRow[]) {
+    if (claimed.length >= limit) break;
+    if (kindCapacity(cand.kind, claimedByKind) <= 0) continue;
+
+    const attempts = Number(cand.attempts || 0);
+    const { data: row, error: upErr } = await supabase
+      .from("jobs")
+      .update({
+        status: "running",
+        attempts: attempts + 1,
+        locked_by: WORKER_ID,
+        locked_until: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+        updated_at: nowIso,
+      })
+      .eq("id", cand.id)
+      .eq("status", cand.status)
+      .eq("attempts", attempts)
+      .select("*")
+      .maybeSingle();
+
+    // Lost the race to another worker (or the row changed) — skip quietly.
+    if (upErr || !row) continue;
+    claimedByKind.set(cand.kind, (claimedByKind.get(cand.kind) || 0) + 1);
+    claimed.push({ ...(row as JobRow), max_attempts: Number((row as any).max_attempts || JOB_MAX_ATTEMPTS) });
+  }
+  return claimed;
+}
+
+/** Write a terminal/retry state, but only if we still hold the lease (admin cancel wins). */
+async function releaseJob(supabase: SupabaseClient, jobId: string, patch: Record<string, unknown>) {
+  const { error } = await supabase
+    .from("jobs")
+    .update({ ...patch, locked_by: null, locked_until: null, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("locked_by", WORKER_ID);
+  if (error) console.error("[jobs] release failed:", { jobId, error: error.message });
+}
+
+async function executeJob(supabase: SupabaseClient, job: JobRow) {
+  const handler = handlers.get(job.kind);
+  const ctx: JobContext = { supabase };
+
+  // Keep the lease alive for long-running work (e.g. hour-long transcriptions).
+  const heartbeat = setInterval(() => {
+    supabase
+      .from("jobs")
+      .update({ locked_until: new Date(Date.now() + JOB_LEASE_MS).toISOString() })
+      .eq("id", job.id)
+      .eq("locked_by", WORKER_ID)
+      .then(({ error }) => {
+        if (error) console.warn("[jobs] heartbeat failed:", { jobId: job.id, error: error.message });
+      });
+  }, Math.floor(JOB_LEASE_MS / 2));
+
+  console.log("[jobs] start", { jobId: job.id, kind: job.kind, attempt: job.attempts });
+
+  try {
+    if (!handler) throw new Error(`no_handler:${job.kind}`);
+    const result = await handler.run(job, ctx);
+
+    await releaseJob(supabase, job.id, {
+      status: "done",
+      result: result ?? null,
+      error: null,
+      finished_at: new Date().toISOString(),
+    });
+    console.log("[jobs] done", { jobId: job.id, kind: job.kind });
+  } catch (e: any) {
+    const err = e instanceof Error ? e : new Error(String(e));
+
+    if (job.attempts >= job.max_attempts) {
+      console.error("[jobs] dead-lettered", { jobId: job.id, kind: job.kind, error: err.message });
+      await releaseJob(supabase, job.id, {
+        status: "dead",
+        error: err.message,
+        finished_at: new Date().toISOString(),
+      });
+      try {
+        await handler?.onDead?.(job, err, ctx);
+      } catch (hookErr: any) {
+        console.warn("[jobs] onDead hook failed:", hookErr?.message || hookErr);
+      }
+      return;
+    }
+
+    const delay = backoffDelay(job.attempts, { baseMs: JOB_BACKOFF_BASE_MS, maxMs: JOB_BACKOFF_MAX_MS });
+    console.warn("[jobs] attempt failed, retrying", {
+      jobId: job.id,
+      kind: job.kind,
+      attempt: job.attempts,
+      retryInMs: delay,
+      error: err.message,
+    });
+    await releaseJob(supabase, job.id, {
+      status: "failed",
+      error: err.message,
+      run_at: new Date(Date.now() + delay).toISOString(),
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function tick() {
+  if (!runner || runner.ticking) return;
+  runner.ticking = true;
+  try {
+    const free = JOB_CONCURRENCY - runner.active;
+    const jobs = await claimJobs(runner.supabase, free, runner.activeByKind);
+    for (const job of jobs) {
+      const r = runner;
+      r.active += 1;
+      r.activeByKind.set(job.kind, (r.activeByKind.get(job.kind) || 0) + 1);
+      executeJob(r.supabase, job)
+        .catch((e) => console.error("[jobs] execute crashed:", e?.message || e))
+        .finally(() => {
+          r.active -= 1;
+          r.activeByKind.set(job.kind, Math.max(0, (r.activeByKind.get(job.kind) || 0) - 1));
+          pokeJobRunner();
+        });
+    }
+  } catch (e: any) {
+    console.warn("[jobs] poll failed:", e?.message || e);
+  } finally {
+    if (runner) runner.ticking = false;
+  }
+}
+
+/** Start polling (idempotent). Picks up anything left queued/leased by a previous process. */
+export function startJobRunner(supabase: SupabaseClient) {
+  if (runner) return;
+  const timer = setInterval(() => void tick(), JOB_POLL_MS);
+  timer.unref?.();
+  runner = { supabase, timer, active: 0, activeByKind: new Map(), ticking: false };
+  console.log("[jobs] runner started", { worker: WORKER_ID, kinds: Array.from(handlers.keys()), concurrency: JOB_CONCURRENCY });
+  void tick();
+}
+
+export function stopJobRunner() {
+  if (!runner) return;
+  clearInterval(runner.timer);
+  runner = null;
+}
+
+/** Nudge the runner so freshly enqueued work starts without waiting for the next poll. */
+export function pokeJobRunner() {
+  if (runner) setImmediate(() => void tick());
+}
+
+// ---------------------------------------------
+// Admin helpers (list / retry / cancel)
+// ---------------------------------------------
+const RETRYABLE: JobStatus[] = ["failed", "dead", "cancelled"];
+const CANCELLABLE: JobStatus[] = ["queued", "failed", "running"];
+
+// Jobs have no org column: a job belongs to an org through its user (the
+// uploader / requester) or its call. System jobs with neither (retention
+// purge) belong to no org.
+
+async function orgUserIds(supabase: SupabaseClient, orgId: string) {
+  const { data, error } = await supabase.from("reps").select("id").eq("org_id", orgId);
+  if (error) throw new Error(error.message);
+  return (data || []).map((r: any) => String(r.id));
+}
+
+async function callInOrg(supabase: SupabaseClient, callId: string, orgId: string) {
+  const { data, error } = await supabase.from("calls").select("org_id").eq("id", callId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return !!data && String((data as any).org_id) === orgId;
+}
+
+async function jobInOrg(supabase: SupabaseClient, job: JobRow, orgId: string) {
+  if (job.user_id) {
+    const { data, error } = await supabase.from("reps").select("org_id").eq("id", job.user_id).maybeSingle();
+    if (error) throw new Error(error.message);
+    if (data && String((data as any).org_id) === orgId) return true;
+  }
+  return job.call_id ? callInOrg(supabase, job.call_id, orgId) : false;
+}
+
+/**
+ * An org's jobs, newest first: those of its users — or, filtered to one of
+ * its calls, every job of that call.
+ */
+export async function listJobs(
+  supabase: SupabaseClient,
+  opts: {
+    orgId: string;
+    status?: string | null;
+    kind?: string | null;
+    callId?: string | null;
+    batchId?: string | null;
+    limit?: number;
+  }
+): Promise<JobRow[]> {
+  let q = supabase
+    .from("jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(Math.min(Math.max(Number(opts.limit || 50), 1), 200));
+  if (opts.callId && (await callInOrg(supabase, opts.callId, opts.orgId))) {
+    q = q.eq("call_id", opts.callId);
+  } else {
+    const users = await orgUserIds(supabase, opts.orgId);
+    if (!users.length) return [];
+    q = q.in("user_id", users);
+  }
+  if (opts.status) q = q.eq("status", opts.status);
+  if (opts.kind) q = q.eq("kind", opts.kind);
+  if (opts.callId) q = q.eq("call_id", opts.callId);
+  if (opts.batchId) q = q.eq("batch_id", opts.batchId);
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  return (data || []) as JobRow[];
+}
+
+/** Jobs of another org are reported as job_not_found. */
+export async function retryJob(supabase: SupabaseClient, orgId: string, jobId: string): Promise<JobRow> {
+  const { data: job, error } = await supabase.from("jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!job || !(await jobInOrg(supabase, job as JobRow, orgId))) throw new Error("job_not_found");
+  if (!RETRYABLE.includes((job as JobRow).status)) throw new Error("job_not_retryable");
+
+  const { data: updated, error: upErr } = await supabase
+    .from("jobs")
+    .update({
+      status: "queued",
+      attempts: 0,
+      error: null,
+      run_at: new Date().toISOString(),
+      locked_by: null,
+      locked_until: null,
+      finished_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("status", (job as JobRow).status)
+    .select("*")
+    .maybeSingle();
+  if (upErr) throw new Error(upErr.message);
+  if (!updated) throw new Error("job_state_changed");
+
+  pokeJobRunner();
+  return updated as JobRow;
+}
+
+/** Jobs of another org are reported as job_not_found. */
+export async function cancelJob(supabase: SupabaseClient, orgId: string, jobId: string): Promise<JobRow> {
+  const { data: job, error } = await supabase.from("jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!job || !(await jobInOrg(supabase, job as JobRow, orgId))) throw new Error("job_not_found");
+  if (!CANCELLABLE.includes((job as JobRow).status)) throw new Error("job_not_cancellable");
+
+  const { data: updated, error: upErr } = await supabase
+    .from("jobs")
+    .update({
+      status: "cancelled",
+      locked_by: null,
+      locked_until: null,
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("status", (job as JobRow).status)
+    .select("*")
+    .maybeSingle();
+  if (upErr) throw new Error(upErr.message);
+  if (!updated) throw new Error("job_state_changed");
+
+  return updated as JobRow;
+}
+
+/** Cancel every job of a batch that hasn't started yet (running jobs finish normally). */
+export async function cancelBatchJobs(supabase: SupabaseClient, batchId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from("jobs")
+    .update({
+      status: "cancelled",
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("batch_id", batchId)
+    .in("status", ["queued", "failed"])
+    .select("id");
+  if (error) throw new Error(error.message);
+  return (data || []).length;
+}
+
+/** Cancel the not-yet-started jobs of some calls (e.g. merged duplicates). */
+export async function cancelCallJobs(supabase: SupabaseClient, callIds: string[]): Promise<number> {
+  if (!callIds.length) return 0;
+  const { data, error } = await supabase
+    .from("jobs")
+    .update({
+      status: "cancelled",
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .in("call_id", callIds)
+    .in("status", ["queued", "failed"])
+    .select("id");
+  if (error) throw new Error(error.message);
+  return (data || []).length;
+}
+
+/** Job counts per status for a batch. */
+export async function batchJobCounts(
+  supabase: SupabaseClient,
+  batchId: string
+): Promise<Record<JobStatus, number>> {
+  const statuses: JobStatus[] = ["queued", "running", "done", "failed", "dead", "cancelled"];
+  const counts = {} as Record<JobStatus, number>;
+
+  await Promise.all(
+    statuses.map(async (status) => {
+      const { count, error } = await supabase
+        .from("jobs")
+        .select("id", { count: "exact", head: true })
+        .eq("batch_id", batchId)
+        .eq("status", status);
+      if (error) throw new Error(error.message);
+      counts[status] = count ?? 0;
+    })
+  );
+  return counts;
+}
@@ -0,0 +1,273 @@
+// src/lib/objections.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getOpenAI, AI_MODEL, OPENAI_TIMEOUT_MS } from "./openai";
+import { buildTranscriptForPrompt } from "./scoring";
+import { formatTimestamp, loadTranscriptSegments, type TranscriptSegment } from "./transcription";
+import { callRedactsPii } from "./redaction";
+import {
+  EMPATHY_WORDS,
+  OBJECTION_PHRASES,
+  VALUE_WORDS,
+  containsAny,
+  isQuestion,
+  type ObjectionCategory,
+} from "./heuristicScoring";
+
+// ---------------------------------------------
+// Objection extraction (runs after transcription as its own job)
+//
+// Finds buyer objections in a call, buckets them into price / timing /
+// authority / competitor / need, and grades how the rep responded. The LLM
+// does the work when available; otherwise (or on any LLM failure) the same
+// phrase lists the heuristic scorer uses stand in. Rows are replaced per call
+// in call_objections, so re-running is idempotent.
+// ---------------------------------------------
+
+export type { ObjectionCategory };
+
+export const OBJECTION_CATEGORIES: ObjectionCategory[] = ["price", "timing", "authority", "competitor", "need"];
+
+export const OBJECTION_LABELS: Record<ObjectionCategory, string> = {
+  price: "Price / budget",
+  timing: "Timing / not now",
+  authority: "Authority / sign-off",
+  competitor: "Competitor / status quo",
+  need: "No need / priority",
+};
+
+export type HandlingQuality = "strong" | "ok" | "weak" | "none";
+
+export type ExtractedObjection = {
+  category: ObjectionCategory;
+  start: number;                 // seconds (buyer segment)
+  end: number;
+  quote: string;                 // what the buyer said
+  responseStart: number | null;  // seconds (rep reply), null = no reply
+  responseText: string | null;
+  handlingScore: number;         // 0–100
+  handlingQuality: HandlingQuality;
+  notes: string;
+};
+
+export type ObjectionExtraction = {
+  model: string;
+  source: "llm" | "heuristic";
+  objections: ExtractedObjection[];
+};
+
+const MAX_OBJECTIONS = 20;
+
+function clamp100(n: number) {
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+export function handlingQualityFor(score: number, replied: boolean): HandlingQuality {
+  if (!replied) return "none";
+  if (score >= 75) return "strong";
+  if (score >= 50) return "ok";
+  return "weak";
+}
+
+function categorise(text: string): ObjectionCategory | null {
+  for (const cat of OBJECTION_CATEGORIES) {
+    if (containsAny(text, OBJECTION_PHRASES[cat])) return cat;
+  }
+  return null;
+}
+
+/** First rep segment at or after the objection (the rep's reply). */
+function replyTo(segments: TranscriptSegment[], obj: TranscriptSegment) {
+  return segments.find((s) => s.role === "rep" && s.start >= obj.start) ?? null;
+}
+
+/**
+ * Deterministic fallback: phrase match on buyer segments, one objection per
+ * segment (first matching category). Reply graded on acknowledgement + value/question.
+ */
+export function heuristicExtractObjections(segments: TranscriptSegment[]): ExtractedObjection[] {
+  const out: ExtractedObjection[] = [];
+  for (const seg of segments) {
+    if (seg.role !== "buyer") continue;
+    const category = categorise(seg.text);
+    if (!category) continue;
+
+    const reply = replyTo(segments, seg);
+    const empathy = !!reply && containsAny(reply.text, EMPATHY_WORDS);
+    const substance = !!reply && (containsAny(reply.text, VALUE_WORDS) || isQuestion(reply.text));
+    const score = !reply ? 10 : 35 + (substance ? 30 : 0) + (empathy ? 20 : 0);
+    const got = [empathy && "acknowledged", substance && "answered with value or a question"].filter(Boolean);
+
+    out.push({
+      category,
+      start: seg.start,
+      end: seg.end,
+      quote: seg.text.slice(0, 300),
+      responseStart: reply ? reply.start : null,
+      responseText: reply ? reply.text.slice(0, 300) : null,
+      handlingScore: clamp100(score),
+      handlingQuality: handlingQualityFor(score, !!reply),
+      notes: !reply
+        ? "Heuristic: no rep reply after the objection."
+        : `Heuristic: reply at [${formatTimestamp(reply.start)}] ${got.length ? got.join(", ") : "did not address it"}.`,
+    });
+    if (out.length >= MAX_OBJECTIONS) break;
+  }
+  return out;
+}
+
+function buildJsonSchema() {
+  return {
+    name: "CallObjections",
+    schema: {
+      type: "object",
+      properties: {
+        objections: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              category: { type: "string", enum: OBJECTION_CATEGORIES },
+              at: { type: "integer", minimum: 0 },
+              quote: { type: "string", maxLength: 300 },
+              response_at: { type: ["integer", "null"], minimum: 0 },
+              handling_score: { type: "integer", minimum: 0, maximum: 100 },
+              notes: { type: "string", maxLength: 300 },
+            },
+            required: ["category", "at", "quote", "response_at", "handling_score", "notes"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["objections"],
+      additionalProperties: false,
+    },
+    strict: true,
+  };
+}
+
+/** Segment containing (or nearest after) a second offset. */
+function segmentAt(segments: TranscriptSegment[], sec: number, role?: "rep" | "buyer") {
+  const pool = role ? segments.filter((s) => s.role === role) : segments;
+  return pool.find((s) => sec >= s.start && sec <= s.end + 1) ?? pool.find((s) => s.start >= sec) ?? null;
+}
+
+/** `promptSegments` (same timings, PII-redacted text) is what the model sees; quotes come from `segments`. */
+async function llmExtractObjections(
+  segments: TranscriptSegment[],
+  model: string,
+  promptSegments: TranscriptSegment[] = segments
+): Promise<ExtractedObjection[]> {
+  const transcript = buildTranscriptForPrompt(promptSegments);
+  const system =
+    "You analyse sales call transcripts. List every objection the BUYER raises, classified as one of: " +
+    `${OBJECTION_CATEGORIES.join(", ")}. For each, give the [m:ss] time as whole seconds (at), a short verbatim quote, ` +
+    "the time of the rep's reply (response_at, null if the rep never addressed it) and a 0–100 handling score " +
+    "(acknowledge, clarify, answer with value, confirm). Ignore questions that are not objections. " +
+    "Output must match the provided JSON schema exactly.";
+
+  const openai = getOpenAI();
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), OPENAI_TIMEOUT_MS);
+  try {
+    const resp = await openai.chat.completions.create(
+      {
+        model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: `TRANSCRIPT${transcript.truncated ? " (long call — some middle sections omitted)" : ""}:\n${transcript.text}` },
+        ],
+        response_format: { type: "json_schema", json_schema: buildJsonSchema() as any },
+        temperature: 0.1,
+      },
+      { signal: ctrl.signal }
+    );
+
+    const raw = resp.choices?.[0]?.message?.content;
+    if (!raw) throw new Error("no_model_content");
+    const json = JSON.parse(raw) as { objections?: any[] };
+
+    const out: ExtractedObjection[] = [];
+    for (const o of (json.objections || []).slice(0, MAX_OBJECTIONS)) {
+      if (!OBJECTION_CATEGORIES.includes(o?.category)) continue;
+      // Snap model timestamps onto real segments so deep links land on speech
+      const seg = segmentAt(segments, Number(o.at), "buyer");
+      if (!seg) continue;
+      const reply = o.response_at == null ? null : segmentAt(segments, Number(o.response_at), "rep");
+      const score = reply ? clamp100(Number(o.handling_score)) : Math.min(clamp100(Number(o.handling_score)), 20);
+      out.push({
+        category: o.category,
+        start: seg.start,
+        end: seg.end,
+        quote: String(o.quote || seg.text).slice(0, 300),
+        responseStart: reply ? reply.start : null,
+        responseText: reply ? reply.text.slice(0, 300) : null,
+        handlingScore: score,
+        handlingQuality: handlingQualityFor(score, !!reply),
+        notes: String(o.notes || "").slice(0, 300),
+      });
+    }
+    return out;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Replace the stored objections for a call. */
+export async function saveCallObjections(
+  supabase: SupabaseClient,
+  callId: string,
+  extraction: ObjectionExtraction
+) {
+  const { error: delErr } = await supabase.from("call_objections").delete().eq("call_id", callId);
+  if (delErr) throw new Error(`objections clear failed: ${delErr.message}`);
+
+  if (!extraction.objections.length) return;
+  const rows = extraction.objections.map((o) => ({
+    call_id: callId,
+    category: o.category,
+    start_sec: o.start,
+    end_sec: o.end,
+    quote: o.quote,
+    response_start_sec: o.responseStart,
+    response_text: o.responseText,
+    handling_score: o.handlingScore,
+    handling_quality: o.handlingQuality,
+    notes: o.notes,
+    source: extraction.source,
+    model: extraction.model,
+  }));
+  const { error } = await supabase.from("call_objections").insert(rows);
+  if (error) throw new Error(`objections insert failed: ${error.message}`);
+}
+
+/**
+ * Load the transcript, extract objections (LLM, heuristic on failure) and store them.
+ * Calls without a transcript store nothing.
+ */
+export async function extractCallObjections(opts: {
+  supabase: SupabaseClient;
+  callId: string;
+  model?: string | null;
+}): Promise<ObjectionExtraction> {
+  const segments = await loadTranscriptSegments(opts.supabase, opts.callId);
+  const model = opts.model || AI_MODEL;
+
+  let extraction: ObjectionExtraction;
+  if (!segments.length) {
+    extraction = { model: "none", source: "heuristic", objections: [] };
+  } else {
+    try {
+      const promptSegments = (await callRedactsPii(opts.supabase, opts.callId))
+        ? await loadTranscriptSegments(opts.supabase, opts.callId, { redacted: true })
+        : segments;
+      extraction = { model, source: "llm", objections: await llmExtractObjections(segments, model, promptSegments) };
+    } catch (e: any) {
+      console.warn("[objections] LLM extraction failed, using heuristic:", e?.message || e);
+      extraction = { model: "heuristic", source: "heuristic", objections: heuristicExtractObjections(segments) };
+    }
+  }
+
+  await saveCallObjections(opts.supabase, opts.callId, extraction);
+  return extraction;
+}
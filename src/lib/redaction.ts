@@ -0,0 +1,185 @@
+// src/lib/redaction.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ---------------------------------------------
+// PII redaction
+//
+// Detects emails, phone numbers, payment card numbers (Luhn-checked) and
+// street addresses / postcodes, and swaps each for a typed placeholder
+// ("[email]", "[phone]", "[card]", "[address]"). Digits read out as words
+// ("four one five …") count too, since transcripts spell them that way.
+//
+// saveTranscript stores a redacted copy of every segment
+// (call_transcript_segments.text_redacted) and a per-call report of what was
+// found (calls.pii_report: counts + segment positions, never the values).
+// Anything sent to an LLM goes through here when the org has redaction on
+// (org_privacy_settings.redact_pii — on unless an admin turns it off).
+// ---------------------------------------------
+
+export const PII_TYPES = ["email", "phone", "card", "address"] as const;
+export type PiiType = (typeof PII_TYPES)[number];
+
+export type PiiFinding = { type: PiiType; start: number; end: number };
+
+export type PiiReport = {
+  total: number;
+  counts: Record<PiiType, number>;
+  /** Segment index → types found there (capped). */
+  segments: { idx: number; types: PiiType[] }[];
+  redacted_at: string;
+};
+
+const MAX_REPORT_SEGMENTS = 500;
+
+const EMAIL_RE = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+
+// Digit runs with optional single separators; classified by length + Luhn below.
+const NUMBER_RUN_RE = /(?<![\w$£€])\+?(?:\(\d{1,4}\)|\d)(?:[\s.\-()]{0,2}\d){6,22}(?![\w])/g;
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: "0", oh: "0", o: "0", one: "1", two: "2", three: "3", four: "4",
+  five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+};
+const DIGIT_WORD = `(?:${Object.keys(DIGIT_WORDS).join("|")}|\\d)`;
+const SPOKEN_RUN_RE = new RegExp(`\\b${DIGIT_WORD}(?:[\\s,-]+${DIGIT_WORD}){6,22}\\b`, "gi");
+
+// Street names must be capitalised ("12 Baker Street", not "2 calls on the way").
+const anyCase = (words: string) =>
+  words
+    .split("|")
+    .flatMap((w) => [w, w[0].toUpperCase() + w.slice(1), w.toUpperCase()])
+    .join("|");
+const STREET_TYPES = anyCase(
+  "street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|" +
+    "terrace|close|crescent|parkway|pkwy|highway|hwy|square|sq"
+);
+const STREET_RE = new RegExp(
+  `\\b\\d{1,6}[A-Za-z]?\\s+(?:[A-Z][A-Za-z'.-]*\\s+){1,4}(?:${STREET_TYPES})\\b\\.?(?:\\s+(?:N|S|E|W|NE|NW|SE|SW)\\b)?` +
+    `(?:,?\\s*(?:${anyCase("apt|apartment|suite|unit|floor")}|#)\\.?\\s*[\\w-]+)?`,
+  "g"
+);
+// UK postcodes (SW1A 1AA) and US ZIP+4 (94107-1234); plain 5-digit ZIPs are too ambiguous.
+const POSTCODE_RE = /\b(?:[A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2}|\d{5}-\d{4})\b/g;
+
+function luhnOk(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** Card for a Luhn-valid 13–19 digit run, phone for 7–15 digits, otherwise not PII. */
+function classifyDigits(digits: string): PiiType | null {
+  if (digits.length >= 13 && digits.length <= 19 && luhnOk(digits)) return "card";
+  if (digits.length >= 7 && digits.length <= 15) return "phone";
+  return null;
+}
+
+function spokenDigits(run: string) {
+  return run
+    .toLowerCase()
+    .split(/[\s,-]+/)
+    .map((w) => DIGIT_WORDS[w] ?? w)
+    .join("");
+}
+
+/** All PII spans in the text, non-overlapping, in order. */
+export function detectPii(text: string): PiiFinding[] {
+  const found: PiiFinding[] = [];
+  const add = (type: PiiType | null, start: number, end: number) => {
+    if (!type) return;
+    if (found.some((f) => start < f.end && end > f.start)) return;
+    found.push({ type, start, end });
+  };
+
+  // Most specific first: an email's or ZIP+4's digits shouldn't read as a phone number.
+  for (const m of text.matchAll(EMAIL_RE)) add("email", m.index!, m.index! + m[0].length);
+  for (const m of text.matchAll(STREET_RE)) add("address", m.index!, m.index! + m[0].length);
+  for (const m of text.matchAll(POSTCODE_RE)) add("address", m.index!, m.index! + m[0].length);
+  for (const m of text.matchAll(NUMBER_RUN_RE)) {
+    add(classifyDigits(m[0].replace(/\D/g, "")), m.index!, m.index! + m[0].length);
+  }
+  for (const m of text.matchAll(SPOKEN_RUN_RE)) {
+    const digits = spokenDigits(m[0]);
+    if (/^\d+$/.test(digits)) add(classifyDigits(digits), m.index!, m.index! + m[0].length);
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+/** Text with every finding replaced by its placeholder. */
+export function redactText(text: string): { text: string; findings: PiiFinding[] } {
+  const findings = detectPii(text);
+  if (!findings.length) return { text, findings };
+  let out = "";
+  let at = 0;
+  for (const f of findings) {
+    out += text.slice(at, f.start) + `[${f.type}]`;
+    at = f.end;
+  }
+  return { text: out + text.slice(at), findings };
+}
+
+export function emptyPiiCounts(): Record<PiiType, number> {
+  return { email: 0, phone: 0, card: 0, address: 0 };
+}
+
+/** Redact each segment and summarise what was found. */
+export function redactSegments<T extends { text: string }>(segments: T[]): { segments: T[]; report: PiiReport } {
+  const counts = emptyPiiCounts();
+  const where: PiiReport["segments"] = [];
+  const out = segments.map((s, idx) => {
+    const r = redactText(s.text);
+    if (!r.findings.length) return s;
+    for (const f of r.findings) counts[f.type]++;
+    if (where.length < MAX_REPORT_SEGMENTS) where.push({ idx, types: [...new Set(r.findings.map((f) => f.type))] });
+    return { ...s, text: r.text };
+  });
+  const total = Object.values(counts).reduce((a, b) => a + b, 0);
+  return { segments: out, report: { total, counts, segments: where, redacted_at: new Date().toISOString() } };
+}
+
+/**
+ * Whether the org sends redacted text to LLMs. On by default (no row, no org,
+ * or the settings can't be read) — failing open would leak.
+ */
+export async function orgRedactsPii(supabase: SupabaseClient, orgId: string | null | undefined): Promise<boolean> {
+  if (!orgId) return true;
+  const { data, error } = await supabase
+    .from("org_privacy_settings")
+    .select("redact_pii")
+    .eq("org_id", orgId)
+    .maybeSingle();
+  if (error) {
+    console.warn("[redaction] settings lookup failed:", error.message);
+    return true;
+  }
+  return (data as any)?.redact_pii !== false;
+}
+
+/** orgRedactsPii for the org that owns a call. */
+export async function callRedactsPii(supabase: SupabaseClient, callId: string): Promise<boolean> {
+  const { data, error } = await supabase.from("calls").select("org_id").eq("id", callId).maybeSingle();
+  if (error) {
+    console.warn("[redaction] call org lookup failed:", error.message);
+    return true;
+  }
+  return orgRedactsPii(supabase, (data as any)?.org_id ?? null);
+}
+
+/** orgRedactsPii for a rep's org (sparring sessions carry rep_id only). */
+export async function repRedactsPii(supabase: SupabaseClient, repId: string | null | undefined): Promise<boolean> {
+  if (!repId) return true;
+  const { data, error } = await supabase.from("reps").select("org_id").eq("id", repId).maybeSingle();
+  if (error) {
+    console.warn("[redaction] rep org lookup failed:", error.message);
+    return true;
+  }
+  return orgRedactsPii(supabase, (data as any)?.org_id ?? null);
+}
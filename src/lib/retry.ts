@@ -10,6 +10,13 @@ function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+/** Exponential backoff with jitter: base * 2^(attempt-1) * [0.5, 1.5), capped at maxMs. */
+export function backoffDelay(attempt: number, opts: { baseMs?: number; maxMs?: number } = {}) {
+  const baseMs = opts.baseMs ?? 300;
+  const maxMs = opts.maxMs ?? 3000;
+  return Math.min(maxMs, Math.round(baseMs * Math.pow(2, Math.max(0, attempt - 1)) * (0.5 + Math.random())));
+}
+
 export async function fetchJsonWithRetry<T = any>(
   url: string,
   init?: RequestInit,
@@ -31,8 +38,7 @@ export async function fetchJsonWithRetry<T = any>(
           : (!res.ok && (res.status >= 500 || res.status === 429));
 
       if (shouldRetry && i < attempts) {
-        const delay = Math.min(maxMs, Math.round(baseMs * Math.pow(2, i - 1) * (0.5 + Math.random())));
-        await sleep(delay);
+        await sleep(backoffDelay(i, { baseMs, maxMs }));
         continue;
       }
 
@@ -51,8 +57,7 @@ export async function fetchJsonWithRetry<T = any>(
           : (res === null && i < attempts); // network error/timeouts
 
       if (shouldRetry && i < attempts) {
-        const delay = Math.min(maxMs, Math.round(baseMs * Math.pow(2, i - 1) * (0.5 + Math.random())));
-        await sleep(delay);
+        await sleep(backoffDelay(i, { baseMs, maxMs }));
         continue;
       }
       throw err;
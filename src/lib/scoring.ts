@@ -1,19 +1,35 @@
 ﻿// src/lib/scoring.ts
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { createClient } from "@supabase/supabase-js";
 import { getOpenAI, AI_MODEL, OPENAI_TIMEOUT_MS } from "./openai";
-import { postScoreSummary } from "./slack";
-
-export const RUBRIC_VERSION = "v1"; // bump when rubric changes
-
-export type RubricSection = { score: number; notes: string };
+import {
+  loadTranscriptSegments,
+  formatTimestamp,
+  parseTimestamp,
+  type TranscriptSegment,
+} from "./transcription";
+import { orgRedactsPii, redactText } from "./redaction";
+import {
+  DEFAULT_RUBRIC,
+  getActiveRubric,
+  rubricVersionLabel,
+  type ScoringRubric,
+} from "../services/rubrics";
+import { HEURISTIC_MODEL, heuristicScoreSections } from "./heuristicScoring";
+
+// Transcript budget for the scoring prompt (~4 chars per token).
+const TRANSCRIPT_TOKEN_BUDGET = Number(process.env.SCORE_TRANSCRIPT_TOKEN_BUDGET || 6000);
+const TRANSCRIPT_CHUNK_TOKENS = Number(process.env.SCORE_TRANSCRIPT_CHUNK_TOKENS || 600);
+
+/** evidence: transcript timestamps (seconds) backing the notes — lets reps jump to the moment */
+export type RubricSection = { score: number; notes: string; evidence?: number[] };
+/** sections are keyed by the rubric's section keys (intro/discovery/… for the default rubric) */
 export type LlmScore = {
   model: string;
   overall: number;
-  intro: RubricSection;
-  discovery: RubricSection;
-  objection: RubricSection;
-  close: RubricSection;
+  rubricId: string;
+  rubricVersion: string;
+  sections: Record<string, RubricSection>;
+  fallback: boolean; // heuristic score (LLM unavailable) — dashboards exclude/flag these
 };
 
 function sectionSchema() {
@@ -21,67 +37,177 @@ function sectionSchema() {
     type: "object",
     properties: {
       score: { type: "integer", minimum: 0, maximum: 100 },
-      notes: { type: "string", maxLength: 300 },
+      notes: { type: "string", maxLength: 400 },
+      evidence: { type: "array", items: { type: "integer", minimum: 0 } },
     },
-    required: ["score", "notes"],
+    required: ["score", "notes", "evidence"],
     additionalProperties: false,
   };
 }
 
-const JSON_SCHEMA = {
-  name: "SalesCallScore",
-  schema: {
-    type: "object",
-    properties: {
-      model: { type: "string" },
-      overall: { type: "integer", minimum: 0, maximum: 100 },
-      intro: sectionSchema(),
-      discovery: sectionSchema(),
-      objection: sectionSchema(),
-      close: sectionSchema(),
+/** One property per rubric section; overall is derived from the weights, not asked for. */
+function buildJsonSchema(rubric: ScoringRubric) {
+  const properties: Record<string, unknown> = { model: { type: "string" } };
+  for (const sec of rubric.sections) properties[sec.key] = sectionSchema();
+
+  return {
+    name: "SalesCallScore",
+    schema: {
+      type: "object",
+      properties,
+      required: ["model", ...rubric.sections.map((sec) => sec.key)],
+      additionalProperties: false,
     },
-    required: ["model", "overall", "intro", "discovery", "objection", "close"],
-    additionalProperties: false,
-  },
-  strict: true,
-};
+    strict: true,
+  };
+}
 
 function clamp(n: number) {
   return Math.max(0, Math.min(100, Math.round(n)));
 }
 
-export function heuristicScoreFallback(): LlmScore {
-  const pick = () =>
-    Math.max(55, Math.min(85, Math.round(70 + (Math.random() * 16 - 8))));
-  const s = {
-    score: pick(),
-    notes: "Heuristic fallback based on minimal call metadata.",
-  };
+/** Weighted mean of the section scores (0–100). */
+export function weightedOverall(rubric: ScoringRubric, sections: Record<string, RubricSection>): number {
+  let total = 0;
+  let weights = 0;
+  for (const sec of rubric.sections) {
+    const score = Number(sections[sec.key]?.score);
+    if (!Number.isFinite(score)) continue;
+    const w = Number(sec.weight) > 0 ? Number(sec.weight) : 1;
+    total += score * w;
+    weights += w;
+  }
+  return weights ? clamp(total / weights) : 0;
+}
+
+/** Section key → score, for Slack blocks and job results. */
+export function sectionScores(score: LlmScore): Record<string, number> {
+  return Object.fromEntries(Object.entries(score.sections).map(([k, v]) => [k, v.score]));
+}
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function speakerLabel(seg: TranscriptSegment) {
+  if (seg.role === "rep") return "REP";
+  if (seg.role === "buyer") return "BUYER";
+  return `SPEAKER ${seg.speaker}`;
+}
+
+type TranscriptChunk = { start: number; end: number; text: string; tokens: number };
+
+/** Group "[m:ss] REP: ..." lines into roughly chunk-sized blocks, never splitting a line. */
+export function chunkTranscript(segments: TranscriptSegment[], chunkTokens = TRANSCRIPT_CHUNK_TOKENS): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let cur: TranscriptChunk | null = null;
+
+  for (const seg of segments) {
+    const line = `[${formatTimestamp(seg.start)}] ${speakerLabel(seg)}: ${seg.text}`;
+    const tokens = estimateTokens(line) + 1;
+    if (cur && cur.tokens + tokens > chunkTokens) {
+      chunks.push(cur);
+      cur = null;
+    }
+    if (!cur) cur = { start: seg.start, end: seg.end, text: line, tokens };
+    else {
+      cur.text += "\n" + line;
+      cur.tokens += tokens;
+      cur.end = seg.end;
+    }
+  }
+  if (cur) chunks.push(cur);
+  return chunks;
+}
+
+/**
+ * Fit the transcript into the token budget. Short calls go in whole; long calls keep
+ * the opening and closing chunks (intro + close live there) and an evenly spaced
+ * sample of the middle, with explicit markers where time ranges were omitted.
+ */
+export function buildTranscriptForPrompt(
+  segments: TranscriptSegment[],
+  budgetTokens = TRANSCRIPT_TOKEN_BUDGET
+): { text: string; truncated: boolean } {
+  const chunks = chunkTranscript(segments);
+  const total = chunks.reduce((n, c) => n + c.tokens, 0);
+  if (total <= budgetTokens) return { text: chunks.map((c) => c.text).join("\n"), truncated: false };
+
+  const keep = new Set<number>([0, chunks.length - 1]);
+  let used = chunks[0].tokens + (chunks.length > 1 ? chunks[chunks.length - 1].tokens : 0);
+  const middle = chunks.length - 2;
+  const room = Math.max(0, Math.floor((budgetTokens - used) / Math.max(1, TRANSCRIPT_CHUNK_TOKENS)));
+  if (middle > 0 && room > 0) {
+    const step = middle / Math.min(room, middle);
+    for (let i = 0; i < Math.min(room, middle); i++) {
+      const idx = 1 + Math.floor((i + 0.5) * step);
+      if (used + chunks[idx].tokens > budgetTokens) break;
+      keep.add(idx);
+      used += chunks[idx].tokens;
+    }
+  }
+
+  const out: string[] = [];
+  let prev = -1;
+  for (const idx of Array.from(keep).sort((a, b) => a - b)) {
+    if (prev >= 0 && idx > prev + 1) {
+      out.push(`[… ${formatTimestamp(chunks[prev + 1].start)}–${formatTimestamp(chunks[idx - 1].end)} omitted …]`);
+    }
+    out.push(chunks[idx].text);
+    prev = idx;
+  }
+  return { text: out.join("\n"), truncated: true };
+}
+
+/** Merge model-listed evidence with [m:ss] citations in the notes; keep only real moments. */
+function normaliseEvidence(section: RubricSection, maxSec: number | null): number[] {
+  const cited = Array.from(String(section.notes || "").matchAll(/\[(\d{1,2}(?::\d{2}){1,2})\]/g))
+    .map((m) => parseTimestamp(m[1]))
+    .filter((n): n is number => n != null);
+  const listed = Array.isArray(section.evidence) ? section.evidence.map((n) => Math.round(Number(n))) : [];
+
+  return Array.from(new Set([...listed, ...cited]))
+    .filter((n) => Number.isFinite(n) && n >= 0 && (maxSec == null || n <= maxSec + 1))
+    .sort((a, b) => a - b)
+    .slice(0, 5);
+}
+
+/** Deterministic transcript-based score (see lib/heuristicScoring), always flagged as fallback. */
+export function heuristicScoreFallback(
+  rubric: ScoringRubric = DEFAULT_RUBRIC,
+  segments: TranscriptSegment[] = []
+): LlmScore {
+  const sections = heuristicScoreSections(rubric, segments);
   return {
-    model: "heuristic:v1",
-    overall: s.score,
-    intro: { ...s },
-    discovery: { ...s },
-    objection: { ...s },
-    close: { ...s },
+    model: HEURISTIC_MODEL,
+    overall: weightedOverall(rubric, sections),
+    rubricId: rubric.id,
+    rubricVersion: rubricVersionLabel(rubric),
+    sections,
+    fallback: true,
   };
 }
 
-/** Write a score row into call_scores (non-blocking if table missing) */
+/**
+ * Append a score row into call_scores (non-blocking if table missing).
+ * Rows are never updated, so re-scores sit next to the originals for before/after.
+ */
 async function writeScoreHistory(
   supabase: SupabaseClient,
   callId: string,
-  model: string,
-  overall: number,
-  rubric: any
+  score: LlmScore,
+  batchId?: string | null
 ) {
   try {
     const { error } = await supabase.from("call_scores").insert({
       call_id: callId,
-      ai_model: model,
-      rubric_version: RUBRIC_VERSION,
-      overall,
-      rubric,
+      ai_model: score.model,
+      rubric_version: score.rubricVersion,
+      rubric_id: score.rubricId,
+      overall: score.overall,
+      rubric: score.sections,
+      is_fallback: score.fallback,
+      rescore_batch_id: batchId ?? null,
     });
     if (error) console.warn("[score] call_scores insert failed:", error.message);
   } catch (e: any) {
@@ -89,93 +215,83 @@ async function writeScoreHistory(
   }
 }
 
-/** Best-effort Slack notifier (safe: silently skips if webhook unset) */
-async function notifySlack(opts: {
-  supabase: SupabaseClient;
-  callId: string;
-  scores: {
-    intro: number;
-    discovery: number;
-    objection: number;
-    close: number;
-    overall: number;
-  };
-  durationSec?: number | null;
-  repIdFallback?: string | null;
-}) {
+/**
+ * Resolve the rubric for a call: explicit override, else the org's active version,
+ * else the built-in default (never blocks scoring).
+ */
+async function resolveRubric(supabase: SupabaseClient, callId: string, override?: ScoringRubric | null) {
+  if (override) return override;
   try {
-    // Try to resolve a human name for the rep if you store it in profiles
-    let repName: string | undefined = undefined;
-    if (opts.repIdFallback) {
-      try {
-        const { data } = await opts.supabase
-          .from("profiles")
-          .select("full_name")
-          .eq("id", opts.repIdFallback)
-          .maybeSingle();
-        repName = (data as any)?.full_name || opts.repIdFallback || undefined;
-      } catch {
-        repName = opts.repIdFallback || undefined;
-      }
-    }
-
-    const WEB =
-      (process.env.PUBLIC_WEB_BASE ||
-        process.env.WEB_BASE_URL ||
-        "http://localhost:3000").replace(/\/$/, "");
-
-    await postScoreSummary({
-      callId: opts.callId,
-      overallScore: opts.scores.overall,
-      section: {
-        intro: opts.scores.intro,
-        discovery: opts.scores.discovery,
-        objection: opts.scores.objection,
-        close: opts.scores.close,
-      },
-      durationSec: typeof opts.durationSec === "number" ? opts.durationSec : undefined,
-      repName,
-      callUrl: `${WEB}/calls/${opts.callId}`,
-      recentUrl: `${WEB}/recent-calls`,
-      // webhookUrl optional — postScoreSummary will default to SLACK_WEBHOOK_URL
-    });
-
-    console.log("[score] Slack summary posted");
-  } catch (err) {
-    console.error("[score] Slack summary failed", err);
+    const { data } = await supabase.from("calls").select("org_id").eq("id", callId).maybeSingle();
+    return await getActiveRubric((data as any)?.org_id ?? null);
+  } catch (e: any) {
+    console.warn("[scoreWithLLM] rubric lookup failed, using default:", e?.message || e);
+    return DEFAULT_RUBRIC;
   }
 }
 
 export async function scoreWithLLM(opts: {
   supabase: SupabaseClient;
   callId: string;
+  rubric?: ScoringRubric | null;
+  /** Batch re-scores: tag the history row and throw instead of falling back. */
+  batchId?: string | null;
+  /** Score with a different model than AI_MODEL (calibration runs). */
+  model?: string | null;
+  /** Only append to call_scores; leave the call's live score untouched. */
+  shadow?: boolean;
 }): Promise<LlmScore> {
   const { supabase, callId } = opts;
+  const rubricDef = await resolveRubric(supabase, callId, opts.rubric);
+  let segments: TranscriptSegment[] = [];
 
   try {
-    // Pull minimal call meta (include duration for Slack; user_id to resolve rep)
+    // Pull minimal call meta (org_id for PII redaction). Slack + activities are
+    // the caller's: the score job posts them as their own retried jobs.
     const { data: call, error: callErr } = await supabase
       .from("calls")
-      .select("id, filename, user_id, duration_sec")
+      .select("id, filename, org_id")
       .eq("id", callId)
       .single();
     if (callErr || !call) throw new Error("call_not_found");
 
+    const redactPii = await orgRedactsPii(supabase, (call as any).org_id);
+    const filename = String(call.filename || call.id);
+
+    // Transcript (best-effort: score from metadata alone if not transcribed yet).
+    // PII-redacted unless the org has turned redaction off.
+    try {
+      segments = await loadTranscriptSegments(supabase, callId, { redacted: redactPii });
+    } catch (e: any) {
+      console.warn("[scoreWithLLM] transcript load failed:", e?.message || e);
+    }
+    const hasTranscript = segments.length > 0;
+    const transcript = hasTranscript ? buildTranscriptForPrompt(segments) : null;
+    const maxSec = hasTranscript ? Math.ceil(segments[segments.length - 1].end) : null;
+
     // Build prompt
     const userLines = [
-      'CALL META: filename="' + (call.filename || call.id) + '"',
-      "TRANSCRIPT: (not available in MVP)",
+      'CALL META: filename="' + (redactPii ? redactText(filename).text : filename) + '"',
+      transcript
+        ? `TRANSCRIPT${transcript.truncated ? " (long call — some middle sections omitted)" : ""}:\n${transcript.text}`
+        : "TRANSCRIPT: (not available)",
       "",
-      "Rubric guide:",
-      "- Intro: pattern interrupt, clear reason, agenda set.",
-      "- Discovery: deep questions, pain/impact, budget/timeline, authority.",
-      "- Objection: isolates true objection, reframes value, tests commitment.",
-      "- Close: clear next step, assumptive/binary ask, time/date locked.",
+      `Rubric guide (${rubricDef.name} ${rubricVersionLabel(rubricDef)}) — JSON key, label, guidance:`,
+      ...rubricDef.sections.map((sec) => `- ${sec.key} (${sec.label}): ${sec.guidance}`),
     ];
+    if (hasTranscript) {
+      userLines.push(
+        "",
+        "Evidence rules:",
+        "- Every section's notes MUST cite the moments they are based on as [m:ss] timestamps taken from the transcript.",
+        "- List the same moments in `evidence` as whole seconds from the start of the call.",
+        "- If a section never happens in the call, say so and leave `evidence` empty.",
+      );
+    }
     const user = userLines.join("\n");
 
     const system =
-      "You are a strict sales call evaluator. Score from 0–100 overall and for Intro, Discovery, Objection Handling, Close. Be concise. Output must match the provided JSON schema exactly.";
+      `You are a strict sales call evaluator. Score each rubric section from 0–100: ${rubricDef.sections.map((sec) => sec.label).join(", ")}. Base every judgement on what is said in the transcript and cite timestamps. Be concise. Output must match the provided JSON schema exactly.`;
 
     const openai = getOpenAI();
     const ctrl = new AbortController();
@@ -183,12 +299,12 @@ export async function scoreWithLLM(opts: {
 
     const resp = await openai.chat.completions.create(
       {
-        model: AI_MODEL,
+        model: opts.model || AI_MODEL,
         messages: [
           { role: "system", content: system },
           { role: "user", content: user },
         ],
-        response_format: { type: "json_schema", json_schema: JSON_SCHEMA as any },
+        response_format: { type: "json_schema", json_schema: buildJsonSchema(rubricDef) as any },
         temperature: 0.2,
       },
       { signal: ctrl.signal }
@@ -198,79 +314,51 @@ export async function scoreWithLLM(opts: {
     const raw = resp.choices?.[0]?.message?.content;
     if (!raw) throw new Error("no_model_content");
 
-    const parsed = JSON.parse(raw) as LlmScore;
+    const json = JSON.parse(raw) as Record<string, any>;
 
-    // Clamp & tidy
-    parsed.model = AI_MODEL;
-    parsed.overall = clamp(parsed.overall);
-    (["intro", "discovery", "objection", "close"] as const).forEach((k) => {
-      parsed[k].score = clamp(parsed[k].score);
-      parsed[k].notes = (parsed[k].notes || "").slice(0, 300);
-    });
+    // Clamp & tidy (keep rubric order)
+    const rubric: Record<string, RubricSection> = {};
+    for (const sec of rubricDef.sections) {
+      const r = json[sec.key];
+      if (!r || typeof r !== "object") throw new Error(`missing_section:${sec.key}`);
+      const section: RubricSection = { score: clamp(Number(r.score) || 0), notes: String(r.notes || "").slice(0, 400), evidence: r.evidence };
+      section.evidence = hasTranscript ? normaliseEvidence(section, maxSec) : [];
+      rubric[sec.key] = section;
+    }
 
-    const rubric = {
-      intro: parsed.intro,
-      discovery: parsed.discovery,
-      objection: parsed.objection,
-      close: parsed.close,
+    const parsed: LlmScore = {
+      model: opts.model || AI_MODEL,
+      overall: weightedOverall(rubricDef, rubric),
+      rubricId: rubricDef.id,
+      rubricVersion: rubricVersionLabel(rubricDef),
+      sections: rubric,
+      fallback: false,
     };
 
     // Persist latest on calls
-    const { error: upErr } = await supabase
-      .from("calls")
-      .update({
-        score_overall: parsed.overall,
-        rubric,
-        ai_model: parsed.model,
-        rubric_version: RUBRIC_VERSION,
-        scored_at: new Date().toISOString(),
-      })
-      .eq("id", callId);
-    if (upErr) throw upErr;
-
-    // History row (non-blocking)
-    await writeScoreHistory(supabase, callId, parsed.model, parsed.overall, rubric);
-
-    // CRM Activity: record a score event (best-effort; non-blocking)
-    try {
-      const svc = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
-      // fetch linkage for account/contact so the activity appears on their timelines
-      const { data: callRow } = await svc
-        .from('calls')
-        .select('id, account_id, contact_id, score_overall')
-        .eq('id', callId)
-        .single();
-
-      const overall = typeof (callRow as any)?.score_overall === 'number' ? (callRow as any).score_overall : parsed.overall;
-      const summary = `Scored ${Math.round(overall)}`;
-
-      await svc.from('activities').insert({
-        type: 'score',
-        summary,
-        account_id: (callRow as any)?.account_id ?? null,
-        contact_id: (callRow as any)?.contact_id ?? null,
-      });
-    } catch (e) {
-      console.warn('[score] activity insert failed', e);
+    if (!opts.shadow) {
+      const { error: upErr } = await supabase
+        .from("calls")
+        .update({
+          score_overall: parsed.overall,
+          rubric,
+          ai_model: parsed.model,
+          rubric_version: parsed.rubricVersion,
+          rubric_id: parsed.rubricId,
+          score_is_fallback: false,
+          scored_at: new Date().toISOString(),
+        })
+        .eq("id", callId);
+      if (upErr) throw upErr;
     }
 
-    // Slack (best-effort)
-    await notifySlack({
-      supabase,
-      callId,
-      repIdFallback: (call as any)?.user_id ?? null,
-      durationSec: (call as any)?.duration_sec ?? null,
-      scores: {
-        intro: parsed.intro.score,
-        discovery: parsed.discovery.score,
-        objection: parsed.objection.score,
-        close: parsed.close.score,
-        overall: parsed.overall,
-      },
-    });
-
+    // History row (non-blocking)
+    await writeScoreHistory(supabase, callId, parsed, opts.batchId);
     return parsed;
   } catch (err: any) {
+    // A re-score must not replace a real score with a heuristic one — let the job retry.
+    if (opts.batchId) throw err;
+
     console.warn(
       "[scoreWithLLM] LLM failed, using heuristic:",
       err?.status ?? "",
@@ -278,14 +366,16 @@ export async function scoreWithLLM(opts: {
       err?.message ?? err
     );
 
-    const fb = heuristicScoreFallback();
+    if (!segments.length) {
+      try {
+        segments = await loadTranscriptSegments(opts.supabase, opts.callId);
+      } catch (e: any) {
+        console.warn("[scoreWithLLM] transcript load failed (fallback):", e?.message || e);
+      }
+    }
 
-    const rubric = {
-      intro: fb.intro,
-      discovery: fb.discovery,
-      objection: fb.objection,
-      close: fb.close,
-    };
+    const fb = heuristicScoreFallback(rubricDef, segments);
+    const rubric = fb.sections;
 
     await opts.supabase
       .from("calls")
@@ -293,61 +383,15 @@ export async function scoreWithLLM(opts: {
         score_overall: fb.overall,
         rubric,
         ai_model: fb.model,
-        rubric_version: RUBRIC_VERSION,
+        rubric_version: fb.rubricVersion,
+        rubric_id: fb.rubricId,
+        score_is_fallback: true,
         scored_at: new Date().toISOString(),
       })
       .eq("id", opts.callId);
 
     // History row (non-blocking)
-    await writeScoreHistory(opts.supabase, opts.callId, fb.model, fb.overall, rubric);
-
-    // CRM Activity: record a score event for fallback (best-effort)
-    try {
-      const svc = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
-      const { data: callRow } = await svc
-        .from('calls')
-        .select('id, account_id, contact_id, score_overall')
-        .eq('id', opts.callId)
-        .single();
-
-      const overall = typeof (callRow as any)?.score_overall === 'number' ? (callRow as any).score_overall : fb.overall;
-      const summary = `Scored ${Math.round(overall)}`;
-
-      await svc.from('activities').insert({
-        type: 'score',
-        summary,
-        account_id: (callRow as any)?.account_id ?? null,
-        contact_id: (callRow as any)?.contact_id ?? null,
-      });
-    } catch (e) {
-      console.warn('[score] activity insert failed (fallback)', e);
-    }
-
-    // Grab duration if present for Slack
-    let durationSec: number | null = null;
-    try {
-      const { data } = await opts.supabase
-        .from("calls")
-        .select("duration_sec")
-        .eq("id", opts.callId)
-        .single();
-      durationSec = (data as any)?.duration_sec ?? null;
-    } catch {}
-
-    // Slack fallback
-    await notifySlack({
-      supabase: opts.supabase,
-      callId: opts.callId,
-      repIdFallback: null,
-      durationSec,
-      scores: {
-        intro: fb.intro.score,
-        discovery: fb.discovery.score,
-        objection: fb.objection.score,
-        close: fb.close.score,
-        overall: fb.overall,
-      },
-    });
+    await writeScoreHistory(opts.supabase, opts.callId, fb);
 
     return fb;
   }
@@ -159,13 +159,23 @@ export type Rubric = {
   discovery?: RubricSection | null;
   objection?: RubricSection | null;
   close?: RubricSection | null;
+  [sectionKey: string]: RubricSection | null | undefined; // org rubrics (MEDDICC, SPIN, …)
 };
 
+const DEFAULT_SECTION_LABELS = [
+  { key: "intro", label: "Intro" },
+  { key: "discovery", label: "Discovery" },
+  { key: "objection", label: "Objection" },
+  { key: "close", label: "Close" },
+];
+
 export type ScoreSummaryInput = {
   callId: string;
   filename?: string | null;
   overall?: number | null;
   rubric?: Rubric | null;           // <— supports notes
+  sections?: Array<{ key: string; label: string }> | null; // render order; defaults to Intro/Discovery/Objection/Close
+  fallback?: boolean | null;        // heuristic score (LLM unavailable)
   durationSec?: number | null;
   appUrlBase?: string | null;       // e.g. https://your-web.vercel.app
   // Optional cosmetics:
@@ -199,6 +209,8 @@ export function buildScoreBlocksFromRubric(input: ScoreSummaryInput) {
     filename,
     overall,
     rubric,
+    sections,
+    fallback,
     durationSec,
     repName,
     contactName,
@@ -223,11 +235,13 @@ export function buildScoreBlocksFromRubric(input: ScoreSummaryInput) {
   const blocks: SlackBlock[] = [
     { type: "header", text: { type: "plain_text", text: `Call scored: ${overallStr} • ${title}`, emoji: true } },
     { type: "section", text: { type: "mrkdwn", text: metaParts.join("  •  ") || "—" } },
+    ...(fallback
+      ? [{ type: "context", elements: [{ type: "mrkdwn", text: "⚠️ Heuristic fallback score — AI scoring was unavailable" }] } as SlackBlock]
+      : []),
     { type: "divider" },
-    { type: "section", text: { type: "mrkdwn", text: secText("Intro", rubric?.intro) } },
-    { type: "section", text: { type: "mrkdwn", text: secText("Discovery", rubric?.discovery) } },
-    { type: "section", text: { type: "mrkdwn", text: secText("Objection", rubric?.objection) } },
-    { type: "section", text: { type: "mrkdwn", text: secText("Close", rubric?.close) } },
+    ...(sections?.length ? sections : DEFAULT_SECTION_LABELS).map((sec): SlackBlock => (
+      { type: "section", text: { type: "mrkdwn", text: secText(sec.label, rubric?.[sec.key]) } }
+    )),
   ];
 
   // Add action buttons using robust URL builder
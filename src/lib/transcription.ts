@@ -0,0 +1,319 @@
+// src/lib/transcription.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { toFile } from "openai";
+import { getOpenAI } from "./openai";
+import { redactSegments, redactText } from "./redaction";
+
+// ---------------------------------------------
+// Transcription subsystem
+//
+// Providers (TRANSCRIBE_PROVIDER):
+//   - openai → diarised transcription via TRANSCRIBE_MODEL (default gpt-4o-transcribe-diarize)
+//   - local  → deterministic stand-in (no network) for tests + local dev
+//
+// Default: openai when OPENAI_API_KEY is set, otherwise local.
+// Live voice sparring sends short single-speaker chunks through
+// transcribeChunk (LIVE_TRANSCRIBE_MODEL, default gpt-4o-mini-transcribe).
+// Segments are persisted per call in call_transcript_segments, each with a
+// PII-redacted copy (text_redacted) for anything that leaves the server.
+// ---------------------------------------------
+
+export const TRANSCRIBE_MODEL = process.env.TRANSCRIBE_MODEL || "gpt-4o-transcribe-diarize";
+export const LIVE_TRANSCRIBE_MODEL = process.env.LIVE_TRANSCRIBE_MODEL || "gpt-4o-mini-transcribe";
+
+export type SpeakerRole = "rep" | "buyer" | "unknown";
+
+export type TranscriptSegment = {
+  speaker: string;   // raw diarisation label (e.g. "A", "B")
+  role: SpeakerRole; // who we think that speaker is
+  start: number;     // seconds
+  end: number;       // seconds
+  text: string;
+};
+
+export type Transcript = {
+  provider: string;
+  model: string;
+  durationSec: number | null;
+  text: string;
+  segments: TranscriptSegment[];
+};
+
+export type TranscriptionInput = {
+  audio: Buffer;
+  filename: string;
+  mime?: string | null;
+};
+
+export type ChunkTranscript = {
+  provider: string;
+  model: string;
+  text: string;
+};
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(input: TranscriptionInput): Promise<Transcript>;
+  /** One speaker, a few seconds of audio (live voice sparring). Optional. */
+  transcribeChunk?(input: TranscriptionInput): Promise<ChunkTranscript>;
+}
+
+/**
+ * Map raw diarisation labels onto rep/buyer.
+ * Uploaded calls are rep-initiated, so whoever speaks first is treated as the rep;
+ * every other label is the buyer side.
+ */
+export function assignSpeakerRoles<T extends { speaker: string }>(segments: T[]): (T & { role: SpeakerRole })[] {
+  const first = segments.find((s) => String(s.speaker || "").trim())?.speaker ?? null;
+  return segments.map((s) => ({
+    ...s,
+    role: !first ? "unknown" : s.speaker === first ? "rep" : "buyer",
+  }));
+}
+
+/** Seconds → "m:ss" (or "h:mm:ss" past the hour) for prompts and citations. */
+export function formatTimestamp(sec: number): string {
+  const total = Math.max(0, Math.floor(Number(sec) || 0));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/** Inverse of formatTimestamp; returns null for anything that isn't m:ss / h:mm:ss. */
+export function parseTimestamp(raw: string): number | null {
+  const parts = String(raw || "").trim().split(":").map((p) => Number(p));
+  if (parts.length < 2 || parts.length > 3 || parts.some((p) => !Number.isInteger(p) || p < 0)) return null;
+  return parts.reduce((acc, p) => acc * 60 + p, 0);
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+// --- OpenAI (diarised) -------------------------------------------------------
+const openaiProvider: TranscriptionProvider = {
+  name: "openai",
+  async transcribe({ audio, filename, mime }) {
+    const openai = getOpenAI();
+    const file = await toFile(audio, filename, mime ? { type: mime } : undefined);
+
+    const resp: any = await openai.audio.transcriptions.create({
+      file,
+      model: TRANSCRIBE_MODEL,
+      response_format: "diarized_json",
+      chunking_strategy: "auto",
+    } as any);
+
+    const raw: any[] = Array.isArray(resp?.segments) ? resp.segments : [];
+    const segments = assignSpeakerRoles(
+      raw
+        .map((s) => ({
+          speaker: String(s.speaker ?? "A"),
+          start: round2(Number(s.start) || 0),
+          end: round2(Number(s.end) || 0),
+          text: String(s.text ?? "").trim(),
+        }))
+        .filter((s) => s.text)
+    );
+
+    return {
+      provider: "openai",
+      model: TRANSCRIBE_MODEL,
+      durationSec: Number.isFinite(Number(resp?.duration)) ? Number(resp.duration) : null,
+      text: String(resp?.text ?? segments.map((s) => s.text).join(" ")),
+      segments,
+    };
+  },
+  async transcribeChunk({ audio, filename, mime }) {
+    const openai = getOpenAI();
+    const file = await toFile(audio, filename, mime ? { type: mime } : undefined);
+    const resp: any = await openai.audio.transcriptions.create({ file, model: LIVE_TRANSCRIBE_MODEL } as any);
+    return { provider: "openai", model: LIVE_TRANSCRIBE_MODEL, text: String(resp?.text ?? "").trim() };
+  },
+};
+
+// --- Local stand-in ----------------------------------------------------------
+// Deterministic: the same bytes always yield the same transcript, so tests and
+// downstream scoring are reproducible without any network access.
+const LOCAL_SCRIPT: Array<[string, string]> = [
+  ["A", "Hi, it's Sam from Gravix. I'll be quick: the reason for my call is how your team reviews sales calls today. Do you have two minutes?"],
+  ["B", "Sure, two minutes."],
+  ["A", "How do you currently coach reps after a call, and what does that cost you in manager time each week?"],
+  ["B", "Honestly it's ad hoc. Managers listen to maybe one call a week per rep."],
+  ["A", "What impact does that have on ramp time for new hires?"],
+  ["B", "It's slow, probably four months before they hit quota. But this sounds expensive, and we don't have budget until next quarter."],
+  ["A", "Totally fair. If it cut ramp by even a month, that's roughly 20% more revenue per new hire. Who else would weigh in on a decision like this?"],
+  ["B", "Our VP of Sales would need to sign off."],
+  ["A", "Makes sense. Shall we book 30 minutes with your VP on Thursday at 10 to walk through a pilot?"],
+  ["B", "Thursday at 10 works. Send me the invite."],
+];
+
+// Live chunks: ~2.5 words per second of audio, walking the rep's lines of
+// the script from a position derived from the bytes.
+const LOCAL_REP_WORDS = LOCAL_SCRIPT.filter(([speaker]) => speaker === "A")
+  .flatMap(([, text]) => text.split(/\s+/));
+
+const localProvider: TranscriptionProvider = {
+  name: "local",
+  async transcribeChunk({ audio }) {
+    const words = Math.max(1, Math.min(40, Math.round((audio.length / 16_000) * 2.5)));
+    let start = 0;
+    for (let i = 0; i < Math.min(audio.length, 256); i++) start = (start * 31 + audio[i]) % LOCAL_REP_WORDS.length;
+    const text = Array.from({ length: words }, (_, i) => LOCAL_REP_WORDS[(start + i) % LOCAL_REP_WORDS.length]).join(" ");
+    return { provider: "local", model: "local-script:v1", text };
+  },
+  async transcribe({ audio }) {
+    // Spread the script across a pseudo-duration derived from the payload size
+    // (~16kB/s, clamped 30s..15min) so timestamps scale with the recording.
+    const durationSec = Math.max(30, Math.min(900, Math.round(audio.length / 16_000)));
+    const totalWords = LOCAL_SCRIPT.reduce((n, [, t]) => n + t.split(/\s+/).length, 0);
+
+    let cursor = 0;
+    const segments = assignSpeakerRoles(
+      LOCAL_SCRIPT.map(([speaker, text]) => {
+        const len = (text.split(/\s+/).length / totalWords) * durationSec;
+        const seg = { speaker, start: round2(cursor), end: round2(cursor + len), text };
+        cursor += len;
+        return seg;
+      })
+    );
+
+    return {
+      provider: "local",
+      model: "local-script:v1",
+      durationSec,
+      text: segments.map((s) => s.text).join(" "),
+      segments,
+    };
+  },
+};
+
+const PROVIDERS = new Map<string, TranscriptionProvider>([
+  [openaiProvider.name, openaiProvider],
+  [localProvider.name, localProvider],
+]);
+
+/** Plug in an additional provider (e.g. Deepgram) without touching the worker. */
+export function registerTranscriptionProvider(provider: TranscriptionProvider) {
+  PROVIDERS.set(provider.name, provider);
+}
+
+export function getTranscriptionProvider(name?: string | null): TranscriptionProvider {
+  const wanted = String(name || process.env.TRANSCRIBE_PROVIDER || "").trim().toLowerCase()
+    || (process.env.OPENAI_API_KEY ? "openai" : "local");
+  const provider = PROVIDERS.get(wanted);
+  if (!provider) throw new Error(`unknown_transcribe_provider:${wanted}`);
+  return provider;
+}
+
+/**
+ * Transcribe one live chunk. Providers without transcribeChunk fall back to a
+ * full transcription, joined into plain text.
+ */
+export async function transcribeLiveChunk(
+  input: TranscriptionInput,
+  provider: TranscriptionProvider = getTranscriptionProvider()
+): Promise<ChunkTranscript> {
+  if (provider.transcribeChunk) return provider.transcribeChunk(input);
+  const t = await provider.transcribe(input);
+  return { provider: t.provider, model: t.model, text: t.text.trim() };
+}
+
+/** Replace the stored segments for a call (re-transcription is idempotent). */
+export async function saveTranscript(supabase: SupabaseClient, callId: string, transcript: Transcript) {
+  const { error: delErr } = await supabase
+    .from("call_transcript_segments")
+    .delete()
+    .eq("call_id", callId);
+  if (delErr) throw new Error(`transcript clear failed: ${delErr.message}`);
+
+  const { segments: redacted, report } = redactSegments(transcript.segments);
+  if (transcript.segments.length) {
+    const rows = transcript.segments.map((s, idx) => ({
+      call_id: callId,
+      idx,
+      speaker: s.speaker,
+      role: s.role,
+      start_sec: s.start,
+      end_sec: s.end,
+      text: s.text,
+      text_redacted: redacted[idx].text,
+    }));
+    const { error } = await supabase.from("call_transcript_segments").insert(rows);
+    if (error) throw new Error(`transcript insert failed: ${error.message}`);
+  }
+
+  const { error: repErr } = await supabase.from("calls").update({ pii_report: report }).eq("id", callId);
+  if (repErr) console.warn("[transcription] pii report save failed:", repErr.message);
+}
+
+/**
+ * Load a call's segments in playback order (empty when not transcribed yet).
+ * `redacted` returns the PII-redacted text (redacting on the fly for rows
+ * saved before text_redacted existed) — use it for anything sent to an LLM.
+ */
+export async function loadTranscriptSegments(
+  supabase: SupabaseClient,
+  callId: string,
+  opts: { redacted?: boolean } = {}
+): Promise<TranscriptSegment[]> {
+  const { data, error } = await supabase
+    .from("call_transcript_segments")
+    .select(
+      opts.redacted
+        ? "speaker, role, start_sec, end_sec, text, text_redacted"
+        : "speaker, role, start_sec, end_sec, text"
+    )
+    .eq("call_id", callId)
+    .order("idx", { ascending: true })
+    .limit(5000);
+  if (error) throw new Error(`transcript load failed: ${error.message}`);
+
+  return (data || []).map((r: any) => ({
+    speaker: String(r.speaker),
+    role: (r.role || "unknown") as SpeakerRole,
+    start: Number(r.start_sec) || 0,
+    end: Number(r.end_sec) || 0,
+    text: !opts.redacted
+      ? String(r.text || "")
+      : r.text_redacted != null
+        ? String(r.text_redacted)
+        : redactText(String(r.text || "")).text,
+  }));
+}
+
+/**
+ * Download a call's audio from storage, run it through the configured provider
+ * and persist the diarised segments. Returns the transcript for job results.
+ * Pass `audio` (e.g. the normalised copy from lib/audio) to skip the download.
+ */
+export async function transcribeCall(opts: {
+  supabase: SupabaseClient;
+  bucket: string;
+  callId: string;
+  storagePath: string;
+  mime?: string | null;
+  audio?: Buffer;
+  filename?: string;
+  provider?: TranscriptionProvider;
+}): Promise<Transcript> {
+  const { supabase, bucket, callId, storagePath, mime } = opts;
+
+  let audio = opts.audio;
+  if (!audio) {
+    const { data: blob, error } = await supabase.storage.from(bucket).download(storagePath);
+    if (error || !blob) throw new Error(`audio download failed: ${error?.message || "no_data"}`);
+    audio = Buffer.from(await blob.arrayBuffer());
+  }
+
+  const provider = opts.provider || getTranscriptionProvider();
+  const transcript = await provider.transcribe({
+    audio,
+    filename: opts.filename || storagePath.split("/").pop() || `${callId}.wav`,
+    mime: mime || null,
+  });
+
+  await saveTranscript(supabase, callId, transcript);
+  return transcript;
+}
@@ -0,0 +1,120 @@
+// src/lib/tts.ts
+import { getOpenAI } from "./openai";
+import { probeAudio } from "./audio";
+
+// ---------------------------------------------
+// Text-to-speech for voice sparring (the buyer's side)
+//
+// Providers (TTS_PROVIDER):
+//   - openai → TTS_MODEL (default gpt-4o-mini-tts), TTS_VOICE (default alloy)
+//   - local  → silent 16 kHz mono WAV sized to the text (no network), for
+//              tests + local dev
+//
+// Default: openai when OPENAI_API_KEY is set, otherwise local. Other vendors
+// plug in through registerTtsProvider().
+// ---------------------------------------------
+
+export const TTS_MODEL = process.env.TTS_MODEL || "gpt-4o-mini-tts";
+const TTS_VOICE = process.env.TTS_VOICE || "alloy";
+
+export type SpeechPace = "slow" | "normal" | "fast";
+
+export type SpeechInput = {
+  text: string;
+  voice?: string | null;
+  pace?: SpeechPace | null;
+};
+
+export type Speech = {
+  provider: string;
+  model: string;
+  audio: Buffer;
+  mime: string;
+  durationMs: number;
+};
+
+export interface TtsProvider {
+  name: string;
+  synthesize(input: SpeechInput): Promise<Speech>;
+}
+
+const WORDS_PER_MINUTE: Record<SpeechPace, number> = { slow: 130, normal: 160, fast: 190 };
+const SPEED: Record<SpeechPace, number> = { slow: 0.9, normal: 1, fast: 1.15 };
+
+/** Rough spoken length of a text at a pace (used when the audio can't be probed). */
+export function estimateSpeechMs(text: string, pace: SpeechPace = "normal") {
+  const words = String(text || "").trim().split(/\s+/).filter(Boolean).length;
+  return Math.round((words / WORDS_PER_MINUTE[pace]) * 60_000);
+}
+
+// --- OpenAI ------------------------------------------------------------------
+const openaiProvider: TtsProvider = {
+  name: "openai",
+  async synthesize({ text, voice, pace }) {
+    const openai = getOpenAI();
+    const resp = await openai.audio.speech.create({
+      model: TTS_MODEL,
+      voice: (voice || TTS_VOICE) as any,
+      input: text,
+      response_format: "wav",
+      speed: SPEED[pace || "normal"],
+    });
+    const audio = Buffer.from(await resp.arrayBuffer());
+    const probed = probeAudio(audio)?.durationSec;
+    return {
+      provider: "openai",
+      model: TTS_MODEL,
+      audio,
+      mime: "audio/wav",
+      durationMs: probed != null ? Math.round(probed * 1000) : estimateSpeechMs(text, pace || "normal"),
+    };
+  },
+};
+
+// --- Local stand-in ----------------------------------------------------------
+const LOCAL_SAMPLE_RATE = 16_000;
+
+function silentWav(durationMs: number): Buffer {
+  const samples = Math.round((durationMs / 1000) * LOCAL_SAMPLE_RATE);
+  const buf = Buffer.alloc(44 + samples * 2);
+  buf.write("RIFF", 0);
+  buf.writeUInt32LE(36 + samples * 2, 4);
+  buf.write("WAVE", 8);
+  buf.write("fmt ", 12);
+  buf.writeUInt32LE(16, 16);
+  buf.writeUInt16LE(1, 20); // PCM
+  buf.writeUInt16LE(1, 22); // mono
+  buf.writeUInt32LE(LOCAL_SAMPLE_RATE, 24);
+  buf.writeUInt32LE(LOCAL_SAMPLE_RATE * 2, 28);
+  buf.writeUInt16LE(2, 32);
+  buf.writeUInt16LE(16, 34);
+  buf.write("data", 36);
+  buf.writeUInt32LE(samples * 2, 40);
+  return buf;
+}
+
+const localProvider: TtsProvider = {
+  name: "local",
+  async synthesize({ text, pace }) {
+    const durationMs = Math.max(300, estimateSpeechMs(text, pace || "normal"));
+    return { provider: "local", model: "local-silence:v1", audio: silentWav(durationMs), mime: "audio/wav", durationMs };
+  },
+};
+
+const PROVIDERS = new Map<string, TtsProvider>([
+  [openaiProvider.name, openaiProvider],
+  [localProvider.name, localProvider],
+]);
+
+/** Plug in an additional provider (e.g. ElevenLabs) without touching the routes. */
+export function registerTtsProvider(provider: TtsProvider) {
+  PROVIDERS.set(provider.name, provider);
+}
+
+export function getTtsProvider(name?: string | null): TtsProvider {
+  const wanted = String(name || process.env.TTS_PROVIDER || "").trim().toLowerCase()
+    || (process.env.OPENAI_API_KEY ? "openai" : "local");
+  const provider = PROVIDERS.get(wanted);
+  if (!provider) throw new Error(`unknown_tts_provider:${wanted}`);
+  return provider;
+}
@@ -0,0 +1,179 @@
+// src/lib/turnClassifier.ts
+import { z } from "zod";
+import { getOpenAI, AI_MODEL } from "./openai";
+import { TURN_LABELS, classifyTurnLabels, type TurnLabel } from "./emotionModel";
+
+// ---------------------------------------------
+// Sparring turn classification
+//
+// Labels a rep message (TURN_LABELS: price talk, empathy, question, …) and
+// the buyer message it answers (sentiment / intent / category). The labels
+// drive the persona's emotion rules and the micro-score signals.
+//
+// The model answers against a strict JSON schema and the reply is
+// re-validated with zod; no API key, a timeout or a bad reply falls back to
+// the keyword heuristic, so drills keep working offline.
+//
+// Env (all optional):
+//   SPARRING_CLASSIFIER             llm (default) | heuristic
+//   SPARRING_CLASSIFIER_MODEL       (default AI_MODEL)
+//   SPARRING_CLASSIFIER_TIMEOUT_MS  (default 4000)
+// ---------------------------------------------
+
+const CLASSIFIER_MODE = String(process.env.SPARRING_CLASSIFIER || "llm").trim().toLowerCase();
+const CLASSIFIER_MODEL = process.env.SPARRING_CLASSIFIER_MODEL || AI_MODEL;
+const CLASSIFIER_TIMEOUT_MS = Number(process.env.SPARRING_CLASSIFIER_TIMEOUT_MS || 4000);
+
+export const BUYER_SENTIMENTS = ["positive", "neutral", "negative"] as const;
+export const BUYER_INTENTS = ["curious", "buying", "resisting", "frustrated"] as const;
+export const BUYER_CATEGORIES = ["price", "timing", "authority", "confusion", "none"] as const;
+
+export const BuyerClassificationSchema = z.object({
+  sentiment: z.enum(BUYER_SENTIMENTS),
+  intent: z.enum(BUYER_INTENTS),
+  category: z.enum(BUYER_CATEGORIES),
+});
+export type BuyerClassification = z.infer<typeof BuyerClassificationSchema>;
+
+const LlmReplySchema = z.object({
+  rep_labels: z.array(z.enum(TURN_LABELS)).max(TURN_LABELS.length),
+  buyer: BuyerClassificationSchema,
+});
+
+export type TurnClassification = {
+  source: "llm" | "heuristic";
+  model: string;
+  labels: TurnLabel[];
+  buyer: BuyerClassification | null; // null when there was no buyer message
+};
+
+// --- Heuristic (offline) path -------------------------------------------------
+
+const BUYER_PHRASES: Record<Exclude<BuyerClassification["category"], "none">, RegExp> = {
+  price: /\b(expensive|too high|price|cost|budget|roi|afford)\b/i,
+  timing: /\b(think about it|send (me )?(some )?info|email me|later|not now|next quarter|next year|busy)\b/i,
+  authority: /\b(my boss|the board|procurement|legal|sign[- ]off|decision maker|committee)\b/i,
+  confusion: /\b(not sure what|don'?t understand|confused|what do you mean|lost me)\b/i,
+};
+
+export function heuristicBuyerClassification(text: string): BuyerClassification {
+  const t = text || "";
+  const category =
+    (Object.keys(BUYER_PHRASES) as (keyof typeof BUYER_PHRASES)[]).find((k) => BUYER_PHRASES[k].test(t)) ?? "none";
+  const negative = /\b(no|not|never|won'?t|can'?t|too (expensive|high|much)|waste|annoy|frustrat\w*|ridiculous|stop)\b/i.test(t);
+  const positive = /\b(great|good|love|interesting|makes sense|sounds good|yes|sure)\b/i.test(t);
+  const frustrated = /\b(annoy\w*|frustrat\w*|ridiculous|waste of (my )?time|stop)\b/i.test(t);
+  const buying = /\b(how do we start|next step|send (me )?the contract|where do i sign|pricing for|trial)\b/i.test(t);
+
+  return {
+    sentiment: negative && !positive ? "negative" : positive && !negative ? "positive" : "neutral",
+    intent: frustrated ? "frustrated" : buying ? "buying" : category !== "none" || negative ? "resisting" : "curious",
+    category,
+  };
+}
+
+export function heuristicClassifyTurn(repText: string, buyerText?: string | null): TurnClassification {
+  return {
+    source: "heuristic",
+    model: "heuristic",
+    labels: classifyTurnLabels(repText),
+    buyer: buyerText ? heuristicBuyerClassification(buyerText) : null,
+  };
+}
+
+// --- LLM path ----------------------------------------------------------------
+
+function buildJsonSchema() {
+  return {
+    name: "SparringTurnClassification",
+    schema: {
+      type: "object",
+      properties: {
+        rep_labels: { type: "array", items: { type: "string", enum: TURN_LABELS } },
+        buyer: {
+          type: "object",
+          properties: {
+            sentiment: { type: "string", enum: BUYER_SENTIMENTS },
+            intent: { type: "string", enum: BUYER_INTENTS },
+            category: { type: "string", enum: BUYER_CATEGORIES },
+          },
+          required: ["sentiment", "intent", "category"],
+          additionalProperties: false,
+        },
+      },
+      required: ["rep_labels", "buyer"],
+      additionalProperties: false,
+    },
+    strict: true,
+  };
+}
+
+const SYSTEM_PROMPT =
+  "You label turns in a sales role-play. For the REP message, list every label that applies: " +
+  "price (talks about price/cost/budget/ROI), acknowledgement (thanks or agrees), empathy (apologises or validates feelings), " +
+  "stall (defers: circle back, think about it, email), hard_close (pressure to sign now), salesy (deals, discounts, offers), " +
+  "question (asks the buyer something), value (concrete outcome: saves, increases, reduces, payback), " +
+  "next_step (proposes a meeting, trial or concrete next step). " +
+  "If no rep message is given, return no labels. " +
+  "For the BUYER message give sentiment, intent and the main concern category (none if there is none; " +
+  "if no buyer message is given, classify as neutral / curious / none). Output must match the JSON schema exactly.";
+
+async function llmClassifyTurn(repText: string, buyerText: string | null): Promise<TurnClassification> {
+  const openai = getOpenAI();
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), CLASSIFIER_TIMEOUT_MS);
+  try {
+    const resp = await openai.chat.completions.create(
+      {
+        model: CLASSIFIER_MODEL,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          {
+            role: "user",
+            content:
+              `BUYER: ${buyerText ? JSON.stringify(buyerText) : "(none)"}\n` +
+              `REP: ${repText ? JSON.stringify(repText) : "(none)"}`,
+          },
+        ],
+        response_format: { type: "json_schema", json_schema: buildJsonSchema() as any },
+        temperature: 0,
+        max_tokens: 120,
+      },
+      { signal: ctrl.signal }
+    );
+
+    const raw = resp.choices?.[0]?.message?.content;
+    if (!raw) throw new Error("no_model_content");
+    const parsed = LlmReplySchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) throw new Error("invalid_classification");
+
+    return {
+      source: "llm",
+      model: CLASSIFIER_MODEL,
+      labels: [...new Set(parsed.data.rep_labels)],
+      buyer: buyerText ? parsed.data.buyer : null,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Classify a rep turn (and the buyer message it answers). Never throws:
+ * anything short of a valid model reply returns the heuristic result.
+ * Pass PII-redacted text when the org has redaction on.
+ */
+export async function classifyTurn(opts: { repText?: string | null; buyerText?: string | null }): Promise<TurnClassification> {
+  const repText = String(opts.repText || "").slice(0, 4000);
+  const buyerText = opts.buyerText ? String(opts.buyerText).slice(0, 4000) : null;
+
+  if (CLASSIFIER_MODE === "heuristic" || !process.env.OPENAI_API_KEY) {
+    return heuristicClassifyTurn(repText, buyerText);
+  }
+  try {
+    return await llmClassifyTurn(repText, buyerText);
+  } catch (e: any) {
+    console.warn("[turnClassifier] LLM classification failed, using heuristic:", e?.message || e);
+    return heuristicClassifyTurn(repText, buyerText);
+  }
+}
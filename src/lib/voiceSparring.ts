@@ -0,0 +1,192 @@
+// src/lib/voiceSparring.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { probeAudio } from "./audio";
+import type { DifficultyLevel, EmotionalState, PersonaConfig } from "../personas";
+
+// ---------------------------------------------
+// Voice sparring
+//
+// A voice session (meta.channel = "voice") receives the rep's microphone as
+// short audio chunks, each tagged with a sequence number and its offset on
+// the session timeline. Chunks are transcribed as they arrive and collected
+// in meta.voice.pending until the rep finishes the utterance (final chunk) —
+// or the buyer cuts in: personas with interruptionLevel medium/high stop
+// listening once the rep has talked past a threshold (sooner when angry).
+// Either way the utterance becomes a normal rep turn, the buyer reply is
+// synthesised (lib/tts) and both turns get their audio offsets in
+// sparring_turn_audio.
+// ---------------------------------------------
+
+export type InterruptionLevel = "low" | "medium" | "high";
+
+export type VoiceChunk = {
+  seq: number;
+  offset_ms: number;   // session timeline
+  duration_ms: number;
+  text: string;
+};
+
+export type PendingUtterance = {
+  started_ms: number;
+  ended_ms: number;
+  chunks: VoiceChunk[];
+};
+
+export type VoiceMeta = {
+  last_seq: number;               // highest chunk seq accepted (re-sends are ignored)
+  pending: PendingUtterance | null;
+  cursor_ms: number;              // where the buyer's last reply finished playing
+};
+
+export type TurnAudio = {
+  turn_id: string;
+  session_id: string;
+  role: "user" | "assistant";
+  start_ms: number;
+  end_ms: number;
+  interrupted: boolean;           // user: cut off by the buyer · assistant: cut in
+  provider: string | null;        // stt provider (user) / tts provider (assistant)
+  storage_path: string | null;    // synthesised buyer audio, when stored
+};
+
+// Bytes per second assumed when a chunk's header carries no duration
+// (live WebM/Opus from browsers usually doesn't).
+const FALLBACK_BYTES_PER_SEC = 16_000;
+
+// How long the rep can talk before the buyer cuts in.
+const INTERRUPT_AFTER: Record<Exclude<InterruptionLevel, "low">, { ms: number; words: number }> = {
+  high: { ms: 6_000, words: 18 },
+  medium: { ms: 12_000, words: 35 },
+};
+const ANGRY_AT = 60;
+const ANGRY_FACTOR = 0.6;
+const MIN_WORDS_BEFORE_INTERRUPT = 4;
+
+export function emptyVoiceMeta(): VoiceMeta {
+  return { last_seq: -1, pending: null, cursor_ms: 0 };
+}
+
+export function readVoiceMeta(meta: any): VoiceMeta {
+  const v = meta?.voice;
+  if (!v || typeof v !== "object") return emptyVoiceMeta();
+  return {
+    last_seq: Number.isInteger(v.last_seq) ? v.last_seq : -1,
+    pending: v.pending && Array.isArray(v.pending.chunks) ? v.pending : null,
+    cursor_ms: Number(v.cursor_ms) || 0,
+  };
+}
+
+/** Chunk length: from the audio header, else the client's figure, else the byte count. */
+export function chunkDurationMs(audio: Buffer, clientMs?: number | null): number {
+  const probed = audio.length ? probeAudio(audio)?.durationSec : null;
+  if (probed != null && Number.isFinite(probed)) return Math.round(probed * 1000);
+  if (clientMs != null && Number.isFinite(clientMs) && clientMs >= 0) return Math.round(clientMs);
+  return Math.round((audio.length / FALLBACK_BYTES_PER_SEC) * 1000);
+}
+
+export function appendChunk(voice: VoiceMeta, chunk: VoiceChunk): VoiceMeta {
+  const pending = voice.pending ?? { started_ms: chunk.offset_ms, ended_ms: chunk.offset_ms, chunks: [] };
+  return {
+    ...voice,
+    last_seq: Math.max(voice.last_seq, chunk.seq),
+    pending: {
+      started_ms: Math.min(pending.started_ms, chunk.offset_ms),
+      ended_ms: Math.max(pending.ended_ms, chunk.offset_ms + chunk.duration_ms),
+      chunks: [...pending.chunks, chunk],
+    },
+  };
+}
+
+export function utteranceText(pending: PendingUtterance | null): string {
+  if (!pending) return "";
+  return [...pending.chunks]
+    .sort((a, b) => a.seq - b.seq)
+    .map((c) => c.text.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** The persona's interruptionLevel with the difficulty modifier applied. */
+export function interruptionLevelFor(persona: PersonaConfig, difficulty: string): InterruptionLevel {
+  return (
+    persona.difficulty?.[difficulty as DifficultyLevel]?.interruptionLevel ??
+    persona.behaviour.interruptionLevel ??
+    "low"
+  );
+}
+
+/** Whether the buyer cuts in on the rep's utterance so far. Low never interrupts. */
+export function shouldBuyerInterrupt(opts: {
+  level: InterruptionLevel;
+  pending: PendingUtterance | null;
+  emotion?: EmotionalState | null;
+}): boolean {
+  if (opts.level === "low" || !opts.pending) return false;
+  const words = utteranceText(opts.pending).split(/\s+/).filter(Boolean).length;
+  if (words < MIN_WORDS_BEFORE_INTERRUPT) return false;
+
+  const limit = INTERRUPT_AFTER[opts.level];
+  const factor = (opts.emotion?.anger ?? 0) >= ANGRY_AT ? ANGRY_FACTOR : 1;
+  const talkedMs = opts.pending.ended_ms - opts.pending.started_ms;
+  return talkedMs >= limit.ms * factor || words >= limit.words * factor;
+}
+
+/** Best-effort: the timeline is an extra, a failed write never fails the turn. */
+export async function saveTurnAudio(supabase: SupabaseClient, rows: TurnAudio[]) {
+  if (!rows.length) return;
+  const { error } = await supabase.from("sparring_turn_audio").upsert(rows, { onConflict: "turn_id" });
+  if (error) console.warn("[voiceSparring] turn audio save failed:", error.message);
+}
+
+/** Store the buyer's synthesised reply; returns the storage path or null. */
+export async function storeBuyerAudio(
+  supabase: SupabaseClient,
+  opts: { bucket: string; sessionId: string; turnId: string; audio: Buffer; mime: string }
+): Promise<string | null> {
+  const path = `sparring/${opts.sessionId}/${opts.turnId}.wav`;
+  const { error } = await supabase.storage
+    .from(opts.bucket)
+    .upload(path, opts.audio, { contentType: opts.mime, upsert: true });
+  if (error) {
+    console.warn("[voiceSparring] buyer audio upload failed:", error.message);
+    return null;
+  }
+  return path;
+}
+
+/** The session's turns in order, with audio offsets where the turn was spoken. */
+export async function loadVoiceTimeline(supabase: SupabaseClient, sessionId: string) {
+  const [{ data: turns, error: tErr }, { data: audio, error: aErr }] = await Promise.all([
+    supabase
+      .from("sparring_turns")
+      .select("id, role, text, created_at")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("sparring_turn_audio")
+      .select("turn_id, start_ms, end_ms, interrupted, provider, storage_path")
+      .eq("session_id", sessionId),
+  ]);
+  if (tErr) throw new Error(`Failed to load turns: ${tErr.message}`);
+  if (aErr) throw new Error(`Failed to load turn audio: ${aErr.message}`);
+
+  const byTurn = new Map((audio || []).map((a: any) => [a.turn_id, a]));
+  return (turns || []).map((t: any) => {
+    const a = byTurn.get(t.id);
+    return {
+      id: t.id,
+      role: t.role,
+      text: t.text,
+      created_at: t.created_at,
+      audio: a
+        ? {
+            start_ms: a.start_ms,
+            end_ms: a.end_ms,
+            interrupted: !!a.interrupted,
+            provider: a.provider ?? null,
+            has_audio: !!a.storage_path,
+          }
+        : null,
+    };
+  });
+}
@@ -1,4 +1,5 @@
 // src/personas.ts
+import type { EmotionModel } from "./lib/emotionModel";
 
 export type DifficultyLevel = "easy" | "normal" | "hard" | "nightmare";
 
@@ -15,17 +16,25 @@ export type PersonaBehaviour = {
   interruptionLevel: "low" | "medium" | "high";
   pricePressure: "low" | "medium" | "high";
 
-  // Hangup behaviour (text mode only – voice will reuse these flags later)
+  // Hangup behaviour (text and voice; voice also uses interruptionLevel to cut in)
   hangupChanceBase: number;  // 0–1 base chance on bad handling
   patienceTurns: number;     // approx turns before they mentally check out
 };
 
 export type DifficultyModifier = {
+  replyLength?: "short" | "medium" | "long";
   objectionFrequency?: "low" | "medium" | "high";
   interruptionLevel?: "low" | "medium" | "high";
   pricePressure?: "low" | "medium" | "high";
   hangupMultiplier?: number;     // multiply hangupChanceBase
   patienceOffset?: number;       // add/subtract from patienceTurns
+  emotionOffset?: Partial<EmotionalState>; // added to the starting mood
+};
+
+export type EmotionalState = {
+  anger: number;    // 0–100
+  boredom: number;  // 0–100
+  trust: number;    // 0–100
 };
 
 export type PersonaConfig = {
@@ -37,6 +46,14 @@ export type PersonaConfig = {
   modes: GameMode[];
   behaviour: PersonaBehaviour;
   difficulty: Record<DifficultyLevel, DifficultyModifier>;
+
+  // Emotional model (lib/emotionModel)
+  initialEmotion?: EmotionalState; // starting mood for a drill (default 10/10/30)
+  emotion?: EmotionModel;          // persona-specific rules on top of the shared ones
+
+  // Org-defined personas (services/customPersonas) only
+  orgId?: string | null;
+  productContext?: string;         // what the buyer knows about the product / their situation
 };
 
 export const PERSONAS: PersonaConfig[] = [
@@ -58,6 +75,13 @@ export const PERSONAS: PersonaConfig[] = [
       hangupChanceBase: 0.15,
       patienceTurns: 10,
     },
+    initialEmotion: { anger: 25, boredom: 20, trust: 30 },
+    emotion: {
+      rules: [
+        // Talk of price / ROI spikes frustration
+        { id: "price_talk", labels: ["price"], delta: { anger: 5 } },
+      ],
+    },
     difficulty: {
       easy: {
         objectionFrequency: "medium",
@@ -103,6 +127,13 @@ export const PERSONAS: PersonaConfig[] = [
       hangupChanceBase: 0.25,
       patienceTurns: 8,
     },
+    initialEmotion: { anger: 45, boredom: 15, trust: 15 },
+    emotion: {
+      rules: [
+        // Heats up every turn, faster on harder difficulties
+        { id: "short_fuse", delta: { anger: 2 }, scale: true },
+      ],
+    },
     difficulty: {
       easy: {
         objectionFrequency: "medium",
@@ -121,6 +152,7 @@ export const PERSONAS: PersonaConfig[] = [
         patienceOffset: -2,
       },
       nightmare: {
+        emotionOffset: { anger: 10 },
         objectionFrequency: "high",
         interruptionLevel: "high",
         hangupMultiplier: 2,
@@ -146,6 +178,14 @@ export const PERSONAS: PersonaConfig[] = [
       hangupChanceBase: 0.2,
       patienceTurns: 7,
     },
+    initialEmotion: { anger: 15, boredom: 45, trust: 20 },
+    emotion: {
+      rules: [
+        // Gets bored quickly, more so as the drill drags on
+        { id: "disengaged", delta: { boredom: 2 } },
+        { id: "disengaged_late", minTurns: 7, delta: { boredom: 1 } },
+      ],
+    },
     difficulty: {
       easy: {
         replyLength: "medium",
@@ -163,6 +203,7 @@ export const PERSONAS: PersonaConfig[] = [
         patienceOffset: -2,
       },
       nightmare: {
+        emotionOffset: { boredom: 10 },
         objectionFrequency: "high",
         hangupMultiplier: 2,
         patienceOffset: -3,
@@ -187,6 +228,7 @@ export const PERSONAS: PersonaConfig[] = [
       hangupChanceBase: 0.18,
       patienceTurns: 9,
     },
+    initialEmotion: { anger: 20, boredom: 20, trust: 35 },
     difficulty: {
       easy: {
         objectionFrequency: "medium",
@@ -228,6 +270,7 @@ export const PERSONAS: PersonaConfig[] = [
       hangupChanceBase: 0.16,
       patienceTurns: 10,
     },
+    initialEmotion: { anger: 20, boredom: 25, trust: 25 },
     difficulty: {
       easy: {
         objectionFrequency: "low",
@@ -253,6 +296,10 @@ export const PERSONAS: PersonaConfig[] = [
   },
 ];
 
+export function isBuiltInPersonaId(id: string | null | undefined): boolean {
+  return !!id && PERSONAS.some((p) => p.id === id);
+}
+
 export function getPersonaConfig(id: string | null | undefined): PersonaConfig {
   const fallback = PERSONAS[0];
   if (!id) return fallback;
@@ -269,7 +316,7 @@ export function buildPersonaBehaviourSummary(
   const parts: string[] = [];
   parts.push(`Tone: ${beh.tone}.`);
   parts.push(
-    `Reply length: ${beh.replyLength} sentences, pace ${beh.pace}.`
+    `Reply length: ${mod.replyLength || beh.replyLength} sentences, pace ${beh.pace}.`
   );
   parts.push(
     `Objection frequency: ${mod.objectionFrequency || beh.objectionFrequency}, interruption level: ${
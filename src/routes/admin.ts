@@ -4,6 +4,31 @@ import { Router } from "express";
 import { createClient } from "@supabase/supabase-js";
 import { buildScoreSummaryBlocks } from "../lib/slackBlocks";
 import { getAdminConfig, patchAdminConfig } from "../services/adminConfig";
+import { cancelJob, listJobs, retryJob } from "../lib/jobQueue";
+import {
+  cancelRescoreBatch,
+  compareRescoreBatch,
+  createRescoreBatch,
+  getRescoreProgress,
+  listRescoreBatches,
+  selectRescoreCalls,
+  type RescoreFilters,
+} from "../services/rescore";
+import { buildCalibrationReport, parseScorerKey } from "../services/calibration";
+import { exportOverrideDataset } from "../services/scoreOverrides";
+import { listDuplicateGroups, mergeDuplicates } from "../services/uploadDedupe";
+import {
+  RetentionPolicySchema,
+  eraseSubject,
+  getDeletionReceipt,
+  getRetentionPolicy,
+  runRetentionPurge,
+  setRetentionPolicy,
+  verifyDeletionReceipt,
+  type ErasureSubject,
+} from "../services/retention";
+import { PrivacySettingsSchema, getPrivacySettings, piiRedactionReport, setPrivacySettings } from "../services/privacy";
+import { supabaseAdmin } from "../lib/supabase";
 export const adminRouter = Router();
 
 // --- Roles (lean RBAC v1) -------------------------------------
@@ -389,4 +414,516 @@ adminRouter.patch("/reps/:id", requireManager, async (req: any, res: any) => {
   }
 });
 
+/* ----------------------------------------------------------------
+   Jobs (durable queue) — limited to the manager's own org (reps.org_id):
+   jobs of its users or its calls; anything else is job_not_found.
+   GET  /v1/admin/jobs?status=&kind=&callId=&limit=
+   POST /v1/admin/jobs/:id/retry   (failed | dead | cancelled → queued)
+   POST /v1/admin/jobs/:id/cancel  (queued | failed | running → cancelled)
+----------------------------------------------------------------- */
+const JOB_STATUSES = ["queued", "running", "done", "failed", "dead", "cancelled"];
+
+function jobErrorStatus(msg: string) {
+  if (msg === "job_not_found") return 404;
+  if (msg === "job_not_retryable" || msg === "job_not_cancellable" || msg === "job_state_changed") return 409;
+  return 500;
+}
+
+adminRouter.get("/jobs", requireManager, async (req: any, res: any) => {
+  try {
+    const status = req.query.status ? String(req.query.status) : null;
+    if (status && !JOB_STATUSES.includes(status)) {
+      return res.status(400).json({ ok: false, error: "invalid_status" });
+    }
+
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const jobs = await listJobs(supabaseAdmin, {
+      orgId,
+      status,
+      kind: req.query.kind ? String(req.query.kind) : null,
+      callId: req.query.callId ? String(req.query.callId) : null,
+      limit: Number(req.query.limit || 50),
+    });
+
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, jobs });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_jobs_list_failed" });
+  }
+});
+
+adminRouter.post("/jobs/:id/retry", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const job = await retryJob(supabaseAdmin, orgId, String(req.params.id));
+    return res.json({ ok: true, job });
+  } catch (e: any) {
+    const msg = e?.message || "admin_job_retry_failed";
+    return res.status(jobErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+adminRouter.post("/jobs/:id/cancel", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const job = await cancelJob(supabaseAdmin, orgId, String(req.params.id));
+    return res.json({ ok: true, job });
+  } catch (e: any) {
+    const msg = e?.message || "admin_job_cancel_failed";
+    return res.status(jobErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+/* ----------------------------------------------------------------
+   Batch re-score (rubric migrations)
+   POST /v1/admin/rescore
+     Body: { from?, to?, repId?, rubricVersion?, rubricId?,
+             targetRubricId?, model?, shadow?, dryRun? }
+     Always limited to the manager's own org (reps.org_id); an orgId for
+     another org is refused. from/to filter calls.created_at;
+     rubricVersion/rubricId filter the rubric the call is currently scored
+     with. Target defaults to the org's active rubric. model + shadow score with a candidate model
+     without touching live scores (see /calibration).
+   GET  /v1/admin/rescore              → recent batches
+   GET  /v1/admin/rescore/:id          → batch + progress
+   GET  /v1/admin/rescore/:id/compare  → before/after per call
+   POST /v1/admin/rescore/:id/cancel   → cancel jobs not yet started
+----------------------------------------------------------------- */
+const RESCORE_UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function rescoreErrorStatus(msg: string) {
+  if (msg === "batch_not_found" || msg === "rubric_not_found") return 404;
+  if (msg === "no_matching_calls" || msg === "rubric_org_mismatch") return 400;
+  return 500;
+}
+
+adminRouter.post("/rescore", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const b = req.body ?? {};
+    if (b.orgId !== undefined && String(b.orgId) !== orgId) {
+      return res.status(403).json({ ok: false, error: "forbidden" });
+    }
+
+    for (const k of ["from", "to"]) {
+      if (b[k] !== undefined && Number.isNaN(new Date(b[k]).getTime())) {
+        return res.status(400).json({ ok: false, error: `${k} must be an ISO date` });
+      }
+    }
+    for (const k of ["repId", "rubricId", "targetRubricId"]) {
+      if (b[k] !== undefined && !RESCORE_UUID_RE.test(String(b[k]))) {
+        return res.status(400).json({ ok: false, error: `${k} must be a uuid` });
+      }
+    }
+
+    const filters: RescoreFilters = {
+      from: b.from ? new Date(b.from).toISOString() : null,
+      to: b.to ? new Date(b.to).toISOString() : null,
+      repId: b.repId ?? null,
+      orgId,
+      rubricVersion: b.rubricVersion ? String(b.rubricVersion) : null,
+      rubricId: b.rubricId ?? null,
+    };
+
+    if (b.dryRun) {
+      const { calls, truncated } = await selectRescoreCalls(filters);
+      return res.json({ ok: true, dryRun: true, matched: calls.length, truncated, sample: calls.slice(0, 10) });
+    }
+
+    const requestedBy = String(req.header("x-user-id") || "").trim() || null;
+    const { batch, truncated } = await createRescoreBatch({
+      filters,
+      targetRubricId: b.targetRubricId ?? null,
+      model: b.model ? String(b.model).trim() : null,
+      shadow: !!b.shadow,
+      requestedBy,
+    });
+    return res.status(202).json({ ok: true, batch, truncated });
+  } catch (e: any) {
+    const msg = e?.message || "admin_rescore_failed";
+    return res.status(rescoreErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+adminRouter.get("/rescore", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    const batches = await listRescoreBatches(orgId, Number(req.query.limit || 20));
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, batches });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_rescore_list_failed" });
+  }
+});
+
+adminRouter.get("/rescore/:id", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    const { batch, progress } = await getRescoreProgress(orgId, String(req.params.id));
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, batch, progress });
+  } catch (e: any) {
+    const msg = e?.message || "admin_rescore_progress_failed";
+    return res.status(rescoreErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+adminRouter.get("/rescore/:id/compare", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    const limit = Math.min(Math.max(Number(req.query.limit || 500), 1), 2000);
+    const result = await compareRescoreBatch(orgId, String(req.params.id), limit);
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, ...result });
+  } catch (e: any) {
+    const msg = e?.message || "admin_rescore_compare_failed";
+    return res.status(rescoreErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+adminRouter.post("/rescore/:id/cancel", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    const { cancelled } = await cancelRescoreBatch(orgId, String(req.params.id));
+    return res.json({ ok: true, cancelled });
+  } catch (e: any) {
+    const msg = e?.message || "admin_rescore_cancel_failed";
+    return res.status(rescoreErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+/* ----------------------------------------------------------------
+   GET /v1/admin/calibration
+   Query: baseline=<model>[@<rubricVersion>], candidate=…, from?, to?, limit?
+   Limited to the manager's own org. Calls scored by both scorers: per-section deltas, mean absolute
+   difference and rank correlation. Omit baseline/candidate to list
+   the scorers present. Tip: produce candidate scores with a shadow
+   re-score batch (POST /rescore { model, shadow: true }).
+----------------------------------------------------------------- */
+adminRouter.get("/calibration", requireManager, async (req: any, res: any) => {
+  try {
+    const baseline = req.query.baseline ? parseScorerKey(String(req.query.baseline)) : null;
+    const candidate = req.query.candidate ? parseScorerKey(String(req.query.candidate)) : null;
+    if (!!baseline !== !!candidate) {
+      return res.status(400).json({ ok: false, error: "baseline and candidate must be given together" });
+    }
+
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    if (req.query.orgId && String(req.query.orgId) !== orgId) {
+      return res.status(403).json({ ok: false, error: "forbidden" });
+    }
+
+    for (const k of ["from", "to"]) {
+      if (req.query[k] && Number.isNaN(new Date(String(req.query[k])).getTime())) {
+        return res.status(400).json({ ok: false, error: `${k} must be an ISO date` });
+      }
+    }
+
+    const report = await buildCalibrationReport({
+      baseline,
+      candidate,
+      orgId,
+      from: req.query.from ? new Date(String(req.query.from)).toISOString() : null,
+      to: req.query.to ? new Date(String(req.query.to)).toISOString() : null,
+      limit: Number(req.query.limit || 20000),
+    });
+
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, ...report });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_calibration_failed" });
+  }
+});
+
+/* ----------------------------------------------------------------
+   GET /v1/admin/calibration/overrides
+   Query: from?, to?, limit?, format=json|jsonl|csv (manager's own org only)
+   Manager overrides next to the AI score/notes they replaced — the
+   labelled dataset for prompt/rubric tuning. Cleared overrides skipped.
+----------------------------------------------------------------- */
+const OVERRIDE_EXPORT_COLUMNS = [
+  "override_id", "call_id", "org_id", "rep_id", "ai_model", "rubric_version", "rubric_id",
+  "section", "ai_score", "override_score", "delta", "ai_notes", "reason", "author_id", "created_at",
+] as const;
+
+function csvCell(v: any) {
+  if (v == null) return "";
+  const s = Array.isArray(v) ? v.join(" ") : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+adminRouter.get("/calibration/overrides", requireManager, async (req: any, res: any) => {
+  try {
+    const format = String(req.query.format || "json").toLowerCase();
+    if (!["json", "jsonl", "csv"].includes(format)) {
+      return res.status(400).json({ ok: false, error: "format must be json, jsonl or csv" });
+    }
+
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    if (req.query.orgId && String(req.query.orgId) !== orgId) {
+      return res.status(403).json({ ok: false, error: "forbidden" });
+    }
+
+    for (const k of ["from", "to"]) {
+      if (req.query[k] && Number.isNaN(new Date(String(req.query[k])).getTime())) {
+        return res.status(400).json({ ok: false, error: `${k} must be an ISO date` });
+      }
+    }
+
+    const rows = await exportOverrideDataset({
+      orgId,
+      from: req.query.from ? new Date(String(req.query.from)).toISOString() : null,
+      to: req.query.to ? new Date(String(req.query.to)).toISOString() : null,
+      limit: Number(req.query.limit || 10000),
+    });
+
+    res.set("Cache-Control", "no-store");
+    if (format === "json") return res.json({ ok: true, count: rows.length, items: rows });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === "jsonl") {
+      res.set("Content-Type", "application/x-ndjson; charset=utf-8");
+      res.set("Content-Disposition", `attachment; filename="score-overrides-${stamp}.jsonl"`);
+      return res.send(rows.map((r) => JSON.stringify(r)).join("\n") + (rows.length ? "\n" : ""));
+    }
+
+    const lines = [OVERRIDE_EXPORT_COLUMNS.join(",")].concat(
+      rows.map((r: any) => OVERRIDE_EXPORT_COLUMNS.map((c) => csvCell(r[c])).join(","))
+    );
+    res.set("Content-Type", "text/csv; charset=utf-8");
+    res.set("Content-Disposition", `attachment; filename="score-overrides-${stamp}.csv"`);
+    return res.send(lines.join("\n") + "\n");
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_overrides_export_failed" });
+  }
+});
+
+/* ----------------------------------------------------------------
+   Duplicate uploads (same uploader + sha256 within the manager's org)
+   GET  /v1/admin/duplicates?limit=
+     → groups with the canonical call (scored first, then oldest)
+   POST /v1/admin/duplicates/merge
+     Body: { canonicalId, duplicateIds? }  (omit ids = whole group)
+----------------------------------------------------------------- */
+adminRouter.get("/duplicates", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    if (req.query.orgId && String(req.query.orgId) !== orgId) {
+      return res.status(403).json({ ok: false, error: "forbidden" });
+    }
+
+    const groups = await listDuplicateGroups({ orgId, limit: Number(req.query.limit || 100) });
+    const duplicateCalls = groups.reduce((n, g) => n + g.duplicates.length, 0);
+
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, groups: groups.length, duplicate_calls: duplicateCalls, items: groups });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_duplicates_failed" });
+  }
+});
+
+adminRouter.post("/duplicates/merge", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const b = req.body ?? {};
+    const canonicalId = String(b.canonicalId || "");
+    if (!RESCORE_UUID_RE.test(canonicalId)) return res.status(400).json({ ok: false, error: "canonicalId must be a uuid" });
+
+    const duplicateIds = b.duplicateIds == null ? null : b.duplicateIds;
+    if (
+      duplicateIds != null &&
+      (!Array.isArray(duplicateIds) || !duplicateIds.every((id: any) => RESCORE_UUID_RE.test(String(id))))
+    ) {
+      return res.status(400).json({ ok: false, error: "duplicateIds must be an array of uuids" });
+    }
+
+    const result = await mergeDuplicates({ orgId, canonicalId, duplicateIds: duplicateIds?.map(String) ?? null });
+    return res.json({ ok: true, ...result });
+  } catch (e: any) {
+    const msg = e?.message || "admin_duplicates_merge_failed";
+    const status =
+      msg === "call_not_found" ? 404
+        : msg === "canonical_is_merged" || msg === "call_has_no_sha256" || msg.startsWith("not_duplicates:") ? 409
+          : 500;
+    return res.status(status).json({ ok: false, error: msg });
+  }
+});
+
+/* ----------------------------------------------------------------
+   Retention + erasure (scoped to the requesting manager's org)
+   GET  /v1/admin/retention              → policy (null = keep forever)
+   PUT  /v1/admin/retention              { audio_days?, transcript_days?, call_days? }
+   POST /v1/admin/retention/purge        → apply the policy now
+   POST /v1/admin/erasure                { repId } | { email }  → signed receipt
+   GET  /v1/admin/erasure/:id            → receipt
+   GET  /v1/admin/erasure/:id/verify?repId=|email=
+----------------------------------------------------------------- */
+async function managerOrgId(req: any): Promise<string | null> {
+  const userId = String(req.header("x-user-id") || "").trim();
+  const { data, error } = await supabaseAdmin.from("reps").select("org_id").eq("id", userId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as any)?.org_id ? String((data as any).org_id) : null;
+}
+
+function erasureSubjectFrom(src: any): ErasureSubject | null {
+  if (src?.repId && RESCORE_UUID_RE.test(String(src.repId))) return { type: "rep", repId: String(src.repId) };
+  const email = String(src?.email || "").trim().toLowerCase();
+  if (email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { type: "contact", email };
+  return null;
+}
+
+adminRouter.get("/retention", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, policy: await getRetentionPolicy(orgId) });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_retention_failed" });
+  }
+});
+
+adminRouter.put("/retention", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const parsed = RetentionPolicySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "invalid_body", details: parsed.error.flatten() });
+    }
+
+    const policy = await setRetentionPolicy(orgId, parsed.data, String(req.header("x-user-id")));
+    return res.json({ ok: true, policy });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_retention_update_failed" });
+  }
+});
+
+adminRouter.post("/retention/purge", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    const [result] = await runRetentionPurge({ orgId });
+    return res.json({ ok: true, result: result ?? null });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_retention_purge_failed" });
+  }
+});
+
+adminRouter.post("/erasure", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const subject = erasureSubjectFrom(req.body);
+    if (!subject) return res.status(400).json({ ok: false, error: "repId (uuid) or email required" });
+
+    const receipt = await eraseSubject({ orgId, subject, requestedBy: String(req.header("x-user-id")) });
+    return res.status(receipt.status === "completed" ? 200 : 207).json({ ok: true, receipt });
+  } catch (e: any) {
+    const msg = e?.message || "admin_erasure_failed";
+    return res.status(msg === "subject_not_found" ? 404 : 500).json({ ok: false, error: msg });
+  }
+});
+
+adminRouter.get("/erasure/:id", requireManager, async (req: any, res: any) => {
+  try {
+    if (!RESCORE_UUID_RE.test(String(req.params.id))) return res.status(400).json({ ok: false, error: "invalid id" });
+    const orgId = await managerOrgId(req);
+    const receipt = orgId ? await getDeletionReceipt(String(req.params.id), orgId) : null;
+    if (!receipt) return res.status(404).json({ ok: false, error: "not_found" });
+    return res.json({ ok: true, receipt });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_erasure_receipt_failed" });
+  }
+});
+
+adminRouter.get("/erasure/:id/verify", requireManager, async (req: any, res: any) => {
+  try {
+    if (!RESCORE_UUID_RE.test(String(req.params.id))) return res.status(400).json({ ok: false, error: "invalid id" });
+    const orgId = await managerOrgId(req);
+    const receipt = orgId ? await getDeletionReceipt(String(req.params.id), orgId) : null;
+    if (!receipt) return res.status(404).json({ ok: false, error: "not_found" });
+
+    const check = await verifyDeletionReceipt(receipt, erasureSubjectFrom(req.query));
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, receipt_id: receipt.id, ...check });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_erasure_verify_failed" });
+  }
+});
+
+/* ----------------------------------------------------------------
+   PII redaction (requesting manager's org)
+   GET /v1/admin/privacy             → { redact_pii } (default true)
+   PUT /v1/admin/privacy             { redact_pii: boolean }
+   GET /v1/admin/privacy/report?since=ISO&limit=50
+     → totals per type + calls with the most redactions
+----------------------------------------------------------------- */
+adminRouter.get("/privacy", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, settings: await getPrivacySettings(orgId) });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_privacy_failed" });
+  }
+});
+
+adminRouter.put("/privacy", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const parsed = PrivacySettingsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "invalid_body", details: parsed.error.flatten() });
+    }
+
+    const settings = await setPrivacySettings(orgId, parsed.data, String(req.header("x-user-id")));
+    return res.json({ ok: true, settings });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_privacy_update_failed" });
+  }
+});
+
+adminRouter.get("/privacy/report", requireManager, async (req: any, res: any) => {
+  try {
+    const orgId = await managerOrgId(req);
+    if (!orgId) return res.status(400).json({ ok: false, error: "manager_has_no_org" });
+
+    const since = req.query.since ? String(req.query.since) : null;
+    if (since && Number.isNaN(Date.parse(since))) return res.status(400).json({ ok: false, error: "invalid since" });
+
+    const report = await piiRedactionReport({
+      orgId,
+      since: since ? new Date(since).toISOString() : null,
+      limit: Number(req.query.limit) || 50,
+    });
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, report });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "admin_privacy_report_failed" });
+  }
+});
+
 export default adminRouter;
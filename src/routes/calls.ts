@@ -3,6 +3,10 @@ import { z } from "zod";
 import { createClient } from "@supabase/supabase-js";
 import { postSlack } from "../lib/slack";
 import { completeAssignmentsForTarget } from "../lib/assignmentsComplete";
+import { applyOverrides, getScoreView } from "../services/scoreOverrides";
+import { computeConversationMetrics } from "../lib/conversationMetrics";
+import { loadTranscriptSegments } from "../lib/transcription";
+import { SCORE_BANDS, searchTranscripts, type ScoreBand, type SearchMode } from "../services/transcriptSearch";
 import 'dotenv/config';
 
 const router = Router();
@@ -29,6 +33,22 @@ const ScoreSchema = z.object({
   assignmentId: z.string().uuid().optional(),
 });
 
+/* Manager overrides: per-section score + mandatory reason (score null clears) */
+const OverrideSchema = z.object({
+  overrides: z
+    .array(
+      z.object({
+        section: z.string().trim().min(1).max(64),
+        score: z.number().int().min(0).max(100).nullable(),
+        reason: z.string().trim().min(3).max(500),
+      })
+    )
+    .min(1)
+    .max(20),
+});
+
+const MANAGER_TIERS = new Set(["Manager", "Owner"]);
+
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -52,6 +72,18 @@ function getUserIdHeader(req: any): string {
   return uid;
 }
 
+/** Manager/Owner in the same org as the call (reps.org_id = calls.org_id). */
+async function isOrgManagerFor(requester: string, callOrgId: string | null): Promise<boolean> {
+  if (!callOrgId) return false;
+  const { data: rep, error } = await supa
+    .from("reps")
+    .select("id,tier,org_id")
+    .eq("id", requester)
+    .maybeSingle();
+  if (error || !rep) return false;
+  return MANAGER_TIERS.has(String((rep as any).tier || "")) && String((rep as any).org_id || "") === String(callOrgId);
+}
+
 
 /* ---------------------------------------------
    POST /v1/calls  → insert (upsert) + Slack ping
@@ -182,6 +214,7 @@ router.get("/paged", async (req, res) => {
           duration_sec,
           duration_ms,
           score_overall,
+          score_is_fallback,
           ai_model,
           rep_name,
           tags,
@@ -190,6 +223,7 @@ router.get("/paged", async (req, res) => {
         `
       )
       .eq("user_id", requester)
+      .is("duplicate_of", null)
       .order("created_at", { ascending: false })
       .limit(limit + 1);
 
@@ -232,6 +266,7 @@ router.get("/paged", async (req, res) => {
       duration_sec: c.duration_sec,
       duration_ms: c.duration_ms ?? null,
       score_overall: c.score_overall,
+      score_is_fallback: c.score_is_fallback ?? false,
       ai_model: c.ai_model,
       type: c.storage_path ? "upload" : "live",
       rep_name: c.rep_name ?? null,
@@ -248,6 +283,94 @@ router.get("/paged", async (req, res) => {
       .json({ ok: false, error: e.message ?? "bad_request" });
   }
 });
+/* -----------------------------------------------------------------
+   GET /v1/calls/search?q=...  → transcript segment search (org-scoped)
+   Query: q, mode=websearch|phrase|keyword, speaker=rep|buyer, repId,
+          from, to (ISO), band=low|mid|high or minScore/maxScore,
+          tags=a,b (any), limit, offset
+   Managers search their whole org; reps only their own calls.
+   Hits: call_id, speaker/role, start_sec + timestamp for audio seek.
+------------------------------------------------------------------ */
+router.get("/search", async (req, res) => {
+  try {
+    const requester = getUserIdHeader(req);
+
+    const { data: rep, error: repErr } = await supa
+      .from("reps")
+      .select("id,tier,org_id")
+      .eq("id", requester)
+      .maybeSingle();
+    if (repErr) throw repErr;
+    const orgId = String((rep as any)?.org_id || "");
+    if (!orgId) return res.status(403).json({ ok: false, error: "forbidden_org_scope" });
+    const isManager = MANAGER_TIERS.has(String((rep as any)?.tier || ""));
+
+    const mode = String(req.query.mode || "websearch") as SearchMode;
+    if (!["websearch", "phrase", "keyword"].includes(mode)) {
+      return res.status(400).json({ ok: false, error: "mode must be websearch, phrase or keyword" });
+    }
+
+    const speaker = req.query.speaker ? String(req.query.speaker) : null;
+    if (speaker && speaker !== "rep" && speaker !== "buyer") {
+      return res.status(400).json({ ok: false, error: "speaker must be rep or buyer" });
+    }
+
+    let repId = req.query.repId ? String(req.query.repId) : null;
+    if (repId && !UUID_RE.test(repId)) return res.status(400).json({ ok: false, error: "repId must be a uuid" });
+    if (!isManager) {
+      if (repId && repId !== requester) return res.status(403).json({ ok: false, error: "forbidden" });
+      repId = requester;
+    }
+
+    for (const k of ["from", "to"]) {
+      if (req.query[k] && Number.isNaN(new Date(String(req.query[k])).getTime())) {
+        return res.status(400).json({ ok: false, error: `${k} must be an ISO date` });
+      }
+    }
+
+    let minScore = req.query.minScore != null ? Number(req.query.minScore) : null;
+    let maxScore = req.query.maxScore != null ? Number(req.query.maxScore) : null;
+    if (req.query.band) {
+      const band = SCORE_BANDS[String(req.query.band) as ScoreBand];
+      if (!band) return res.status(400).json({ ok: false, error: "band must be low, mid or high" });
+      minScore = band.min;
+      maxScore = band.max;
+    }
+    if ((minScore != null && !Number.isFinite(minScore)) || (maxScore != null && !Number.isFinite(maxScore))) {
+      return res.status(400).json({ ok: false, error: "minScore/maxScore must be numbers" });
+    }
+
+    const tags = String(req.query.tags || "")
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean)
+      .slice(0, 10);
+
+    const result = await searchTranscripts({
+      orgId,
+      q: String(req.query.q || ""),
+      mode,
+      speaker: speaker as "rep" | "buyer" | null,
+      repId,
+      from: req.query.from ? new Date(String(req.query.from)).toISOString() : null,
+      to: req.query.to ? new Date(String(req.query.to)).toISOString() : null,
+      minScore,
+      maxScore,
+      tags,
+      limit: Number(req.query.limit || 25),
+      offset: Number(req.query.offset || 0),
+    });
+
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, ...result });
+  } catch (e: any) {
+    const msg = e?.message || "search_failed";
+    if (msg === "query_too_short") return res.status(400).json({ ok: false, error: msg });
+    console.error("[GET /search] error", e);
+    return res.status(400).json({ ok: false, error: msg });
+  }
+});
+
 /* ----------------------------------------------------------------
    GET /v1/calls/:id/signed-audio → signed URL for audio playback
    (ORDERED BEFORE /:id so it doesn't get captured by the :id route)
@@ -260,17 +383,21 @@ router.get("/:id/signed-audio", async (req, res) => {
     }
     const requester = getUserIdHeader(req);
 
-    // ensure call exists and belongs to requester
+    // ensure call exists and belongs to requester (or an org manager, e.g. from search)
     const { data: call, error } = await supa
       .from("calls")
-      .select("user_id,audio_path")
+      .select("user_id,org_id,audio_path,audio_purged_at")
       .eq("id", id)
       .single();
 
     if (error || !call) return res.status(404).json({ ok: false, error: "not_found" });
-    if (call.user_id !== requester) {
+    if (call.user_id !== requester && !(await isOrgManagerFor(requester, call.org_id))) {
       return res.status(403).json({ ok: false, error: "forbidden" });
     }
+    if (call.audio_purged_at) {
+      // removed under the org's retention policy
+      return res.status(410).json({ ok: false, error: "audio_purged", purged_at: call.audio_purged_at });
+    }
     if (!call.audio_path) {
       return res.status(400).json({ ok: false, error: "no_audio_path" });
     }
@@ -433,7 +560,10 @@ router.post("/:id/score", async (req, res) => {
 });
 
 /* -----------------------------------------------------------
-   GET /v1/calls/:id/scores → score history for sparklines
+   GET /v1/calls/:id/scores → score history + AI vs override view
+   Owner or a manager in the call's org.
+   items  = call_scores history (sparklines); values = overall series
+   scores = AI sections, manager overrides, effective result, audit trail
    (ORDERED BEFORE /:id to avoid route capture)
 ------------------------------------------------------------ */
 router.get("/:id/scores", async (req, res) => {
@@ -443,32 +573,84 @@ router.get("/:id/scores", async (req, res) => {
 
     const requester = getUserIdHeader(req);
 
-    // verify ownership
+    // verify ownership (or org manager)
     const { data: call, error: callErr } = await supa
       .from("calls")
-      .select("id,user_id")
+      .select("id,user_id,org_id")
       .eq("id", id)
       .single();
 
     if (callErr || !call) return res.status(404).json({ ok: false, error: "not_found" });
-    if (call.user_id !== requester) return res.status(403).json({ ok: false, error: "forbidden" });
+    if (call.user_id !== requester && !(await isOrgManagerFor(requester, call.org_id))) {
+      return res.status(403).json({ ok: false, error: "forbidden" });
+    }
 
     const { data, error } = await supa
       .from("call_scores")
-      .select("score, created_at")
+      .select("score, overall, ai_model, rubric_version, is_fallback, created_at")
       .eq("call_id", id)
       .order("created_at", { ascending: true })
       .limit(100);
 
     if (error) throw error;
 
-    res.json({ ok: true, items: data ?? [] });
+    const items = (data ?? []).map((r: any) => ({ ...r, score: r.overall ?? r.score ?? null }));
+    const scores = await getScoreView(id);
+
+    res.set("Cache-Control", "no-store");
+    res.json({
+      ok: true,
+      items,
+      values: items.map((r) => r.score).filter((v) => v != null),
+      scores,
+    });
   } catch (e: any) {
     console.error("[GET /:id/scores] error", e);
     res.status(400).json({ ok: false, error: e.message ?? "bad_request" });
   }
 });
 
+/* -----------------------------------------------------------
+   POST /v1/calls/:id/overrides → manager section overrides
+   Body: { overrides: [{ section, score|null, reason }] }
+   The AI score is kept; each change is appended to the audit trail.
+   (ORDERED BEFORE /:id to avoid route capture)
+------------------------------------------------------------ */
+router.post("/:id/overrides", async (req, res) => {
+  try {
+    const id = String(req.params.id);
+    if (!UUID_RE.test(id)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+    const requester = getUserIdHeader(req);
+
+    const parsed = OverrideSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "invalid_body", details: parsed.error.flatten() });
+    }
+
+    const { data: call, error: callErr } = await supa
+      .from("calls")
+      .select("id,org_id")
+      .eq("id", id)
+      .single();
+
+    if (callErr || !call) return res.status(404).json({ ok: false, error: "not_found" });
+    if (!(await isOrgManagerFor(requester, call.org_id))) {
+      return res.status(403).json({ ok: false, error: "forbidden_not_manager" });
+    }
+
+    const scores = await applyOverrides({ callId: id, authorId: requester, overrides: parsed.data.overrides });
+    return res.json({ ok: true, scores });
+  } catch (e: any) {
+    const msg = e?.message || "override_failed";
+    if (msg === "call_not_found") return res.status(404).json({ ok: false, error: msg });
+    if (msg === "call_not_scored") return res.status(409).json({ ok: false, error: msg });
+    if (msg.startsWith("unknown_section:")) return res.status(400).json({ ok: false, error: msg });
+    console.error("[POST /:id/overrides] error", e);
+    return res.status(500).json({ ok: false, error: msg });
+  }
+});
+
 /* -------------------------------------------
    GET /v1/calls/:id → call detail (ownership)
    (KEEP THIS LAST among /:id* routes)
@@ -496,6 +678,11 @@ router.get("/:id", async (req, res) => {
           duration_sec,
           duration_ms,
           score_overall,
+          score_is_fallback,
+          override_overall,
+          conversation_metrics,
+          duplicate_of,
+          pii_report,
           ai_model,
           rep_name,
           tags,
@@ -514,6 +701,20 @@ router.get("/:id", async (req, res) => {
       return res.status(403).json({ ok: false, error: "forbidden" });
     }
 
+    // Calls transcribed before metrics existed: compute once from the stored transcript
+    let conversationMetrics = call.conversation_metrics ?? null;
+    if (!conversationMetrics) {
+      try {
+        const segments = await loadTranscriptSegments(supa, id);
+        if (segments.length) {
+          conversationMetrics = computeConversationMetrics(segments);
+          await supa.from("calls").update({ conversation_metrics: conversationMetrics }).eq("id", id);
+        }
+      } catch (e: any) {
+        console.warn("[calls] conversation metrics backfill failed:", e?.message || e);
+      }
+    }
+
     const mapped = {
       id: call.id,
       filename: call.filename,
@@ -522,6 +723,11 @@ router.get("/:id", async (req, res) => {
       duration_sec: call.duration_sec,
       duration_ms: call.duration_ms ?? null,
       score_overall: call.score_overall,
+      score_is_fallback: call.score_is_fallback ?? false,
+      override_overall: call.override_overall ?? null,
+      conversation_metrics: conversationMetrics,
+      duplicate_of: call.duplicate_of ?? null, // merged duplicate → open this call instead
+      pii_report: call.pii_report ?? null, // what was redacted from LLM prompts (types + counts)
       ai_model: call.ai_model,
       type: call.storage_path ? "upload" : "live",
       rep_name: call.rep_name ?? null,
@@ -954,7 +954,8 @@ router.get("/contacts/:id/activity", async (req, res) => {
  *
  * Safe-by-default:
  * - No external LLM calls required.
- * - If you later want GPT, add it behind an env flag.
+ * - If you later want GPT, add it behind an env flag and only send text that
+ *   went through lib/redaction (respecting the org's redact_pii setting).
  * ---------------------------------------------------------------- */
 function fmtDateIso(d: string | null | undefined) {
   if (!d) return null;
@@ -27,6 +27,15 @@ function isoDaysAgo(days: number) {
   return d.toISOString();
 }
 
+// Heuristic fallback scores (LLM unavailable) are excluded from averages unless ?includeFallback=1
+function wantsFallback(req: any) {
+  return ['1', 'true', 'yes'].includes(String(req.query.includeFallback ?? '').toLowerCase());
+}
+
+function isFallbackScore(c: any) {
+  return c?.score_is_fallback === true;
+}
+
 // ---- GET /v1/dashboard/kpis ----
 // Returns compact KPI payload for CRM Overview cards + sparklines
 router.get('/kpis', async (req, res) => {
@@ -38,9 +47,11 @@ router.get('/kpis', async (req, res) => {
     const days = Math.max(1, Math.min(365, parseInt(String(req.query.days ?? '90'), 10) || 90));
     const since = isoDaysAgo(days);
     const orgId = (req.query.orgId ? String(req.query.orgId) : '').trim();
+    const includeFallback = wantsFallback(req);
 
     // Defaults keep UI rendering even if queries fail
     let total_calls = 0;
+    let fallback_scored = 0;
     let avg_score_overall: number | null = null;
     let conversion_rate_90d: number | null = null; // fraction (0..1) if `won` exists
 
@@ -57,7 +68,7 @@ router.get('/kpis', async (req, res) => {
 
     let callQuery = db
       .from('calls')
-      .select('id, created_at, status, score_overall, account_id, user_id, org_id', { count: 'exact' })
+      .select('id, created_at, status, score_overall, score_is_fallback, account_id, user_id, org_id', { count: 'exact' })
       .gte('created_at', since)
       .limit(50000);
     if (orgId) callQuery = callQuery.eq('org_id', orgId);
@@ -88,7 +99,9 @@ router.get('/kpis', async (req, res) => {
 
     total_calls = calls?.length ?? 0;
 
-    const scored = (calls || []).filter(c => c.status === 'scored' && typeof (c as any).score_overall === 'number');
+    const scoredAll = (calls || []).filter(c => c.status === 'scored' && typeof (c as any).score_overall === 'number');
+    fallback_scored = scoredAll.filter(isFallbackScore).length;
+    const scored = includeFallback ? scoredAll : scoredAll.filter(c => !isFallbackScore(c));
     if (scored.length) {
       const sum = scored.reduce((s, c: any) => s + (c.score_overall || 0), 0);
       avg_score_overall = Math.round(sum / scored.length);
@@ -109,7 +122,7 @@ router.get('/kpis', async (req, res) => {
       if (!dayMap[key]) dayMap[key] = { calls: 0, scoredCount: 0, scoredSum: 0, won: 0 };
       dayMap[key].calls += 1;
       const sc = Number((c as any).score_overall);
-      if ((c as any).status === 'scored' && Number.isFinite(sc)) {
+      if ((c as any).status === 'scored' && Number.isFinite(sc) && (includeFallback || !isFallbackScore(c))) {
         dayMap[key].scoredCount += 1;
         dayMap[key].scoredSum += sc;
       }
@@ -160,6 +173,8 @@ router.get('/kpis', async (req, res) => {
       ok: true,
       total_calls,
       avg_score_overall,
+      fallback_scored,
+      include_fallback: includeFallback,
       conversion_rate_90d,
       callsAnalyzed,
       avgScore,
@@ -206,6 +221,7 @@ router.get('/leaderboard', async (req, res) => {
       .not('score_overall', 'is', null)
       .limit(50000);
     if (orgId) callQuery = callQuery.eq('org_id', orgId);
+    if (!wantsFallback(req)) callQuery = callQuery.or('score_is_fallback.is.null,score_is_fallback.eq.false');
     const { data: calls, error: callsErr } = await callQuery;
 
     if (callsErr) throw callsErr;
@@ -318,7 +334,7 @@ router.get('/rep-summary', async (req, res) => {
     // Calls for this rep (last N days)
     let callsQ = supabase
       .from('calls')
-      .select('id, account_id, score_overall, created_at, org_id')
+      .select('id, account_id, score_overall, score_is_fallback, created_at, org_id')
       .eq('user_id', userId)
       .gte('created_at', since)
       .order('created_at', { ascending: false })
@@ -327,10 +343,11 @@ router.get('/rep-summary', async (req, res) => {
     const { data: calls, error: cErr } = await callsQ;
     if (cErr) throw cErr;
 
+    const includeFallback = wantsFallback(req);
     let sum = 0, n = 0, xp = 0;
     const byAccount = new Map<string, { sum: number; n: number }>();
     for (const c of calls || []) {
-      const sc = Number((c as any).score_overall);
+      const sc = !includeFallback && isFallbackScore(c) ? NaN : Number((c as any).score_overall);
       if (Number.isFinite(sc)) {
         sum += sc; n += 1;
         if (sc >= 70) xp += 10; // +10 XP per call >= 70
@@ -378,6 +395,7 @@ router.get('/rep-summary', async (req, res) => {
       id: (c as any).id,
       created_at: (c as any).created_at,
       score_overall: (c as any).score_overall,
+      score_is_fallback: isFallbackScore(c),
       account_id: (c as any).account_id,
     }));
 
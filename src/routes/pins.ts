@@ -1,14 +1,33 @@
 import { Router } from "express";
 import { z } from "zod";
-import { createClient } from "@supabase/supabase-js";
+import {
+  PIN_SOURCES,
+  PinInputSchema,
+  PinPatchSchema,
+  callAccess,
+  createPin,
+  deletePin,
+  listPins,
+  pinAccess,
+  restorePin,
+  setPinResolved,
+  updatePin,
+  type PinSource,
+} from "../services/pins";
+import {
+  addPinComment,
+  deletePinComment,
+  getPinComment,
+  listMentions,
+  listPinComments,
+  threadComments,
+} from "../services/pinComments";
 
-const router = Router();
-
-const supa = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!,
-  { auth: { persistSession: false } }
-);
+// Pins — one service (services/pins), two mounts with identical rules:
+//   /v1/pins                 → callId in query (GET) or body (POST)
+//   /v1/calls/:id/pins       → callId from the path
+// Item routes (/:pinId, /:pinId/comments, /:pinId/resolve, …) are shared; under
+// /v1/calls/:id/pins the pin must belong to that call.
 
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -19,127 +38,270 @@ function uidFromHeader(req: any): string {
   return uid;
 }
 
-const CreatePinSchema = z.object({
-  callId: z.string().uuid(),
-  t: z.number().int().min(0).max(24 * 60 * 60), // up to 24h audio
-  note: z.string().trim().max(500).nullable().optional(),
+const CommentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+  parentId: z.string().uuid().nullable().optional(),
+  mentions: z.array(z.string().uuid()).max(20).optional(), // rep ids from the UI picker
 });
 
-/* -------------------------------------------
-   GET /v1/pins?callId=...
-   -> list pins for a call (ownership enforced)
--------------------------------------------- */
-router.get("/", async (req, res) => {
-  try {
-    const requester = uidFromHeader(req);
-    const callId = String(req.query.callId || "");
-    if (!UUID_RE.test(callId)) {
-      return res.status(400).json({ ok: false, error: "invalid callId" });
-    }
+function statusFor(msg: string) {
+  if (msg.startsWith("Missing or invalid")) return 400;
+  if (msg === "not_found" || msg === "parent_not_found") return 404;
+  if (msg === "forbidden") return 403;
+  if (msg.startsWith("Failed to")) return 500;
+  return 400;
+}
 
-    // Verify the call belongs to requester
-    const { data: call, error: callErr } = await supa
-      .from("calls")
-      .select("id,user_id")
-      .eq("id", callId)
-      .single();
+function fail(res: any, e: any) {
+  const msg = e?.message ?? "bad_request";
+  return res.status(statusFor(msg)).json({ ok: false, error: msg });
+}
 
-    if (callErr || !call) return res.status(404).json({ ok: false, error: "not_found" });
-    if (call.user_id !== requester) return res.status(403).json({ ok: false, error: "forbidden" });
+function buildPinsRouter(scope: "global" | "call") {
+  const router = Router({ mergeParams: true });
 
-    const { data: pins, error } = await supa
-      .from("pins")
-      .select("*")
-      .eq("call_id", callId)
-      .order("t", { ascending: true })
-      .limit(500);
+  /** Call id for list/create: path (:id) when nested, else query/body callId. */
+  const callIdOf = (req: any) =>
+    String((scope === "call" ? req.params.id : req.query.callId ?? req.body?.callId) || "");
 
-    if (error) throw error;
+  /** Nested routes pin the call; global ones accept any pin the requester can see. */
+  const scopedCallId = (req: any) => (scope === "call" ? String(req.params.id) : null);
 
-    res.json({ ok: true, pins: pins ?? [] });
-  } catch (e: any) {
-    res.status(400).json({ ok: false, error: e.message ?? "bad_request" });
-  }
-});
+  /* -------------------------------------------
+     GET  ?source=user|system&includeDismissed=1&resolved=0|1
+     -> pins for a call (owner or org manager)
+  -------------------------------------------- */
+  router.get("/", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const callId = callIdOf(req);
+      if (!UUID_RE.test(callId)) return res.status(400).json({ ok: false, error: "invalid callId" });
 
-/* -------------------------------------------
-   POST /v1/pins
-   body: { callId, t, note }
-   -> create a pin (ownership enforced)
--------------------------------------------- */
-router.post("/", async (req, res) => {
-  try {
-    const requester = uidFromHeader(req);
-    const body = CreatePinSchema.parse(req.body);
-
-    // Verify call ownership
-    const { data: call, error: callErr } = await supa
-      .from("calls")
-      .select("id,user_id")
-      .eq("id", body.callId)
-      .single();
-
-    if (callErr || !call) return res.status(404).json({ ok: false, error: "not_found" });
-    if (call.user_id !== requester) return res.status(403).json({ ok: false, error: "forbidden" });
-
-    const insert = {
-      call_id: body.callId,
-      user_id: requester,
-      t: body.t,
-      note: body.note ?? null,
-    };
-
-    const { data, error } = await supa
-      .from("pins")
-      .insert(insert)
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    res.json({ ok: true, pin: data });
-  } catch (e: any) {
-    res.status(400).json({ ok: false, error: e.message ?? "bad_request" });
+      const source = req.query.source ? String(req.query.source) : null;
+      if (source && !(PIN_SOURCES as readonly string[]).includes(source)) {
+        return res.status(400).json({ ok: false, error: "source must be user or system" });
+      }
+
+      await callAccess(requester, callId);
+      const pins = await listPins(callId, {
+        source: source as PinSource | null,
+        includeDismissed: req.query.includeDismissed === "1",
+        resolved: req.query.resolved === "1" ? true : req.query.resolved === "0" ? false : null,
+      });
+
+      res.json({ ok: true, pins });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  });
+
+  if (scope === "global") {
+    /* -------------------------------------------
+       GET /v1/pins/mentions?unresolved=1
+       -> comments that @-mention the requester
+    -------------------------------------------- */
+    router.get("/mentions", async (req: any, res: any) => {
+      try {
+        const requester = uidFromHeader(req);
+        const items = await listMentions(requester, {
+          unresolvedOnly: req.query.unresolved === "1",
+          limit: Number(req.query.limit || 50),
+        });
+        res.set("Cache-Control", "no-store");
+        res.json({ ok: true, items });
+      } catch (e: any) {
+        return fail(res, e);
+      }
+    });
   }
-});
 
-/* -------------------------------------------
-   DELETE /v1/pins/:id
-   -> delete if the pin belongs to requester
--------------------------------------------- */
-router.delete("/:id", async (req, res) => {
-  try {
-    const requester = uidFromHeader(req);
-    const id = String(req.params.id);
-    if (!UUID_RE.test(id)) {
-      return res.status(400).json({ ok: false, error: "invalid id" });
+  /* -------------------------------------------
+     POST  body: { start_sec (or t), end_sec?, note?, label?, color? }
+     (+ callId on /v1/pins) -> create a pin
+  -------------------------------------------- */
+  router.post("/", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const callId = callIdOf(req);
+      if (!UUID_RE.test(callId)) return res.status(400).json({ ok: false, error: "invalid callId" });
+
+      const parsed = PinInputSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "invalid_body", details: parsed.error.flatten() });
+      }
+
+      await callAccess(requester, callId);
+      const pin = await createPin(callId, requester, parsed.data);
+
+      res.status(201).json({ ok: true, pin });
+    } catch (e: any) {
+      return fail(res, e);
     }
+  });
 
-    // Fetch pin + join call to confirm ownership
-    const { data: pinRow, error: pinErr } = await supa
-      .from("pins")
-      .select("id, call_id")
-      .eq("id", id)
-      .single();
+  /* -------------------------------------------
+     PATCH /:pinId  body: { note?, label?, color?, start_sec?, end_sec? }
+     -> author edits their pin
+  -------------------------------------------- */
+  router.patch("/:pinId", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const pinId = String(req.params.pinId);
+      if (!UUID_RE.test(pinId)) return res.status(400).json({ ok: false, error: "invalid id" });
 
-    if (pinErr || !pinRow) return res.status(404).json({ ok: false, error: "not_found" });
+      const parsed = PinPatchSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "invalid_body", details: parsed.error.flatten() });
+      }
 
-    const { data: call, error: callErr } = await supa
-      .from("calls")
-      .select("user_id")
-      .eq("id", pinRow.call_id)
-      .single();
+      const { pin } = await pinAccess(requester, pinId, scopedCallId(req));
+      const updated = await updatePin(pin, requester, parsed.data);
 
-    if (callErr || !call) return res.status(404).json({ ok: false, error: "not_found" });
-    if (call.user_id !== requester) return res.status(403).json({ ok: false, error: "forbidden" });
+      res.json({ ok: true, pin: updated });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  });
 
-    const { error } = await supa.from("pins").delete().eq("id", id);
-    if (error) throw error;
+  /* -------------------------------------------
+     DELETE /:pinId
+     -> pin author or call owner; system pins are
+        dismissed instead (see services/pins)
+  -------------------------------------------- */
+  router.delete("/:pinId", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const pinId = String(req.params.pinId);
+      if (!UUID_RE.test(pinId)) return res.status(400).json({ ok: false, error: "invalid id" });
 
-    res.json({ ok: true });
-  } catch (e: any) {
-    res.status(400).json({ ok: false, error: e.message ?? "bad_request" });
-  }
-});
+      const { pin, ...access } = await pinAccess(requester, pinId, scopedCallId(req));
+      const { dismissed } = await deletePin(pin, requester, access);
+
+      res.json(dismissed ? { ok: true, dismissed: true } : { ok: true });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  });
+
+  /* -------------------------------------------
+     POST /:pinId/restore → un-dismiss a system pin
+  -------------------------------------------- */
+  router.post("/:pinId/restore", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const pinId = String(req.params.pinId);
+      if (!UUID_RE.test(pinId)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+      const { pin, ...access } = await pinAccess(requester, pinId, scopedCallId(req));
+      res.json({ ok: true, pin: await restorePin(pin, access) });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  });
+
+  /* -------------------------------------------
+     POST /:pinId/resolve | /:pinId/reopen
+     -> mark the coaching thread done / open again
+  -------------------------------------------- */
+  const setResolved = (resolved: boolean) => async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const pinId = String(req.params.pinId);
+      if (!UUID_RE.test(pinId)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+      const { pin } = await pinAccess(requester, pinId, scopedCallId(req));
+      res.json({ ok: true, pin: await setPinResolved(pin, requester, resolved) });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  };
+  router.post("/:pinId/resolve", setResolved(true));
+  router.post("/:pinId/reopen", setResolved(false));
+
+  /* -------------------------------------------
+     GET /:pinId/comments
+     -> threaded comments (roots with nested replies)
+  -------------------------------------------- */
+  router.get("/:pinId/comments", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const pinId = String(req.params.pinId);
+      if (!UUID_RE.test(pinId)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+      const { pin } = await pinAccess(requester, pinId, scopedCallId(req));
+      const comments = await listPinComments(pinId);
+
+      res.json({ ok: true, pin, count: comments.length, threads: threadComments(comments) });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  });
+
+  /* -------------------------------------------
+     POST /:pinId/comments  body: { body, parentId?, mentions? }
+     -> add a comment / reply; @email and @[repId]
+        in the body are resolved to the call owner
+        and the org's managers (others are dropped)
+  -------------------------------------------- */
+  router.post("/:pinId/comments", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const pinId = String(req.params.pinId);
+      if (!UUID_RE.test(pinId)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+      const parsed = CommentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "invalid_body", details: parsed.error.flatten() });
+      }
+
+      const { pin, call } = await pinAccess(requester, pinId, scopedCallId(req));
+      const comment = await addPinComment({
+        pinId,
+        callId: pin.call_id,
+        orgId: call.org_id,
+        callOwnerId: call.user_id,
+        authorId: requester,
+        body: parsed.data.body,
+        parentId: parsed.data.parentId ?? null,
+        mentions: parsed.data.mentions,
+      });
+
+      res.status(201).json({ ok: true, comment });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  });
+
+  /* -------------------------------------------
+     DELETE /:pinId/comments/:commentId
+     -> comment author only (replies are removed too)
+  -------------------------------------------- */
+  router.delete("/:pinId/comments/:commentId", async (req: any, res: any) => {
+    try {
+      const requester = uidFromHeader(req);
+      const pinId = String(req.params.pinId);
+      const commentId = String(req.params.commentId);
+      if (!UUID_RE.test(pinId) || !UUID_RE.test(commentId)) {
+        return res.status(400).json({ ok: false, error: "invalid id" });
+      }
+
+      await pinAccess(requester, pinId, scopedCallId(req));
+      const comment = await getPinComment(commentId);
+      if (!comment || comment.pin_id !== pinId) return res.status(404).json({ ok: false, error: "not_found" });
+      if (comment.author_id !== requester) return res.status(403).json({ ok: false, error: "forbidden" });
+
+      await deletePinComment(commentId);
+      res.json({ ok: true });
+    } catch (e: any) {
+      return fail(res, e);
+    }
+  });
+
+  return router;
+}
+
+/** /v1/calls/:id/pins */
+export const callPinsRouter = buildPinsRouter("call");
 
-export default router;
\ No newline at end of file
+/** /v1/pins */
+export default buildPinsRouter("global");
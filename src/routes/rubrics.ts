@@ -0,0 +1,135 @@
+import { Router } from "express";
+import { createClient } from "@supabase/supabase-js";
+import { requireManager } from "../middleware/requireManager";
+import {
+  DEFAULT_RUBRIC,
+  RubricInputSchema,
+  activateRubric,
+  createRubricVersion,
+  getActiveRubric,
+  getRubricById,
+  listRubrics,
+} from "../services/rubrics";
+
+// /v1/rubrics — org scoring rubrics (versioned)
+// Headers: x-user-id, x-org-id (requester must belong to the org)
+//   GET  /           → all versions for the org + the active one
+//   GET  /active     → rubric new scores will use (org version or built-in default)
+//   GET  /:id        → one version (org-owned or the built-in default)
+//   POST /           → manager: create a new version (becomes active)
+//   POST /:id/activate → manager: switch the active version (rollback)
+
+const router = Router();
+
+const supa = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { persistSession: false } }
+);
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function getUserIdHeader(req: any): string {
+  const uid = req.header("x-user-id");
+  if (!uid || !UUID_RE.test(uid)) throw new Error("Missing or invalid x-user-id");
+  return uid;
+}
+
+function getOrgIdHeader(req: any): string {
+  const oid = req.header("x-org-id");
+  if (!oid || !UUID_RE.test(oid)) throw new Error("Missing or invalid x-org-id");
+  return oid;
+}
+
+/** Fail-closed: requester's reps.org_id must match x-org-id. */
+async function requireOrgScope(req: any): Promise<{ requester: string; orgId: string }> {
+  const requester = getUserIdHeader(req);
+  const orgId = getOrgIdHeader(req);
+
+  const { data, error } = await supa.from("reps").select("id,org_id").eq("id", requester).maybeSingle();
+  if (error) throw new Error(`org_scope_lookup_failed:${error.message}`);
+  if (!data || String((data as any).org_id || "") !== orgId) throw new Error("forbidden_org_scope");
+
+  return { requester, orgId };
+}
+
+function statusFor(msg: string) {
+  if (msg.startsWith("Missing or invalid")) return 400;
+  if (msg === "forbidden_org_scope") return 403;
+  if (msg === "rubric_not_found") return 404;
+  if (msg === "rubric_version_conflict") return 409;
+  return 500;
+}
+
+router.get("/", async (req, res) => {
+  try {
+    const { orgId } = await requireOrgScope(req);
+    const [items, active] = await Promise.all([listRubrics(orgId), getActiveRubric(orgId)]);
+    return res.json({ ok: true, active, items, default: DEFAULT_RUBRIC });
+  } catch (e: any) {
+    const msg = e?.message || "rubrics_list_failed";
+    return res.status(statusFor(msg)).json({ ok: false, error: msg });
+  }
+});
+
+router.get("/active", async (req, res) => {
+  try {
+    const { orgId } = await requireOrgScope(req);
+    const rubric = await getActiveRubric(orgId);
+    return res.json({ ok: true, rubric });
+  } catch (e: any) {
+    const msg = e?.message || "rubric_active_failed";
+    return res.status(statusFor(msg)).json({ ok: false, error: msg });
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const { orgId } = await requireOrgScope(req);
+    const id = String(req.params.id || "");
+    if (!UUID_RE.test(id)) return res.status(400).json({ ok: false, error: "invalid_rubric_id" });
+
+    const rubric = await getRubricById(id);
+    if (!rubric || (rubric.org_id && rubric.org_id !== orgId)) {
+      return res.status(404).json({ ok: false, error: "rubric_not_found" });
+    }
+    return res.json({ ok: true, rubric });
+  } catch (e: any) {
+    const msg = e?.message || "rubric_get_failed";
+    return res.status(statusFor(msg)).json({ ok: false, error: msg });
+  }
+});
+
+router.post("/", requireManager, async (req, res) => {
+  try {
+    const { requester, orgId } = await requireOrgScope(req);
+
+    const parsed = RubricInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "invalid_body", details: parsed.error.flatten() });
+    }
+
+    const rubric = await createRubricVersion(orgId, parsed.data, requester);
+    return res.status(201).json({ ok: true, rubric });
+  } catch (e: any) {
+    const msg = e?.message || "rubric_create_failed";
+    return res.status(statusFor(msg)).json({ ok: false, error: msg });
+  }
+});
+
+router.post("/:id/activate", requireManager, async (req, res) => {
+  try {
+    const { orgId } = await requireOrgScope(req);
+    const id = String(req.params.id || "");
+    if (!UUID_RE.test(id)) return res.status(400).json({ ok: false, error: "invalid_rubric_id" });
+
+    const rubric = await activateRubric(orgId, id);
+    return res.json({ ok: true, rubric });
+  } catch (e: any) {
+    const msg = e?.message || "rubric_activate_failed";
+    return res.status(statusFor(msg)).json({ ok: false, error: msg });
+  }
+});
+
+export default router;
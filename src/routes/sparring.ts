@@ -2,14 +2,54 @@ import express, { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { createClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
-import { PERSONAS } from "../personas";
 import { getScoringConfig } from "../services/scoringConfig";
 import { completeAssignmentsForTarget } from "../lib/assignmentsComplete";
+import { emptyPiiCounts, redactText, repRedactsPii } from "../lib/redaction";
 import {
   getPersonaConfig,
   buildPersonaBehaviourSummary,
   DifficultyLevel,
+  type EmotionalState,
+  type PersonaConfig,
 } from "../personas";
+import {
+  DEFAULT_EMOTIONAL_STATE,
+  SHARED_EMOTION_RULES,
+  TURN_LABELS,
+  applyEmotionRules,
+  initialEmotionalState,
+} from "../lib/emotionModel";
+import { classifyTurn, type TurnClassification } from "../lib/turnClassifier";
+import { getTranscriptionProvider, transcribeLiveChunk } from "../lib/transcription";
+import { estimateSpeechMs, getTtsProvider, type Speech } from "../lib/tts";
+import {
+  appendChunk,
+  chunkDurationMs,
+  emptyVoiceMeta,
+  interruptionLevelFor,
+  loadVoiceTimeline,
+  readVoiceMeta,
+  saveTurnAudio,
+  shouldBuyerInterrupt,
+  storeBuyerAudio,
+  utteranceText,
+  type VoiceMeta,
+} from "../lib/voiceSparring";
+import {
+  CustomPersonaSchema,
+  EmotionOverrideSchema,
+  archiveCustomPersona,
+  clearEmotionOverride,
+  createCustomPersona,
+  findPersona,
+  getEmotionOverride,
+  getCustomPersona,
+  listPersonasForOrg,
+  mergePersonaPatch,
+  resolvePersona,
+  setEmotionOverride,
+  updateCustomPersona,
+} from "../services/customPersonas";
 
 // Create a service-role Supabase client (write access)
 const SUPABASE_URL = process.env.SUPABASE_URL!;
@@ -22,6 +62,11 @@ const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY!,
 });
 
+// Voice sparring: synthesised buyer replies are stored next to call audio
+const AUDIO_BUCKET = process.env.SUPABASE_STORAGE_BUCKET || "calls";
+const VOICE_CHUNK_MAX_BYTES = Number(process.env.SPARRING_VOICE_CHUNK_MAX_BYTES || 2 * 1024 * 1024);
+const VOICE_REPLY_GAP_MS = 400; // pause before the buyer answers a finished utterance
+
 // -------------------------
 // Scoring + XP helpers
 // -------------------------
@@ -182,19 +227,37 @@ type MicroScore = {
   flags: string[];
 };
 
-function scoreRepTurnHeuristic(repText: string, buyerText: string): MicroScore {
+// When the rep turn was classified by the model, its labels replace the
+// keyword checks for the rep-side signals; heuristic labels are too coarse
+// for that ("question" is just a "?"), so the keyword checks stay for them.
+function scoreRepTurnHeuristic(
+  repText: string,
+  buyerText: string,
+  classification?: TurnClassification | null
+): MicroScore {
   const rep = (repText || "").trim();
   const buyer = (buyerText || "").trim();
 
   const flags: string[] = [];
 
   // Signals
-  const askedQuestion = rep.includes("?") || containsAny(rep, ["what", "how", "why", "when", "where"]);
+  const labels = classification?.source === "llm" ? new Set<string>(classification.labels) : null;
+  const askedQuestion = labels
+    ? labels.has("question")
+    : rep.includes("?") || containsAny(rep, ["what", "how", "why", "when", "where"]);
   const hasNumbers = /\d/.test(rep);
-  const mentionsPrice = containsAny(rep, ["price", "cost", "expensive", "budget", "roi", "payback", "investment"]);
-  const valueLanguage = containsAny(rep, ["save", "increase", "reduce", "roi", "payback", "time", "revenue", "profit", "conversion"]);
-  const closeLanguage = containsAny(rep, ["next step", "book", "schedule", "slot", "calendar", "move forward", "go ahead", "start", "trial", "pilot"]);
-  const empathy = containsAny(rep, ["totally fair", "makes sense", "i hear you", "understand", "fair point"]);
+  const mentionsPrice = labels
+    ? labels.has("price")
+    : containsAny(rep, ["price", "cost", "expensive", "budget", "roi", "payback", "investment"]);
+  const valueLanguage = labels
+    ? labels.has("value")
+    : containsAny(rep, ["save", "increase", "reduce", "roi", "payback", "time", "revenue", "profit", "conversion"]);
+  const closeLanguage = labels
+    ? labels.has("next_step")
+    : containsAny(rep, ["next step", "book", "schedule", "slot", "calendar", "move forward", "go ahead", "start", "trial", "pilot"]);
+  const empathy = labels
+    ? labels.has("empathy") || labels.has("acknowledgement")
+    : containsAny(rep, ["totally fair", "makes sense", "i hear you", "understand", "fair point"]);
 
   // Buyer objection detection (simple)
   const buyerPriceObj = containsAny(buyer, ["expensive", "too high", "price", "cost", "budget", "roi"]);
@@ -312,132 +375,8 @@ function computeXpForScore(
 }
 
 // -------------------------
-// Emotional state helpers
+// Emotional state helpers (rules + initial mood live in lib/emotionModel)
 // -------------------------
-type EmotionalState = {
-  anger: number;    // 0–100
-  boredom: number;  // 0–100
-  trust: number;    // 0–100
-};
-
-function clampEmotion(n: number): number {
-  if (!Number.isFinite(n)) return 0;
-  return Math.max(0, Math.min(100, Math.round(n)));
-}
-
-function getInitialEmotionalState(personaId: string, difficulty: string): EmotionalState {
-  const base: EmotionalState = { anger: 10, boredom: 10, trust: 30 };
-
-  switch (personaId) {
-    case "angry":
-      return {
-        anger: clampEmotion(difficulty === "nightmare" ? 55 : 45),
-        boredom: 15,
-        trust: 15,
-      };
-    case "silent":
-      return {
-        anger: 15,
-        boredom: clampEmotion(difficulty === "nightmare" ? 55 : 45),
-        trust: 20,
-      };
-    case "price_sensitive":
-      return {
-        anger: 25,
-        boredom: 20,
-        trust: 30,
-      };
-    case "cfo":
-      return {
-        anger: 20,
-        boredom: 20,
-        trust: 35,
-      };
-    case "procurement":
-      return {
-        anger: 20,
-        boredom: 25,
-        trust: 25,
-      };
-    default:
-      return base;
-  }
-}
-
-function applyEmotionalDelta(
-  prev: EmotionalState,
-  opts: {
-    personaId: string;
-    difficulty: string;
-    turnsSoFar: number;
-    lastUserText: string;
-    lastAiText: string;
-  }
-): EmotionalState {
-  const { personaId, difficulty, turnsSoFar, lastUserText } = opts;
-  const lower = (lastUserText || "").toLowerCase();
-  let next: EmotionalState = { ...prev };
-
-  // Base drift: longer drills slowly increase boredom
-  next.boredom = clampEmotion(next.boredom + (turnsSoFar > 8 ? 2 : 1));
-
-  // Persona-driven adjustments
-  if (personaId === "angry") {
-    // Angry buyers heat up faster, especially on harder difficulties
-    const inc = difficulty === "nightmare" ? 4 : difficulty === "hard" ? 3 : 2;
-    next.anger = clampEmotion(next.anger + inc);
-  }
-
-  if (personaId === "silent") {
-    // Silent buyers get bored quickly
-    next.boredom = clampEmotion(next.boredom + (turnsSoFar > 6 ? 3 : 2));
-  }
-
-  if (personaId === "price_sensitive") {
-    // Talk of price/ROI can spike frustration
-    if (/\b(price|cost|expensive|budget|roi)\b/i.test(lower)) {
-      next.anger = clampEmotion(next.anger + 5);
-    }
-  }
-
-  // Positive acknowledgement / buying signals → increase trust, soften anger
-  if (/\b(thanks|thank you|that makes sense|makes sense|got it|sounds good|sounds great|okay that sounds|ok that sounds)\b/i.test(lower)) {
-    next.trust = clampEmotion(next.trust + 4);
-    next.anger = clampEmotion(next.anger - 2);
-  }
-
-  // Empathy / apology from the rep → reduce anger a bit
-  if (/\b(sorry|i understand|i get that|i hear you|totally get)\b/i.test(lower)) {
-    next.anger = clampEmotion(next.anger - 3);
-  }
-
-  // Classic stall / brush-off phrases → boredom up, trust down
-  if (/\b(think about it|send me an email|send me an e-mail|circle back|touch base|maybe later|not a priority)\b/i.test(lower)) {
-    next.boredom = clampEmotion(next.boredom + 4);
-    next.trust = clampEmotion(next.trust - 2);
-  }
-
-  // Hard-close / pressure phrases → anger up, trust down
-  if (/\b(sign today|sign right now|right now|last chance|today only|lock this in)\b/i.test(lower)) {
-    next.anger = clampEmotion(next.anger + 4);
-    next.trust = clampEmotion(next.trust - 3);
-  }
-
-  // Very rough trust nudge if rep is asking questions (helps engagement)
-  if (lastUserText.includes("?")) {
-    next.trust = clampEmotion(next.trust + 2);
-    next.boredom = clampEmotion(next.boredom - 1);
-  }
-
-  // Generic "salesy" language → small trust drop + anger bump
-  if (/\b(deal|sign up|discount|offer|promotion)\b/i.test(lower)) {
-    next.trust = clampEmotion(next.trust - 2);
-    next.anger = clampEmotion(next.anger + 2);
-  }
-
-  return next;
-}
-
 function shouldAutoHangUp(opts: {
   personaId: string;
   difficulty: string;
@@ -536,37 +475,23 @@ function getUserIdHeader(req: Request): string {
 const router = express.Router();
 
 function buildPersonaSystemPrompt(opts: {
-  personaId: string | null;
+  persona: PersonaConfig;
   mode?: string | null;
   difficulty?: string | null;
 }) {
   const mode = opts.mode || "standard";
-  const personaId = opts.personaId || "price_sensitive";
-
-  // Use shared persona config from ../personas
-  const persona = getPersonaConfig(personaId);
-  const difficulty =
-    opts.difficulty ||
-    (persona as any)?.difficultyDefault ||
-    (persona as any)?.difficulty_default ||
-    "normal";
+  const persona = opts.persona;
+  const personaId = persona.id;
+  const difficulty = opts.difficulty || persona.difficultyDefault || "normal";
 
-  const personaLabel = (persona as any)?.label || "Generic Buyer";
-  const traits = Array.isArray((persona as any)?.traits)
-    ? (persona as any).traits
-    : [];
-  const desc = (persona as any)?.description || "";
+  const personaLabel = persona.label || "Generic Buyer";
+  const traits = Array.isArray(persona.traits) ? persona.traits : [];
+  const desc = persona.description || "";
 
   // Try to build a richer behaviour summary from the shared persona helper
   let behaviourSummary = "";
   try {
-    behaviourSummary = buildPersonaBehaviourSummary(
-      {
-        personaId,
-        difficulty: difficulty as DifficultyLevel,
-        mode,
-      } as any
-    );
+    behaviourSummary = buildPersonaBehaviourSummary(persona, difficulty as DifficultyLevel);
   } catch (e) {
     console.warn(
       "[sparring] buildPersonaBehaviourSummary failed, falling back to basic traits",
@@ -584,6 +509,9 @@ function buildPersonaSystemPrompt(opts: {
   if (desc) {
     lines.push(`Description: ${desc}`);
   }
+  if (persona.productContext) {
+    lines.push(`Context you know as this buyer: ${persona.productContext}`);
+  }
 
   const modeLine =
     mode === "time_trial"
@@ -604,7 +532,7 @@ function buildPersonaSystemPrompt(opts: {
   return `
 You are role-playing as a sales prospect in a training drill.
 
-Persona: ${personaLabel} (${personaId}).
+Persona: ${persona.orgId ? personaLabel : `${personaLabel} (${personaId})`}.
 ${personaBlock}
 
 ${diffLine}
@@ -619,53 +547,227 @@ Rules:
 `.trim();
 }
 
-// List available sparring personas (global presets for now)
-router.get("/personas", async (_req, res) => {
-  return res.json({
-    ok: true,
-    personas: [
-      {
-        id: "price_sensitive",
-        label: "Price Sensitive",
-        traits: ["ROI-focused", "Budget restricted"],
-        description:
-          "Pushes back on price early and often. Fixated on ROI and alternatives.",
-        difficulty_default: "normal",
-      },
-      {
-        id: "angry",
-        label: "Angry Buyer",
-        traits: ["Short fuse", "Interrupts"],
-        description:
-          "Easily irritated, talks over you, demanding strong justification.",
-        difficulty_default: "hard",
-      },
-      {
-        id: "silent",
-        label: "Ultra Silent Mode",
-        traits: ["1–3 word answers", "Low engagement"],
-        description:
-          "Barely gives anything. You must carry the conversation and create momentum.",
-        difficulty_default: "nightmare",
-      },
-      {
-        id: "cfo",
-        label: "The CFO",
-        traits: ["Analytical", "Sceptical", "Risk averse"],
-        description:
-          "Wants numbers, risk minimisation, and clear upside justification.",
-        difficulty_default: "hard",
-      },
-      {
-        id: "procurement",
-        label: "Procurement Wall",
-        traits: ["Policy-driven", "Process-focused"],
-        description:
-          "Everything must go through a committee or existing vendor. Loves process.",
-        difficulty_default: "normal",
-      },
-    ],
-  });
+// -------------------------
+// Personas (built-ins + org-defined)
+// -------------------------
+const PERSONA_MANAGER_TIERS = new Set(["Manager", "Owner"]);
+
+/** The requesting rep's org + whether they can edit its personas. */
+async function loadRepOrg(repId: string | null): Promise<{ orgId: string | null; isManager: boolean }> {
+  if (!repId || !isUuid(repId)) return { orgId: null, isManager: false };
+  const { data, error } = await supa.from("reps").select("org_id, tier").eq("id", repId).maybeSingle();
+  if (error) throw new Error(`rep lookup failed: ${error.message}`);
+  return {
+    orgId: (data as any)?.org_id ? String((data as any).org_id) : null,
+    isManager: PERSONA_MANAGER_TIERS.has(String((data as any)?.tier || "")),
+  };
+}
+
+/** A running session's persona; lookup failures fall back to the built-in config. */
+async function sessionPersona(personaId: string, repId: string | null): Promise<PersonaConfig> {
+  try {
+    return await resolvePersona(personaId, (await loadRepOrg(repId)).orgId);
+  } catch (e: any) {
+    console.warn("[sparring] persona resolve failed:", e?.message || e);
+    return getPersonaConfig(personaId);
+  }
+}
+
+function personaListItem(p: PersonaConfig) {
+  return {
+    id: p.id,
+    label: p.label,
+    traits: p.traits,
+    description: p.description,
+    difficulty_default: p.difficultyDefault,
+    modes: p.modes,
+    custom: !!p.orgId,
+  };
+}
+
+// List available sparring personas: global presets + the rep's org personas
+router.get("/personas", async (req, res) => {
+  try {
+    let repId: string | null = null;
+    try {
+      repId = getUserIdHeader(req);
+    } catch {}
+    const { orgId } = await loadRepOrg(repId);
+    const personas = await listPersonasForOrg(orgId);
+    return res.json({ ok: true, personas: personas.map(personaListItem) });
+  } catch (e: any) {
+    console.error("[sparring/personas] list error", e);
+    return res.status(500).json({ ok: false, error: e?.message || "personas_failed" });
+  }
+});
+
+/* ---------------------------------------------
+   Org persona CRUD (Manager / Owner of the org)
+   POST   /v1/sparring/personas        { label, behaviour, traits?, description?, difficultyDefault?,
+                                          modes?, difficulty?, initialEmotion?, productContext? }
+   GET    /v1/sparring/personas/:id    → full PersonaConfig (built-in ids too)
+   PATCH  /v1/sparring/personas/:id    any subset; merged config is re-validated
+   DELETE /v1/sparring/personas/:id    archive (existing sessions keep working)
+
+   Emotional model per persona (built-ins too), org override:
+   GET    /v1/sparring/personas/:id/emotion   → effective rules, shared rules, starting mood
+   PUT    /v1/sparring/personas/:id/emotion   { emotion: { rules, inheritShared?, difficultyScale? }, initialEmotion? }
+   DELETE /v1/sparring/personas/:id/emotion   → back to the persona's own model
+---------------------------------------------- */
+async function requirePersonaManager(req: Request, res: Response) {
+  let repId: string;
+  try {
+    repId = getUserIdHeader(req);
+  } catch {
+    res.status(401).json({ ok: false, error: "missing x-user-id header" });
+    return null;
+  }
+  const { orgId, isManager } = await loadRepOrg(repId);
+  if (!orgId) {
+    res.status(400).json({ ok: false, error: "rep_has_no_org" });
+    return null;
+  }
+  if (!isManager) {
+    res.status(403).json({ ok: false, error: "forbidden" });
+    return null;
+  }
+  return { repId, orgId };
+}
+
+function personaErrorStatus(msg: string) {
+  return msg === "persona_label_taken" ? 409 : 500;
+}
+
+router.post("/personas", express.json(), async (req: Request, res: Response) => {
+  try {
+    const who = await requirePersonaManager(req, res);
+    if (!who) return;
+
+    const parsed = CustomPersonaSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "invalid_persona", details: parsed.error.flatten() });
+    }
+
+    const persona = await createCustomPersona(who.orgId, parsed.data, who.repId);
+    return res.status(201).json({ ok: true, persona });
+  } catch (e: any) {
+    const msg = e?.message || "persona_create_failed";
+    return res.status(personaErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+router.get("/personas/:id", async (req: Request, res: Response) => {
+  try {
+    let repId: string | null = null;
+    try {
+      repId = getUserIdHeader(req);
+    } catch {}
+    const { orgId } = await loadRepOrg(repId);
+    const persona = await findPersona(String(req.params.id), orgId);
+    if (!persona) return res.status(404).json({ ok: false, error: "not_found" });
+    return res.json({ ok: true, persona: { ...persona, custom: !!persona.orgId } });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "persona_load_failed" });
+  }
+});
+
+router.patch("/personas/:id", express.json(), async (req: Request, res: Response) => {
+  try {
+    const who = await requirePersonaManager(req, res);
+    if (!who) return;
+
+    const id = String(req.params.id);
+    const current = await getCustomPersona(who.orgId, id);
+    if (!current) return res.status(404).json({ ok: false, error: "not_found" });
+
+    const patch = req.body && typeof req.body === "object" && !Array.isArray(req.body) ? req.body : null;
+    if (!patch || !Object.keys(patch).length) {
+      return res.status(400).json({ ok: false, error: "nothing to update" });
+    }
+
+    const parsed = CustomPersonaSchema.safeParse(mergePersonaPatch(current, patch));
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "invalid_persona", details: parsed.error.flatten() });
+    }
+
+    const persona = await updateCustomPersona(who.orgId, id, parsed.data);
+    if (!persona) return res.status(404).json({ ok: false, error: "not_found" });
+    return res.json({ ok: true, persona });
+  } catch (e: any) {
+    const msg = e?.message || "persona_update_failed";
+    return res.status(personaErrorStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+router.delete("/personas/:id", async (req: Request, res: Response) => {
+  try {
+    const who = await requirePersonaManager(req, res);
+    if (!who) return;
+
+    const archived = await archiveCustomPersona(who.orgId, String(req.params.id));
+    if (!archived) return res.status(404).json({ ok: false, error: "not_found" });
+    return res.json({ ok: true, id: String(req.params.id), archived: true });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "persona_delete_failed" });
+  }
+});
+
+router.get("/personas/:id/emotion", async (req: Request, res: Response) => {
+  try {
+    let repId: string | null = null;
+    try {
+      repId = getUserIdHeader(req);
+    } catch {}
+    const { orgId } = await loadRepOrg(repId);
+    const persona = await findPersona(String(req.params.id), orgId);
+    if (!persona) return res.status(404).json({ ok: false, error: "not_found" });
+
+    const override = orgId ? await getEmotionOverride(orgId, persona.id) : null;
+    return res.json({
+      ok: true,
+      persona_id: persona.id,
+      overridden: !!override,
+      emotion: persona.emotion ?? { rules: [] },
+      initial_emotion: persona.initialEmotion ?? DEFAULT_EMOTIONAL_STATE,
+      shared_rules: persona.emotion?.inheritShared === false ? [] : SHARED_EMOTION_RULES,
+      labels: TURN_LABELS,
+    });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "persona_emotion_failed" });
+  }
+});
+
+router.put("/personas/:id/emotion", express.json(), async (req: Request, res: Response) => {
+  try {
+    const who = await requirePersonaManager(req, res);
+    if (!who) return;
+
+    const persona = await findPersona(String(req.params.id), who.orgId);
+    if (!persona) return res.status(404).json({ ok: false, error: "not_found" });
+
+    const parsed = EmotionOverrideSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "invalid_emotion_model", details: parsed.error.flatten() });
+    }
+
+    const model = await setEmotionOverride(who.orgId, persona.id, parsed.data, who.repId);
+    return res.json({ ok: true, persona_id: persona.id, overridden: true, ...model });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "persona_emotion_update_failed" });
+  }
+});
+
+router.delete("/personas/:id/emotion", async (req: Request, res: Response) => {
+  try {
+    const who = await requirePersonaManager(req, res);
+    if (!who) return;
+
+    const cleared = await clearEmotionOverride(who.orgId, String(req.params.id));
+    if (!cleared) return res.status(404).json({ ok: false, error: "not_found" });
+    return res.json({ ok: true, persona_id: String(req.params.id), overridden: false });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || "persona_emotion_delete_failed" });
+  }
 });
 
 // --------------------------------------------
@@ -1319,15 +1421,30 @@ router.post('/sessions', express.json(), async (req: Request, res: Response) =>
     // If we still don't have a repId (e.g. local curl), fall back to dev rep
     const effectiveRepId = repId || DEV_REP_ID;
 
-    const { personaId, difficulty, mode, targetDurationSec } = req.body as {
+    const { personaId, difficulty, mode, targetDurationSec, channel } = req.body as {
       personaId?: string;
       difficulty?: string;
       mode?: string;
       targetDurationSec?: number;
+      channel?: string;
     };
 
+    if (channel != null && channel !== "text" && channel !== "voice") {
+      return res.status(400).json({ ok: false, error: "invalid_channel" });
+    }
+
     const sessionId = uuidv4();
 
+    // Resolve with the org's emotional-model overrides; anything uuid-shaped
+    // must be a live persona of the rep's org
+    const personaKey = personaId || "price_sensitive";
+    const { orgId: repOrgId } = await loadRepOrg(effectiveRepId);
+    const found = await findPersona(personaKey, repOrgId);
+    if (!found && isUuid(personaKey)) {
+      return res.status(400).json({ ok: false, error: "unknown_persona" });
+    }
+    const persona: PersonaConfig = found ?? getPersonaConfig(personaKey);
+
     // 2) Make sure the rep exists to satisfy FK (reps.id)
     try {
       const { error: repUpsertErr } = await supa
@@ -1348,10 +1465,11 @@ router.post('/sessions', express.json(), async (req: Request, res: Response) =>
     const payload: any = {
       id: sessionId,
       rep_id: effectiveRepId,
-      persona_id: personaId || 'price_sensitive',
+      persona_id: personaKey,
       difficulty: difficulty || 'normal',
       meta: {
-        personaId: personaId || "price_sensitive",
+        personaId: personaKey,
+        personaLabel: persona.label,
         difficulty: difficulty || "normal",
         // game mode + target duration for time-trial / turns-based drills
         mode: mode || "standard",
@@ -1360,6 +1478,10 @@ router.post('/sessions', express.json(), async (req: Request, res: Response) =>
             ? targetDurationSec
             : null,
 
+        // text (POST /turns) or voice (POST /voice/chunks)
+        channel: channel || "text",
+        ...(channel === "voice" ? { voice: emptyVoiceMeta() } : {}),
+
         // --- XP / streak meta defaults (never null) ---
         streak: 0,
         best_streak: 0,
@@ -1370,8 +1492,8 @@ router.post('/sessions', express.json(), async (req: Request, res: Response) =>
         last_turn_score_raw: 0,
 
         // Initial emotional state for this drill
-        emotional_state: getInitialEmotionalState(
-          personaId || "price_sensitive",
+        emotional_state: initialEmotionalState(
+          persona,
           difficulty || "normal"
         ),
       },
@@ -1399,16 +1521,454 @@ router.post('/sessions', express.json(), async (req: Request, res: Response) =>
   }
 });
 
+// -----------------------------------------
+// One rep turn, end to end
+// -----------------------------------------
+// Classify the rep's message, move the emotional state, decide on a hang-up,
+// get the buyer's reply, persist both turns and micro-score the rep turn.
+// Shared by the text (/turns, /turns/stream) and voice (/voice/chunks)
+// endpoints; callers claim the session's turn slot, then load the session and
+// check access / ended. Both turns and the session meta are written once,
+// after the reply is complete — a stream that drops mid-reply still stores
+// the whole turn. A client turn id is stored on both rows (unique per
+// session), so a retried request replays the stored turn instead.
+
+type RepTurnResult = {
+  turns: any[];
+  ai: string;
+  classification: TurnClassification;
+  emotionalState: EmotionalState;
+  ended: boolean;
+  endReason: "bored" | "angry" | "timeout" | "closed" | null;
+  micro: MicroScore | null;
+};
+
+type RepTurnOptions = {
+  repId: string | null;
+  clientTurnId?: string | null;
+  buyerInterrupts?: boolean;
+  onToken?: (delta: string) => void; // streams the buyer reply as it is generated
+};
+
+// One turn per session at a time (per instance): a retried or doubled request
+// must not interleave with — or duplicate — the turn still being generated.
+const turnsInFlight = new Set<string>();
+
+// Claim the session's turn slot; null while another turn holds it.
+function claimTurn(id: string): (() => void) | null {
+  if (turnsInFlight.has(id)) return null;
+  turnsInFlight.add(id);
+  return () => {
+    turnsInFlight.delete(id);
+  };
+}
+
+async function runRepTurn(session: any, text: string, opts: RepTurnOptions): Promise<RepTurnResult> {
+  const release = claimTurn(String(session.id));
+  if (!release) throw new Error("turn_in_progress");
+  try {
+    return await generateRepTurn(session, text, opts);
+  } finally {
+    release();
+  }
+}
+
+async function generateRepTurn(session: any, text: string, opts: RepTurnOptions): Promise<RepTurnResult> {
+  const id = String(session.id);
+
+  // 1) Fetch existing turns to build conversation context
+  const { data: existingTurns, error: turnsErr } = await supa
+    .from('sparring_turns')
+    .select('role, text')
+    .eq('session_id', id)
+    .order('created_at', { ascending: true });
+
+  if (turnsErr) {
+    console.error('[sparring/turns] load turns error', turnsErr);
+    throw turnsErr;
+  }
+
+  const history = (existingTurns ?? []).map((t: any) => ({
+    role: t.role === 'assistant' ? 'assistant' : 'user',
+    content: t.text,
+  })) as { role: 'user' | 'assistant'; content: string }[];
+
+  // 2) Append the new user turn into the prompt
+  history.push({ role: 'user', content: text });
+
+  // Only PII-redacted text goes to OpenAI (unless the org turned it off);
+  // the stored turns keep what the rep actually said.
+  const redactPii = await repRedactsPii(supa, (session as any).rep_id || opts.repId);
+  const newTurnPii = redactPii ? redactText(text).findings : [];
+  const promptHistory = redactPii
+    ? history.map((m) => ({ ...m, content: redactText(m.content).text }))
+    : history;
+
+  // Compute auto hang-up intent before calling OpenAI
+  const personaId =
+    (session as any).persona_id ||
+    (session as any)?.meta?.personaId ||
+    "price_sensitive";
+
+  const difficultyVal =
+    (session as any).difficulty ||
+    (session as any)?.meta?.difficulty ||
+    "normal";
+
+  const modeVal =
+    (session as any)?.meta?.mode || "standard";
+
+  // Label the rep turn against the buyer line it answers (redacted like the
+  // prompt); the labels drive the emotion rules and the micro-score below.
+  // Started now so it overlaps the persona lookup; the hang-up decision
+  // needs it, so a streamed reply's first token still waits for it.
+  const lastBuyerLine = [...(existingTurns ?? [])].reverse().find((t: any) => t.role === "assistant");
+  const classification = classifyTurn({
+    repText: redactPii ? redactText(text).text : text,
+    buyerText: lastBuyerLine
+      ? redactPii
+        ? redactText(String(lastBuyerLine.text || "")).text
+        : String(lastBuyerLine.text || "")
+      : null,
+  });
+
+  // Org personas + emotional-model overrides come from the rep's org
+  const persona = await sessionPersona(personaId, (session as any).rep_id || opts.repId);
+
+  // Turns so far = full conversation history including this new user turn
+  const turnsSoFar = history.length;
+
+  // --- Emotional state tracking (load previous, then apply delta for this turn) ---
+  const previousMeta =
+    (session as any)?.meta && typeof (session as any).meta === "object"
+      ? ((session as any).meta as Record<string, any>)
+      : {};
+
+  const prevEmotion: EmotionalState =
+    (previousMeta.emotional_state as EmotionalState) ||
+    initialEmotionalState(persona, difficultyVal);
+
+  const turnClassification = await classification;
+
+  const { state: updatedEmotion, fired: emotionRulesFired } = applyEmotionRules(prevEmotion, {
+    persona,
+    difficulty: difficultyVal,
+    turnsSoFar,
+    text,
+    labels: turnClassification.labels,
+  });
+
+  const hangupDecision = shouldAutoHangUp({
+    personaId,
+    difficulty: difficultyVal,
+    mode: modeVal,
+    turnsSoFar,
+    emotionalState: updatedEmotion,
+  });
+
+  // 3) Decide whether the buyer should "hang up" before calling OpenAI
+  let aiText = "";
+  let streamedText = "";
+  let endedThisTurn = false;
+  let endReason: "bored" | "angry" | "timeout" | "closed" | null = null;
+
+  if (hangupDecision.endNow) {
+    endedThisTurn = true;
+    endReason = hangupDecision.reason;
+
+    // Basic canned lines depending on reason/persona
+    switch (hangupDecision.reason) {
+      case "angry":
+        aiText =
+          "You know what, let's just leave it there. I'm going to stick with what we already have. Goodbye.";
+        break;
+      case "bored":
+        aiText =
+          "Look, I’ve got to jump to another call. Let’s leave this here for now.";
+        break;
+      case "closed":
+        aiText =
+          "Alright, that sounds good. Send me the details and we can move ahead, but I have to run now.";
+        break;
+      case "timeout":
+      default:
+        aiText =
+          "I’m out of time on my side, I need to drop off here.";
+        break;
+    }
+  } else {
+    try {
+      let systemPrompt = buildPersonaSystemPrompt({
+        persona,
+        difficulty: difficultyVal,
+        mode: modeVal,
+      });
+      if (opts.buyerInterrupts) {
+        systemPrompt +=
+          "\n\nThe rep is still talking and you are cutting in mid-sentence. " +
+          "Interrupt naturally in one short sentence (under 20 words).";
+      }
+
+      const request = {
+        model: process.env.OPENAI_SPARRING_MODEL || "gpt-4o-mini",
+        messages: [
+          {
+            role: "system" as const,
+            content: systemPrompt,
+          },
+          ...promptHistory,
+        ],
+        temperature: 0.7,
+        max_tokens: 220,
+      };
+
+      if (opts.onToken) {
+        const stream = await openai.chat.completions.create({ ...request, stream: true });
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (!delta) continue;
+          streamedText += delta;
+          opts.onToken(delta);
+        }
+        aiText = streamedText.trim();
+      } else {
+        const completion = await openai.chat.completions.create(request);
+        aiText = completion.choices[0]?.message?.content?.trim() || "";
+      }
+
+      aiText ||= "I'm not convinced yet. Can you explain why this is worth the price?";
+    } catch (llmErr: any) {
+      console.error("[sparring/turns] OpenAI error", llmErr);
+      // Keep what already reached the client of a stream that broke off
+      aiText =
+        streamedText.trim() ||
+        "I'm still not sure about this. The price feels high compared to what I'm getting.";
+    }
+  }
+
+  // Canned / fallback lines reach a streaming client in one piece
+  if (opts.onToken && !streamedText) opts.onToken(aiText);
+
+  // 4) Persist both turns
+  const clientTurnId = opts.clientTurnId ?? null;
+  const { data: insertedTurns, error: insertErr } = await supa
+    .from('sparring_turns')
+    .insert([
+      {
+        session_id: id,
+        role: 'user',
+        text,
+        client_turn_id: clientTurnId,
+      },
+      {
+        session_id: id,
+        role: 'assistant',
+        text: aiText,
+        client_turn_id: clientTurnId,
+      },
+    ])
+    .select('id, session_id, role, text, created_at');
+
+  if (insertErr) {
+    // Same client turn id stored by another instance meanwhile: the retry replays it
+    if (insertErr.code === '23505' && clientTurnId) throw new Error('turn_in_progress');
+    console.error('[sparring/turns] insert error', insertErr);
+    throw insertErr;
+  }
+
+  // -----------------------------
+  // Micro-score the REP turn (best-effort)
+  // -----------------------------
+  let micro: MicroScore | null = null;
+  let microEntry: Record<string, any> | null = null;
+  try {
+    const repTurn = (insertedTurns ?? []).find((t: any) => t.role === "user");
+    const buyerTurn = (insertedTurns ?? []).find((t: any) => t.role === "assistant");
+
+    if (repTurn) {
+      micro = scoreRepTurnHeuristic(text, buyerTurn?.text || aiText, turnClassification);
+
+      // We may not have sparring_turns.meta in DB (depending on schema).
+      // Always return micro to the web immediately.
+      (repTurn as any).micro = micro;
+      (repTurn as any).classification = turnClassification;
+
+      // Best-effort: persist into turn meta if the column exists.
+      try {
+        await supa
+          .from("sparring_turns")
+          .update({
+            meta: {
+              micro_score: micro.turn_score,
+              micro_breakdown: micro.micro_breakdown,
+              coach_note: micro.coach_note,
+              flags: micro.flags,
+              classification: turnClassification,
+            }
+          } as any)
+          .eq("id", repTurn.id);
+      } catch (e: any) {
+        const msg = String(e?.message || "");
+        if (!msg.toLowerCase().includes("column") || !msg.toLowerCase().includes("meta")) {
+          console.warn("[sparring/turns] micro-score persist failed", msg);
+        }
+      }
+
+      // Also append to session meta (this is our guaranteed storage) —
+      // written below together with the emotional state, in one update
+      microEntry = {
+        at: new Date().toISOString(),
+        turn_id: repTurn.id,
+        turn_score: micro.turn_score,
+        breakdown: micro.micro_breakdown,
+        coach_note: micro.coach_note,
+        flags: micro.flags,
+      };
+    }
+  } catch (e: any) {
+    console.warn("[sparring/turns] micro-score persist failed", e?.message || e);
+  }
+
+  // Persist updated emotional state, micro-score (and hang-up info if relevant) on the session meta (best-effort)
+  try {
+    const currentMeta =
+      (session as any)?.meta && typeof (session as any).meta === "object"
+        ? ((session as any).meta as Record<string, any>)
+        : {};
+
+    const mergedMeta: Record<string, any> = {
+      ...currentMeta,
+      emotional_state: updatedEmotion,
+      last_emotion_rules: emotionRulesFired,
+      last_turn_labels: turnClassification.labels,
+      last_turn_classifier: turnClassification.source,
+    };
+
+    if (microEntry) {
+      const existing = Array.isArray(currentMeta.micro_scores) ? currentMeta.micro_scores : [];
+      mergedMeta.micro_scores = [...existing, microEntry].slice(-200);
+    }
+
+    // Running tally of what was redacted from this session's prompts
+    if (newTurnPii.length) {
+      const tally = { ...emptyPiiCounts(), ...(currentMeta.pii_redactions || {}) };
+      for (const f of newTurnPii) tally[f.type] = (Number(tally[f.type]) || 0) + 1;
+      mergedMeta.pii_redactions = tally;
+    }
+
+    if (endedThisTurn) {
+      mergedMeta.ended = true;
+      mergedMeta.end_reason = endReason || "timeout";
+    }
+
+    await supa
+      .from("sparring_sessions")
+      .update({ meta: mergedMeta })
+      .eq("id", id);
+  } catch (e: any) {
+    console.warn(
+      "[sparring/turns] failed to persist emotional_state / end flags",
+      e?.message || e
+    );
+  }
+
+  return {
+    turns: insertedTurns ?? [],
+    ai: aiText,
+    classification: turnClassification,
+    emotionalState: updatedEmotion,
+    ended: endedThisTurn,
+    endReason: endedThisTurn ? endReason || "timeout" : null,
+    micro,
+  };
+}
+
+// Rep for a turn request: x-user-id header, else body.repId (local curl)
+function turnRepId(req: Request): string | null {
+  try {
+    return getUserIdHeader(req);
+  } catch {
+    const bodyRep = (req.body as any)?.repId;
+    return typeof bodyRep === 'string' && bodyRep.trim().length ? bodyRep.trim() : null;
+  }
+}
+
+// Client-generated id of a text turn (body.clientTurnId), for safe retries
+function turnClientId(req: Request): string | null | undefined {
+  const raw = (req.body as any)?.clientTurnId;
+  if (raw == null || raw === '') return null;
+  return typeof raw === 'string' && /^[A-Za-z0-9_-]{1,128}$/.test(raw) ? raw : undefined;
+}
+
+// Both rows of a turn already stored under this client turn id, or null
+async function loadStoredTurn(sessionId: string, clientTurnId: string) {
+  const { data, error } = await supa
+    .from('sparring_turns')
+    .select('id, session_id, role, text, created_at')
+    .eq('session_id', sessionId)
+    .eq('client_turn_id', clientTurnId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data && data.length ? data : null;
+}
+
+// Load a session a rep may add a turn to (access check + not ended). A
+// client turn id that is already stored comes back as `replay` — also once
+// that turn ended the session.
+async function loadTurnSession(
+  id: string,
+  repId: string | null,
+  clientTurnId: string | null = null
+): Promise<{ session: any; replay: any[] | null } | { status: number; body: Record<string, any> }> {
+  const { data: session, error: sessErr } = await supa
+    .from('sparring_sessions')
+    .select('id, rep_id, persona_id, difficulty, meta')
+    .eq('id', id)
+    .single();
+
+  if (sessErr || !session) {
+    console.error('[sparring/turns] session not found', sessErr);
+    return { status: 404, body: { ok: false, error: 'not_found' } };
+  }
+
+  if (
+    repId &&
+    session.rep_id &&
+    session.rep_id !== repId
+  ) {
+    return { status: 403, body: { ok: false, error: 'forbidden' } };
+  }
+
+  const replay = clientTurnId ? await loadStoredTurn(id, clientTurnId) : null;
+  if (replay) return { session, replay };
+
+  // Prevent further turns once a session has been marked as ended
+  const endedMeta =
+    (session as any)?.meta && typeof (session as any).meta === "object"
+      ? (session as any).meta
+      : null;
+  if (endedMeta && (endedMeta as any).ended) {
+    return {
+      status: 409,
+      body: { ok: false, error: "session_ended", reason: (endedMeta as any).end_reason || null },
+    };
+  }
+
+  return { session, replay: null };
+}
+
 // -----------------------------------------
 // POST /v1/sparring/sessions/:id/turns
 // -----------------------------------------
-// Append a user turn and generate an AI reply
+// Append a user turn and generate an AI reply. Body: { text, clientTurnId? };
+// re-sending a clientTurnId returns the stored turn (replayed: true).
 router.post(
   '/sessions/:id/turns',
   express.json(),
   async (req: Request, res: Response) => {
     res.setHeader('Cache-Control', 'no-store');
 
+    let release: (() => void) | null = null;
     try {
       const id = String(req.params.id);
       const { text } = (req.body ?? {}) as { text?: string };
@@ -1418,316 +1978,477 @@ router.post(
           .status(400)
           .json({ ok: false, error: 'text_required' });
       }
-
-      let repId: string | null = null;
-      let orgIdHeader: string | null = null;
-      try {
-        repId = getUserIdHeader(req);
-      } catch {
-        const bodyRep = (req.body as any)?.repId;
-        if (typeof bodyRep === 'string' && bodyRep.trim().length) {
-          repId = bodyRep.trim();
-        }
+      const clientTurnId = turnClientId(req);
+      if (clientTurnId === undefined) {
+        return res.status(400).json({ ok: false, error: 'invalid_client_turn_id' });
       }
-      orgIdHeader =
-        (req.headers['x-org-id'] as string | undefined)?.toString().trim() ||
-        null;
-
-      // 1) Load session and basic access check
-      const { data: session, error: sessErr } = await supa
-        .from('sparring_sessions')
-        .select('id, rep_id, persona_id, difficulty, meta')
-        .eq('id', id)
-        .single();
 
-      if (sessErr || !session) {
-        console.error('[sparring/turns] session not found', sessErr);
-        return res.status(404).json({ ok: false, error: 'not_found' });
+      release = claimTurn(id);
+      if (!release) {
+        return res.status(409).json({ ok: false, error: 'turn_in_progress' });
       }
 
-      if (
-        repId &&
-        session.rep_id &&
-        session.rep_id !== repId
-      ) {
-        return res.status(403).json({ ok: false, error: 'forbidden' });
+      const repId = turnRepId(req);
+      const loaded = await loadTurnSession(id, repId, clientTurnId);
+      if ("status" in loaded) {
+        return res.status(loaded.status).json(loaded.body);
       }
-
-      // Prevent further turns once a session has been marked as ended
-      const endedMeta =
-        (session as any)?.meta && typeof (session as any).meta === "object"
-          ? (session as any).meta
-          : null;
-      if (endedMeta && (endedMeta as any).ended) {
-        return res.status(409).json({
-          ok: false,
-          error: "session_ended",
-          reason: (endedMeta as any).end_reason || null,
+      if (loaded.replay) {
+        return res.json({
+          ok: true,
+          replayed: true,
+          turns: loaded.replay,
+          ai: loaded.replay.find((t: any) => t.role === 'assistant')?.text ?? '',
+          classification: null,
         });
       }
 
-      // 2) Fetch existing turns to build conversation context
-      const { data: existingTurns, error: turnsErr } = await supa
-        .from('sparring_turns')
-        .select('role, text')
-        .eq('session_id', id)
-        .order('created_at', { ascending: true });
+      const result = await generateRepTurn(loaded.session, text, { repId, clientTurnId });
 
-      if (turnsErr) {
-        console.error('[sparring/turns] load turns error', turnsErr);
-        throw turnsErr;
+      return res.json({
+        ok: true,
+        turns: result.turns,
+        ai: result.ai,
+        classification: result.classification,
+      });
+    } catch (err: any) {
+      if (err?.message === 'turn_in_progress') {
+        return res.status(409).json({ ok: false, error: 'turn_in_progress' });
       }
+      console.error(
+        'POST /v1/sparring/sessions/:id/turns unexpected error',
+        err
+      );
+      return res
+        .status(400)
+        .json({ ok: false, error: err?.message || 'bad_request' });
+    } finally {
+      release?.();
+    }
+  }
+);
 
-      const history = (existingTurns ?? []).map((t: any) => ({
-        role: t.role === 'assistant' ? 'assistant' : 'user',
-        content: t.text,
-      })) as { role: 'user' | 'assistant'; content: string }[];
+// -----------------------------------------
+// POST /v1/sparring/sessions/:id/turns/stream
+// -----------------------------------------
+// Same as POST /turns, answered as Server-Sent Events so the buyer's reply
+// shows up while it is being generated:
+//   event: token  data: { delta }                      (repeated)
+//   event: done   data: { turns, ai, classification, emotional_state,
+//                         hangup: { ended, reason }, micro }
+//   event: error  data: { error }
+// Validation failures (400/403/404/409) are plain JSON, before the stream opens.
+// The first token follows the turn classification, which decides on a
+// hang-up (SPARRING_CLASSIFIER_TIMEOUT_MS caps it). A replayed clientTurnId
+// sends only `done` (replayed: true) with the stored turns and session state.
+router.post(
+  '/sessions/:id/turns/stream',
+  express.json(),
+  async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const { text } = (req.body ?? {}) as { text?: string };
 
-      // 3) Append the new user turn into the prompt
-      history.push({ role: 'user', content: text });
+    if (!text || typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ ok: false, error: 'text_required' });
+    }
+    const clientTurnId = turnClientId(req);
+    if (clientTurnId === undefined) {
+      return res.status(400).json({ ok: false, error: 'invalid_client_turn_id' });
+    }
 
-      // Compute auto hang-up intent before calling OpenAI
-      const personaId =
-        (session as any).persona_id ||
-        (session as any)?.meta?.personaId ||
-        "price_sensitive";
+    const release = claimTurn(id);
+    if (!release) {
+      return res.status(409).json({ ok: false, error: 'turn_in_progress' });
+    }
 
-      const difficultyVal =
-        (session as any).difficulty ||
-        (session as any)?.meta?.difficulty ||
-        "normal";
+    try {
+      const repId = turnRepId(req);
+      let loaded: Awaited<ReturnType<typeof loadTurnSession>>;
+      try {
+        loaded = await loadTurnSession(id, repId, clientTurnId);
+      } catch (err: any) {
+        return res.status(400).json({ ok: false, error: err?.message || 'bad_request' });
+      }
+      if ("status" in loaded) {
+        return res.status(loaded.status).json(loaded.body);
+      }
 
-      const modeVal =
-        (session as any)?.meta?.mode || "standard";
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no'); // no proxy buffering (nginx)
+      res.flushHeaders();
+
+      // The turn is generated and persisted even if the client goes away
+      let closed = false;
+      res.on('close', () => {
+        closed = true;
+      });
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
 
-      // Turns so far = full conversation history including this new user turn
-      const turnsSoFar = history.length;
+      if (loaded.replay) {
+        const meta = loaded.session.meta && typeof loaded.session.meta === 'object' ? loaded.session.meta : {};
+        send('done', {
+          ok: true,
+          replayed: true,
+          turns: loaded.replay,
+          ai: loaded.replay.find((t: any) => t.role === 'assistant')?.text ?? '',
+          classification: null,
+          emotional_state: meta.emotional_state ?? null,
+          hangup: { ended: !!meta.ended, reason: meta.end_reason ?? null },
+          micro: null,
+        });
+        if (!closed) res.end();
+        return;
+      }
 
-      // --- Emotional state tracking (load previous, then apply delta for this turn) ---
-      const previousMeta =
-        (session as any)?.meta && typeof (session as any).meta === "object"
-          ? ((session as any).meta as Record<string, any>)
-          : {};
+      try {
+        const result = await generateRepTurn(loaded.session, text, {
+          repId,
+          clientTurnId,
+          onToken: (delta) => send('token', { delta }),
+        });
 
-      const prevEmotion: EmotionalState =
-        (previousMeta.emotional_state as EmotionalState) ||
-        getInitialEmotionalState(personaId, difficultyVal);
+        send('done', {
+          ok: true,
+          turns: result.turns,
+          ai: result.ai,
+          classification: result.classification,
+          emotional_state: result.emotionalState,
+          hangup: { ended: result.ended, reason: result.endReason },
+          micro: result.micro,
+        });
+      } catch (err: any) {
+        console.error('POST /v1/sparring/sessions/:id/turns/stream error', err);
+        send('error', { ok: false, error: err?.message || 'bad_request' });
+      }
+      if (!closed) res.end();
+    } finally {
+      release();
+    }
+  }
+);
 
-      const updatedEmotion = applyEmotionalDelta(prevEmotion, {
-        personaId,
-        difficulty: difficultyVal,
-        turnsSoFar,
-        lastUserText: text,
-        lastAiText: "", // we haven't generated AI yet; this is mainly user-driven
-      });
+// Chunks of one voice session are handled one at a time, in arrival order
+// (per instance): a chunk waits until the previous one is transcribed, its
+// voice state written and — for a final chunk — its turn stored.
+const voiceChunkQueues = new Map<string, Promise<void>>();
+
+async function queueVoiceChunk(id: string): Promise<() => void> {
+  const prev = voiceChunkQueues.get(id) ?? Promise.resolve();
+  let release!: () => void;
+  const mine = new Promise<void>((resolve) => (release = resolve));
+  const tail = prev.then(() => mine);
+  voiceChunkQueues.set(id, tail);
+  await prev;
+  return () => {
+    release();
+    if (voiceChunkQueues.get(id) === tail) voiceChunkQueues.delete(id);
+  };
+}
 
-      const hangupDecision = shouldAutoHangUp({
-        personaId,
-        difficulty: difficultyVal,
-        mode: modeVal,
-        turnsSoFar,
-        emotionalState: updatedEmotion,
-      });
+// Write meta.voice on top of the session's current meta, so a chunk never
+// overwrites the emotional state, micro-scores or end flags of a turn that
+// landed in between.
+async function writeVoiceMeta(id: string, update: (voice: VoiceMeta) => VoiceMeta) {
+  const { data: fresh, error } = await supa.from("sparring_sessions").select("meta").eq("id", id).single();
+  if (error) throw error;
+  const freshMeta = fresh?.meta && typeof fresh.meta === "object" ? (fresh.meta as Record<string, any>) : {};
+  const { error: upErr } = await supa
+    .from("sparring_sessions")
+    .update({ meta: { ...freshMeta, voice: update(readVoiceMeta(freshMeta)) } })
+    .eq("id", id);
+  if (upErr) throw upErr;
+}
 
-      // 4) Decide whether the buyer should "hang up" before calling OpenAI
-      let aiText = "";
-      let endedThisTurn = false;
-      let endReason: "bored" | "angry" | "timeout" | "closed" | null = null;
+// -----------------------------------------
+// POST /v1/sparring/sessions/:id/voice/chunks?seq=&offsetMs=&durationMs=&final=
+// -----------------------------------------
+// Voice sessions only. Body: one raw audio chunk of the rep's microphone.
+//   seq        0,1,2… per session (re-sent chunks are acknowledged, not re-applied)
+//   offsetMs   where the chunk starts on the session timeline
+//   durationMs optional, used when the audio header has no duration
+//   final=1    the rep stopped talking (body may be empty)
+// Mid-utterance the reply is just the transcript so far — unless the persona
+// cuts in. A final chunk or an interruption runs the turn like POST /turns and
+// returns the buyer's reply with its synthesised audio (base64).
+router.post(
+  "/sessions/:id/voice/chunks",
+  express.raw({ type: () => true, limit: VOICE_CHUNK_MAX_BYTES }),
+  async (req: Request, res: Response) => {
+    res.setHeader("Cache-Control", "no-store");
 
-      if (hangupDecision.endNow) {
-        endedThisTurn = true;
-        endReason = hangupDecision.reason;
+    let release: (() => void) | null = null;
+    try {
+      const id = String(req.params.id);
+      const seq = Number(req.query.seq);
+      const offsetMs = Number(req.query.offsetMs);
+      const clientDurationMs = req.query.durationMs != null ? Number(req.query.durationMs) : null;
+      const final = ["1", "true"].includes(String(req.query.final || "").toLowerCase());
+      const audio = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      if (!Number.isInteger(seq) || seq < 0) {
+        return res.status(400).json({ ok: false, error: "invalid_seq" });
+      }
+      if (!Number.isFinite(offsetMs) || offsetMs < 0) {
+        return res.status(400).json({ ok: false, error: "invalid_offset" });
+      }
+      if (!audio.length && !final) {
+        return res.status(400).json({ ok: false, error: "audio_required" });
+      }
 
-        // Basic canned lines depending on reason/persona
-        switch (hangupDecision.reason) {
-          case "angry":
-            aiText =
-              "You know what, let's just leave it there. I'm going to stick with what we already have. Goodbye.";
-            break;
-          case "bored":
-            aiText =
-              "Look, I’ve got to jump to another call. Let’s leave this here for now.";
-            break;
-          case "closed":
-            aiText =
-              "Alright, that sounds good. Send me the details and we can move ahead, but I have to run now.";
-            break;
-          case "timeout":
-          default:
-            aiText =
-              "I’m out of time on my side, I need to drop off here.";
-            break;
-        }
-      } else {
-        try {
-          const systemPrompt = buildPersonaSystemPrompt({
-            personaId,
-            difficulty: difficultyVal,
-            mode: modeVal,
-          });
+      let repId: string | null = null;
+      try {
+        repId = getUserIdHeader(req);
+      } catch {}
 
-          const completion = await openai.chat.completions.create({
-            model: process.env.OPENAI_SPARRING_MODEL || "gpt-4o-mini",
-            messages: [
-              {
-                role: "system",
-                content: systemPrompt,
-              },
-              ...history,
-            ],
-            temperature: 0.7,
-            max_tokens: 220,
-          });
+      release = await queueVoiceChunk(id);
+      const { data: session, error: sessErr } = await supa
+        .from("sparring_sessions")
+        .select("id, rep_id, persona_id, difficulty, meta")
+        .eq("id", id)
+        .single();
 
-          aiText =
-            completion.choices[0]?.message?.content?.trim() ||
-            "I'm not convinced yet. Can you explain why this is worth the price?";
-        } catch (llmErr: any) {
-          console.error("[sparring/turns] OpenAI error", llmErr);
-          aiText =
-            "I'm still not sure about this. The price feels high compared to what I'm getting.";
-        }
+      if (sessErr || !session) {
+        return res.status(404).json({ ok: false, error: "not_found" });
+      }
+      if (repId && session.rep_id && session.rep_id !== repId) {
+        return res.status(403).json({ ok: false, error: "forbidden" });
       }
 
-      // 5) Persist both turns
-      const { data: insertedTurns, error: insertErr } = await supa
-        .from('sparring_turns')
-        .insert([
-          {
-            session_id: id,
-            role: 'user',
-            text,
-          },
-          {
-            session_id: id,
-            role: 'assistant',
-            text: aiText,
-          },
-        ])
-        .select('id, session_id, role, text, created_at');
+      const meta =
+        session.meta && typeof session.meta === "object" ? (session.meta as Record<string, any>) : {};
+      if (meta.ended) {
+        return res.status(409).json({ ok: false, error: "session_ended", reason: meta.end_reason || null });
+      }
+      if (meta.channel !== "voice") {
+        return res.status(409).json({ ok: false, error: "not_voice_session" });
+      }
 
-      if (insertErr) {
-        console.error('[sparring/turns] insert error', insertErr);
-        throw insertErr;
+      let voice = readVoiceMeta(meta);
+      if (seq <= voice.last_seq) {
+        return res.json({ ok: true, seq, duplicate: true, partial: utteranceText(voice.pending) });
       }
 
-      // -----------------------------
-      // Micro-score the REP turn (best-effort)
-      // -----------------------------
-      try {
-        const repTurn = (insertedTurns ?? []).find((t: any) => t.role === "user");
-        const buyerTurn = (insertedTurns ?? []).find((t: any) => t.role === "assistant");
-
-        if (repTurn) {
-          const micro = scoreRepTurnHeuristic(text, buyerTurn?.text || aiText);
-
-          // We may not have sparring_turns.meta in DB (depending on schema).
-          // Always return micro to the web immediately.
-          (repTurn as any).micro = micro;
-
-          // Best-effort: persist into turn meta if the column exists.
-          try {
-            await supa
-              .from("sparring_turns")
-              .update({
-                meta: {
-                  micro_score: micro.turn_score,
-                  micro_breakdown: micro.micro_breakdown,
-                  coach_note: micro.coach_note,
-                  flags: micro.flags,
-                }
-              } as any)
-              .eq("id", repTurn.id);
-          } catch (e: any) {
-            const msg = String(e?.message || "");
-            if (!msg.toLowerCase().includes("column") || !msg.toLowerCase().includes("meta")) {
-              console.warn("[sparring/turns] micro-score persist failed", msg);
-            }
-          }
+      // 1) Transcribe the chunk (a failure leaves last_seq alone so the client can re-send)
+      const sttProvider = getTranscriptionProvider();
+      if (audio.length) {
+        let chunkText = "";
+        try {
+          const t = await transcribeLiveChunk(
+            { audio, filename: `chunk-${seq}.wav`, mime: req.header("content-type") || null },
+            sttProvider
+          );
+          chunkText = t.text;
+        } catch (e: any) {
+          console.error("[sparring/voice] chunk transcription failed", e?.message || e);
+          return res.status(502).json({ ok: false, error: "transcription_failed" });
+        }
+        voice = appendChunk(voice, {
+          seq,
+          offset_ms: Math.round(offsetMs),
+          duration_ms: chunkDurationMs(audio, clientDurationMs),
+          text: chunkText,
+        });
+      } else {
+        voice = { ...voice, last_seq: seq };
+      }
 
-          // Also append to session meta (this is our guaranteed storage)
-          try {
-            const currentMeta =
-              (session as any)?.meta && typeof (session as any).meta === "object"
-                ? ((session as any).meta as Record<string, any>)
-                : {};
+      // 2) Still talking: does the buyer cut in?
+      const personaId = session.persona_id || meta.personaId || "price_sensitive";
+      const difficultyVal = session.difficulty || meta.difficulty || "normal";
+      const persona = await sessionPersona(personaId, session.rep_id || repId);
+      const interrupt =
+        !final &&
+        shouldBuyerInterrupt({
+          level: interruptionLevelFor(persona, difficultyVal),
+          pending: voice.pending,
+          emotion: meta.emotional_state ?? null,
+        });
 
-            const existing = Array.isArray((currentMeta as any).micro_scores)
-              ? (currentMeta as any).micro_scores
-              : [];
+      const pending = voice.pending;
+      const repText = utteranceText(pending);
 
-            const entry = {
-              at: new Date().toISOString(),
-              turn_id: repTurn.id,
-              turn_score: micro.turn_score,
-              breakdown: micro.micro_breakdown,
-              coach_note: micro.coach_note,
-              flags: micro.flags,
-            };
-
-            const mergedMeta: Record<string, any> = {
-              ...currentMeta,
-              micro_scores: [...existing, entry].slice(-200),
-            };
-
-            // Preserve emotional_state / end flags which are also being written later
-            await supa
-              .from("sparring_sessions")
-              .update({ meta: mergedMeta } as any)
-              .eq("id", id);
-          } catch (e: any) {
-            // non-fatal
-          }
-        }
-      } catch (e: any) {
-        console.warn("[sparring/turns] micro-score persist failed", e?.message || e);
+      if ((!final && !interrupt) || !pending || !repText) {
+        if (final) voice = { ...voice, pending: null }; // silence: nothing to answer
+        await writeVoiceMeta(id, () => voice);
+        return res.json({ ok: true, seq, partial: repText, interrupt: false, turn: null });
       }
 
-      // Persist updated emotional state (and hang-up info if relevant) on the session meta (best-effort)
-      try {
-        const currentMeta =
-          (session as any)?.meta && typeof (session as any).meta === "object"
-            ? ((session as any).meta as Record<string, any>)
-            : {};
+      // 3) The utterance becomes a rep turn (runRepTurn writes meta, voice state included)
+      voice = { ...voice, pending: null };
+      const result = await runRepTurn(
+        { ...session, meta: { ...meta, voice } },
+        repText,
+        { repId, buyerInterrupts: interrupt }
+      );
 
-        const mergedMeta: Record<string, any> = {
-          ...currentMeta,
-          emotional_state: updatedEmotion,
-        };
+      // 4) Buyer audio + timeline offsets
+      let speech: Speech | null = null;
+      try {
+        speech = await getTtsProvider().synthesize({ text: result.ai, pace: persona.behaviour.pace });
+      } catch (e: any) {
+        console.warn("[sparring/voice] tts failed", e?.message || e);
+      }
 
-        if (endedThisTurn) {
-          mergedMeta.ended = true;
-          mergedMeta.end_reason = endReason || "timeout";
-        }
+      const repTurn = result.turns.find((t: any) => t.role === "user");
+      const buyerTurn = result.turns.find((t: any) => t.role === "assistant");
+      const buyerStart = interrupt
+        ? pending.ended_ms
+        : Math.max(pending.ended_ms + VOICE_REPLY_GAP_MS, voice.cursor_ms);
+      const buyerEnd = buyerStart + (speech?.durationMs ?? estimateSpeechMs(result.ai, persona.behaviour.pace));
+
+      const storagePath =
+        speech && buyerTurn
+          ? await storeBuyerAudio(supa, {
+              bucket: AUDIO_BUCKET,
+              sessionId: id,
+              turnId: buyerTurn.id,
+              audio: speech.audio,
+              mime: speech.mime,
+            })
+          : null;
 
-        await supa
-          .from("sparring_sessions")
-          .update({ meta: mergedMeta })
-          .eq("id", id);
+      await saveTurnAudio(supa, [
+        ...(repTurn
+          ? [{
+              turn_id: repTurn.id,
+              session_id: id,
+              role: "user" as const,
+              start_ms: pending.started_ms,
+              end_ms: pending.ended_ms,
+              interrupted: interrupt,
+              provider: sttProvider.name,
+              storage_path: null,
+            }]
+          : []),
+        ...(buyerTurn
+          ? [{
+              turn_id: buyerTurn.id,
+              session_id: id,
+              role: "assistant" as const,
+              start_ms: buyerStart,
+              end_ms: buyerEnd,
+              interrupted: interrupt,
+              provider: speech?.provider ?? null,
+              storage_path: storagePath,
+            }]
+          : []),
+      ]);
+
+      // Move the cursor on top of whatever runRepTurn stored
+      try {
+        await writeVoiceMeta(id, (v) => ({ ...v, pending: null, cursor_ms: buyerEnd }));
       } catch (e: any) {
-        console.warn(
-          "[sparring/turns] failed to persist emotional_state / end flags",
-          e?.message || e
-        );
+        console.warn("[sparring/voice] cursor update failed", e?.message || e);
       }
 
       return res.json({
         ok: true,
-        turns: insertedTurns ?? [],
-        ai: aiText,
+        seq,
+        interrupt,
+        turns: result.turns,
+        ai: result.ai,
+        classification: result.classification,
+        emotional_state: result.emotionalState,
+        ended: result.ended,
+        end_reason: result.endReason,
+        micro: result.micro,
+        timeline: {
+          rep: { start_ms: pending.started_ms, end_ms: pending.ended_ms, interrupted: interrupt },
+          buyer: { start_ms: buyerStart, end_ms: buyerEnd },
+        },
+        audio: speech
+          ? {
+              provider: speech.provider,
+              mime: speech.mime,
+              duration_ms: speech.durationMs,
+              base64: speech.audio.toString("base64"),
+            }
+          : null,
       });
     } catch (err: any) {
-      console.error(
-        'POST /v1/sparring/sessions/:id/turns unexpected error',
-        err
-      );
-      return res
-        .status(400)
-        .json({ ok: false, error: err?.message || 'bad_request' });
+      if (err?.message === "turn_in_progress") {
+        return res.status(409).json({ ok: false, error: "turn_in_progress" });
+      }
+      console.error("POST /v1/sparring/sessions/:id/voice/chunks unexpected error", err);
+      return res.status(400).json({ ok: false, error: err?.message || "bad_request" });
+    } finally {
+      release?.();
     }
   }
 );
 
+// Shared access check for the voice read endpoints
+async function loadOwnedSession(req: Request, res: Response): Promise<any | null> {
+  let repId: string | null = null;
+  try {
+    repId = getUserIdHeader(req);
+  } catch {}
+
+  const { data: session, error } = await supa
+    .from("sparring_sessions")
+    .select("id, rep_id, meta")
+    .eq("id", String(req.params.id))
+    .maybeSingle();
+  if (error || !session) {
+    res.status(404).json({ ok: false, error: "not_found" });
+    return null;
+  }
+  if (repId && session.rep_id && session.rep_id !== repId) {
+    res.status(403).json({ ok: false, error: "forbidden" });
+    return null;
+  }
+  return session;
+}
+
+// GET /v1/sparring/sessions/:id/voice/timeline
+// Turns in order with their audio offsets (null for turns that weren't spoken)
+router.get("/sessions/:id/voice/timeline", async (req: Request, res: Response) => {
+  res.setHeader("Cache-Control", "no-store");
+  try {
+    const session = await loadOwnedSession(req, res);
+    if (!session) return;
+    const timeline = await loadVoiceTimeline(supa, session.id);
+    return res.json({ ok: true, sessionId: session.id, channel: session.meta?.channel || "text", timeline });
+  } catch (err: any) {
+    console.error("GET /v1/sparring/sessions/:id/voice/timeline error", err);
+    return res.status(500).json({ ok: false, error: err?.message || "timeline_failed" });
+  }
+});
+
+// GET /v1/sparring/sessions/:id/voice/turns/:turnId/audio
+// Replays a buyer turn's synthesised audio
+router.get("/sessions/:id/voice/turns/:turnId/audio", async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnedSession(req, res);
+    if (!session) return;
+
+    const { data: row, error } = await supa
+      .from("sparring_turn_audio")
+      .select("storage_path")
+      .eq("session_id", session.id)
+      .eq("turn_id", String(req.params.turnId))
+      .maybeSingle();
+    if (error) throw error;
+    if (!row?.storage_path) return res.status(404).json({ ok: false, error: "audio_not_found" });
+
+    const { data: blob, error: dlErr } = await supa.storage.from(AUDIO_BUCKET).download(row.storage_path);
+    if (dlErr || !blob) return res.status(404).json({ ok: false, error: "audio_not_found" });
+
+    res.setHeader("Content-Type", blob.type || "audio/wav");
+    res.setHeader("Cache-Control", "private, max-age=3600");
+    return res.send(Buffer.from(await blob.arrayBuffer()));
+  } catch (err: any) {
+    console.error("GET /v1/sparring/sessions/:id/voice/turns/:turnId/audio error", err);
+    return res.status(500).json({ ok: false, error: err?.message || "audio_failed" });
+  }
+});
+
 // -----------------------------------------
 // POST /v1/sparring/sessions/:id/micro-score
 // -----------------------------------------
@@ -2106,25 +2827,25 @@ router.get('/sessions/:id', async (req: Request, res: Response) => {
 });
 
 router.post("/analyse-turn", async (req, res) => {
-  const { text } = req.body || {};
-  if (!text) return res.json({ ok: false, error: "text_required" });
-
-  const prompt = `
-Classify this buyer message into:
-- sentiment: positive | neutral | negative
-- intent: curious | buying | resisting | frustrated
-- category: price | timing | authority | confusion | none
-Text: "${text}"
-Return JSON ONLY.
-`;
-
-  const r = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [{ role: "user", content: prompt }],
-    max_tokens: 80
-  });
+  const { text: raw } = req.body || {};
+  if (!raw) return res.json({ ok: false, error: "text_required" });
 
-  return res.json({ ok: true, label: r.choices[0].message.content });
+  let repId: string | null = null;
+  try {
+    repId = getUserIdHeader(req);
+  } catch {}
+  const text = (await repRedactsPii(supa, repId)) ? redactText(String(raw)).text : String(raw);
+
+  // Typed buyer-side classification (model, or the keyword fallback offline).
+  // `label` keeps the old JSON-string shape for existing callers.
+  const classification = await classifyTurn({ buyerText: text });
+
+  return res.json({
+    ok: true,
+    classification: classification.buyer,
+    source: classification.source,
+    label: JSON.stringify(classification.buyer),
+  });
 });
 
 export default router;
@@ -4,14 +4,46 @@ import express from "express";
 import cors from "cors";
 import multer from "multer";
 import crypto from "crypto";
+import { createReadStream } from "fs";
+import fs from "fs/promises";
 import { createClient } from "@supabase/supabase-js";
 
 import { randomUUID } from "crypto";
 import { postSlack, postAssignNotification /* , postScoreSummary */ } from "./lib/slack";
-import { scoreWithLLM } from "./lib/scoring";
+import { scoreWithLLM, sectionScores } from "./lib/scoring";
+import { transcribeCall } from "./lib/transcription";
+import { importCallFields, importCallTranscript, parseCallImport, type CallImport } from "./lib/callImport";
+import {
+  audioMeta,
+  isAudioRejection,
+  prepareCallAudio,
+  readAudioFileSample,
+  readStoredAudioSample,
+  validateAudio,
+  type PreparedAudio,
+} from "./lib/audio";
+import { enqueueJob, registerJobHandler, startJobRunner } from "./lib/jobQueue";
+import { getRubricById } from "./services/rubrics";
+import { extractCallObjections } from "./lib/objections";
+import { createSystemPins } from "./lib/autoPins";
+import { averageConversationMetrics, computeConversationMetrics } from "./lib/conversationMetrics";
+import { topObjections } from "./services/objectionInsights";
+import { runRetentionPurge, scheduleRetentionPurge } from "./services/retention";
+import { findDuplicateCall, normalizeSha256, type DuplicateCall } from "./services/uploadDedupe";
+import {
+  MAX_PART_SIZE,
+  assembleUpload,
+  closeUploadSession,
+  createUploadSession,
+  expireUploadSession,
+  getUploadSession,
+  listUploadParts,
+  missingParts,
+  putUploadPart,
+} from "./services/chunkedUploads";
 
 import callsRouter from "./routes/calls";
-import pinsRouter from "./routes/pins";
+import pinsRouter, { callPinsRouter } from "./routes/pins";
 import crmRouter from "./routes/crm.ts";
 import dashboardRoutes from "./routes/dashboard";
 import sparringRouter from "./routes/sparring";
@@ -25,6 +57,7 @@ import whispererRouter from "./routes/whisperer";
 import adminRouter from "./routes/admin";
 import { assignmentsRoutes } from "./routes/assignments";
 import debugRouter from "./routes/debug";
+import rubricsRouter from "./routes/rubrics";
 
 const REQUIRED_ENV = [
   "SUPABASE_URL",
@@ -327,7 +360,7 @@ app.get("/v1/reps/:id/overview", async (req, res) => {
     // Calls since window
     const { data: calls } = await supabase
       .from("calls")
-      .select("id, filename, created_at, score_overall, status, account_id, contact_id")
+      .select("id, filename, created_at, score_overall, status, account_id, contact_id, conversation_metrics")
       .eq("user_id", repId)
       .gte("created_at", sinceIso)
       .order("created_at", { ascending: false })
@@ -339,7 +372,10 @@ app.get("/v1/reps/:id/overview", async (req, res) => {
       ? Math.round(scored.reduce((a: number, c: any) => a + Number(c.score_overall), 0) / scored.length)
       : null;
 
-    const recent_calls = (calls || []).slice(0, 20);
+    // Talk ratio / pace / interruptions averaged over transcribed calls in the window
+    const conversation = averageConversationMetrics((calls || []).map((c: any) => c.conversation_metrics));
+
+    const recent_calls = (calls || []).slice(0, 20).map(({ conversation_metrics, ...c }: any) => c);
 
     const { data: assignsRows } = await supabase
       .from("coach_assignments")
@@ -415,6 +451,7 @@ app.get("/v1/reps/:id/overview", async (req, res) => {
         avgScore: typeof avgScore === "number" ? avgScore : 0,
         winRate: null
       },
+      conversation,
       trends: {
         xp: [],           // leave empty until XP daily is wired
         score: scoreTrend,
@@ -430,36 +467,36 @@ app.get("/v1/reps/:id/overview", async (req, res) => {
   }
 });
 
-// --- Dashboard: Top Objections (from assignments.drill_id starting 'objection-') ---
+// --- Dashboard: Top Objections (extracted per call into call_objections) ---
+// Query: days (default 90), limit, repId?
+// Scoped to the requester's org (reps.org_id): the items carry verbatim quotes,
+// so an orgId for any other org is refused and nothing is publicly cacheable.
+// items[]: category, label, count, calls, share, avg_handling, trend, change_pct, best_example
 app.get("/v1/dashboard/objections/top", async (req, res) => {
   try {
-    const days = Math.min(Number(req.query.days || 90), 365);
-    const limit = Math.min(Number(req.query.limit || 5), 20);
-    const sinceIso = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    let userId: string;
+    try {
+      userId = getUserId(req);
+    } catch (e: any) {
+      return res.status(401).json({ ok: false, error: e?.message || "unauthorized" });
+    }
 
-    const { data: assigns, error } = await supabase
-      .from("coach_assignments")
-      .select("drill_id, created_at")
-      .gte("created_at", sinceIso)
-      .ilike("drill_id", "objection-%")
-      .order("created_at", { ascending: false })
-      .limit(2000);
-    if (error) return res.status(500).json({ ok: false, error: error.message });
+    const orgId = await requesterOrgId(userId);
+    if (!orgId) return res.status(403).json({ ok: false, error: "requester_has_no_org" });
+    const askedOrg = req.query.orgId ? String(req.query.orgId).trim() : null;
+    if (askedOrg && askedOrg !== orgId) return res.status(403).json({ ok: false, error: "forbidden" });
 
-    const byLabel = new Map<string, number>();
-    for (const a of assigns || []) {
-      const label = String((a as any).drill_id || "");
-      if (!label) continue;
-      byLabel.set(label, (byLabel.get(label) || 0) + 1);
-    }
+    const repId = req.query.repId ? String(req.query.repId).trim() : null;
 
-    const items = Array.from(byLabel.entries())
-      .map(([label, count]) => ({ label, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, limit);
+    const result = await topObjections({
+      orgId,
+      repId,
+      days: Number(req.query.days || 90),
+      limit: Number(req.query.limit || 5),
+    });
 
-    res.set("Cache-Control", "public, max-age=15");
-    return res.json({ ok: true, items, since: sinceIso });
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, ...result });
   } catch (e: any) {
     return res.status(500).json({ ok: false, error: e?.message || "top_objections_failed" });
   }
@@ -507,6 +544,13 @@ function getUserId(req: express.Request): string {
   return uid;
 }
 
+/** The requester's org (reps.org_id), or null when they have none. */
+async function requesterOrgId(userId: string): Promise<string | null> {
+  const { data, error } = await supabase.from("reps").select("org_id").eq("id", userId).maybeSingle();
+  if (error) throw new Error(`Failed to load requester org: ${error.message}`);
+  return (data as any)?.org_id ? String((data as any).org_id) : null;
+}
+
 function requireAdmin(
   req: express.Request,
   res: express.Response,
@@ -552,10 +596,11 @@ async function buildSlackSummaryBlocks(opts: {
   callId: string;
   filename?: string | null;
   overall: number;
-  sections: { intro?: number; discovery?: number; objection?: number; close?: number };
+  sections: Record<string, number | undefined>; // rubric section key → score
   siteUrl: string;
+  fallback?: boolean; // heuristic score (LLM unavailable)
 }) {
-  const { supabase, callId, filename, overall, sections, siteUrl } = opts;
+  const { supabase, callId, filename, overall, sections, siteUrl, fallback } = opts;
 
   const { data: callRow } = await supabase
     .from("calls")
@@ -594,11 +639,15 @@ async function buildSlackSummaryBlocks(opts: {
   const callUrl = `${siteUrl}/calls/${callId}`;
   const crmPanelUrl = `${callUrl}?panel=crm`;
 
+  // Org rubrics use their own section keys: "decision_criteria" → "Decision criteria"
+  const sectionLabel = (key: string) => {
+    const words = key.replace(/_/g, " ");
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  };
   const sectionLines: string[] = [];
-  if (typeof sections.intro === "number") sectionLines.push(`• *Intro:* ${Math.round(sections.intro)}%`);
-  if (typeof sections.discovery === "number") sectionLines.push(`• *Discovery:* ${Math.round(sections.discovery)}%`);
-  if (typeof sections.objection === "number") sectionLines.push(`• *Objection:* ${Math.round(sections.objection)}%`);
-  if (typeof sections.close === "number") sectionLines.push(`• *Close:* ${Math.round(sections.close)}%`);
+  for (const [key, score] of Object.entries(sections)) {
+    if (typeof score === "number") sectionLines.push(`• *${sectionLabel(key)}:* ${Math.round(score)}%`);
+  }
   const sectionText = sectionLines.join("\n");
 
   const chips: string[] = [];
@@ -607,7 +656,7 @@ async function buildSlackSummaryBlocks(opts: {
   if (!contact || !account) chips.push(`<${crmPanelUrl}|🔗 Link contact/account>`);
 
   const blocks: any[] = [
-    { type: "section", text: { type: "mrkdwn", text: `*Call scored:* <${callUrl}|${filename || callId}>\n*Overall:* ${Math.round(overall)}%` } },
+    { type: "section", text: { type: "mrkdwn", text: `*Call scored:* <${callUrl}|${filename || callId}>\n*Overall:* ${Math.round(overall)}%${fallback ? " _(heuristic fallback)_" : ""}` } },
   ];
 
   if (sectionText) {
@@ -627,6 +676,33 @@ async function buildSlackSummaryBlocks(opts: {
   return { blocks };
 }
 
+/* ------------------------------------------
+   Duplicate uploads: same sha256 for the user or their org resolves to the
+   existing call (no new row or job). allowDuplicate=1 (query or body)
+   forces a fresh call.
+-------------------------------------------*/
+function allowDuplicateUpload(req: express.Request) {
+  const v = req.query.allowDuplicate ?? (req.body || {}).allowDuplicate;
+  return v === true || v === "1" || v === "true";
+}
+
+/** 415 for formats we can't read, 422 for readable-but-unusable audio. */
+function audioRejectionStatus(code: string) {
+  return code === "unsupported_format" || code === "unsupported_codec" ? 415 : 422;
+}
+
+function duplicateResponse(existing: DuplicateCall, sha256: string) {
+  return {
+    ok: true,
+    duplicate: true,
+    callId: existing.id,
+    status: existing.status,
+    filename: existing.filename,
+    createdAt: existing.created_at,
+    sha256,
+  };
+}
+
 /* ------------------------------------------
    Signed Uploads (optional, behind flag)
 -------------------------------------------*/
@@ -638,6 +714,13 @@ app.post("/v1/upload/signed", async (req, res) => {
     };
     if (!filename) return res.status(400).json({ ok: false, error: "missing_filename" });
 
+    // Known file → no upload needed
+    const hash = normalizeSha256(sha256);
+    if (hash && !allowDuplicateUpload(req)) {
+      const existing = await findDuplicateCall({ sha256: hash, userId });
+      if (existing) return res.json(duplicateResponse(existing, hash));
+    }
+
     const isJson = (mime || "").includes("json") || filename.toLowerCase().endsWith(".json");
     const kind = isJson ? "json" : "audio";
     const id = crypto.randomUUID();
@@ -676,17 +759,44 @@ app.post("/v1/upload/finalize", async (req, res) => {
     if (!path || !filename) return res.status(400).json({ ok: false, error: "missing_path_or_filename" });
     if (!path.startsWith(`${userId}/`)) return res.status(400).json({ ok: false, error: "path_user_mismatch" });
 
-    // best-effort existence check
-    try {
-      const test = await supabase.storage.from(BUCKET).createSignedUrl(path, 30);
-      if (test.error) throw test.error;
-      await fetch(test.data.signedUrl, { method: "HEAD" }).catch(() => { });
-    } catch { /* ignore */ }
-
     const id = path.split("/").pop()!.split(".")[0];
     const isJson = (mime || "").includes("json") || filename.toLowerCase().endsWith(".json");
     const kind = isJson ? "json" : "audio";
-    const hash = (sha256 && /^[a-f0-9]{64}$/i.test(sha256)) ? sha256.toLowerCase() : null;
+    const hash = normalizeSha256(sha256);
+
+    // Validate what actually landed in storage (audio: container, codec and
+    // duration from ranged reads of its ends; json: the call-import format)
+    let audio: ReturnType<typeof validateAudio> | null = null;
+    let imported: CallImport | null = null;
+    if (kind === "audio") {
+      const sample = await readStoredAudioSample({ supabase, bucket: BUCKET, storagePath: path }).catch(() => null);
+      if (!sample) return res.status(400).json({ ok: false, error: "upload_not_found" });
+      try {
+        audio = validateAudio(sample);
+      } catch (e: any) {
+        if (!isAudioRejection(e?.message)) throw e;
+        await supabase.storage.from(BUCKET).remove([path]).catch(() => { });
+        return res.status(audioRejectionStatus(e.message)).json({ ok: false, error: e.message });
+      }
+    } else {
+      const { data: blob, error: dlErr } = await supabase.storage.from(BUCKET).download(path);
+      if (dlErr || !blob) return res.status(400).json({ ok: false, error: "upload_not_found" });
+      const parsed = parseCallImport(Buffer.from(await blob.arrayBuffer()));
+      if (!parsed.ok) {
+        await supabase.storage.from(BUCKET).remove([path]).catch(() => { });
+        return res.status(422).json({ ok: false, error: parsed.error, details: parsed.details });
+      }
+      imported = parsed.data;
+    }
+
+    // Client may not have sent the hash to /signed; drop the second copy
+    if (hash && !allowDuplicateUpload(req)) {
+      const existing = await findDuplicateCall({ sha256: hash, userId });
+      if (existing) {
+        await supabase.storage.from(BUCKET).remove([path]).catch(() => { });
+        return res.json(duplicateResponse(existing, hash));
+      }
+    }
 
     // 1) DB row
     const { error: dbErrCall } = await supabase.from("calls").insert({
@@ -695,28 +805,250 @@ app.post("/v1/upload/finalize", async (req, res) => {
       org_id: DEFAULT_ORG_ID,
       filename,
       storage_path: path,
-      mime_type: mime || null,
+      mime_type: audio?.probe.mime ?? (mime || null),
       size_bytes: size || null,
       sha256: hash,
       kind,
       status: "queued",
       audio_path: path,
+      duration_sec: audio?.probe.durationSec != null ? Math.round(audio.probe.durationSec) : null,
+      audio_meta: audio ? audioMeta(audio.probe, { levels: audio.levels }) : null,
+      ...(imported ? importCallFields(imported) : {}),
     });
     if (dbErrCall) return res.status(500).json({ ok: false, error: `DB insert failed: ${dbErrCall.message}` });
 
-    // 2) Job row
-    const jobId = crypto.randomUUID();
-    const { error: dbErrJob } = await supabase.from("jobs").insert({
-      id: jobId, call_id: id, user_id: userId, kind: "transcribe", status: "queued",
+    // 2) Transcription job (picked up by the queue runner)
+    let jobId: string;
+    try {
+      jobId = await enqueueJob(supabase, { kind: "transcribe", callId: id, userId, payload: { storagePath: path } });
+    } catch (e: any) {
+      return res.status(500).json({ ok: false, error: `Job insert failed: ${e?.message || e}` });
+    }
+
+    res.json({
+      ok: true, callId: id, jobId, filename, storagePath: path, size: size || null,
+      mime: audio?.probe.mime ?? (mime || null), sha256: hash,
+      durationSec: audio?.probe.durationSec ?? null,
+    });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: e?.message || "server_error" });
+  }
+});
+
+/* ------------------------------------------
+   Chunked Uploads (resumable, for long recordings)
+   POST   /v1/upload/chunked            { filename, mime?, size, sha256, partSize? }
+   PUT    /v1/upload/chunked/:id/parts/:n   raw bytes, header x-part-sha256
+   GET    /v1/upload/chunked/:id        → session + received / missing parts
+   POST   /v1/upload/chunked/:id/complete → call row + transcription job
+   DELETE /v1/upload/chunked/:id        → abort (parts are deleted)
+-------------------------------------------*/
+const UPLOAD_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function chunkedUploadStatus(msg: string) {
+  if (msg === "upload_not_found") return 404;
+  if (msg === "upload_not_open" || msg === "upload_expired") return 409;
+  if (msg === "file_too_large") return 413;
+  if (msg === "part_checksum_mismatch" || msg === "sha256_mismatch" || msg === "size_mismatch") return 422;
+  if (msg.startsWith("Failed to")) return 500;
+  return 400;
+}
+
+function sessionView(s: Awaited<ReturnType<typeof getUploadSession>>) {
+  return {
+    uploadId: s.id,
+    status: s.status,
+    filename: s.filename,
+    size: s.size_bytes,
+    sha256: s.sha256,
+    partSize: s.part_size,
+    totalParts: s.total_parts,
+    callId: s.call_id,
+    expiresAt: s.expires_at,
+  };
+}
+
+app.post("/v1/upload/chunked", async (req, res) => {
+  try {
+    const userId = getUserId(req);
+    const { filename, mime, size, sha256, partSize } = (req.body || {}) as {
+      filename?: string; mime?: string; size?: number; sha256?: string; partSize?: number;
+    };
+    if (!filename) return res.status(400).json({ ok: false, error: "missing_filename" });
+    const hash = normalizeSha256(sha256);
+    if (!hash) return res.status(400).json({ ok: false, error: "sha256 (hex) required" });
+
+    if (!allowDuplicateUpload(req)) {
+      const existing = await findDuplicateCall({ sha256: hash, userId });
+      if (existing) return res.json(duplicateResponse(existing, hash));
+    }
+
+    const session = await createUploadSession({
+      userId, orgId: DEFAULT_ORG_ID, filename, mime: mime || null, size: Number(size), sha256: hash, partSize,
     });
-    if (dbErrJob) return res.status(500).json({ ok: false, error: `Job insert failed: ${dbErrJob.message}` });
 
-    // 3) Sim worker
-    simulateTranscription(jobId, id, path, userId).catch((e) => console.error("Sim worker failed:", e.message));
+    // Abandoned-upload cleanup: fires at the deadline, re-arms while parts keep arriving
+    await enqueueJob(supabase, {
+      kind: "expire_upload",
+      userId,
+      payload: { uploadId: session.id },
+      runAt: new Date(session.expires_at),
+    }).catch((e: any) => console.warn("[upload] expiry job enqueue failed:", e?.message || e));
 
-    res.json({ ok: true, callId: id, jobId, filename, storagePath: path, size: size || null, mime: mime || null, sha256: hash });
+    res.status(201).json({ ok: true, ...sessionView(session) });
   } catch (e: any) {
-    res.status(500).json({ ok: false, error: e?.message || "server_error" });
+    const msg = e?.message || "server_error";
+    res.status(chunkedUploadStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+app.get("/v1/upload/chunked/:id", async (req, res) => {
+  try {
+    const userId = getUserId(req);
+    if (!UPLOAD_ID_RE.test(req.params.id)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+    const session = await getUploadSession(userId, req.params.id);
+    const parts = await listUploadParts(session.id);
+
+    res.set("Cache-Control", "no-store");
+    res.json({
+      ok: true,
+      ...sessionView(session),
+      parts: parts.map((p) => ({ partNumber: p.part_number, size: p.size_bytes, sha256: p.sha256 })),
+      missing: missingParts(session, parts),
+    });
+  } catch (e: any) {
+    const msg = e?.message || "server_error";
+    res.status(chunkedUploadStatus(msg)).json({ ok: false, error: msg });
+  }
+});
+
+app.put(
+  "/v1/upload/chunked/:id/parts/:n",
+  express.raw({ type: () => true, limit: MAX_PART_SIZE }),
+  async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!UPLOAD_ID_RE.test(req.params.id)) return res.status(400).json({ ok: false, error: "invalid id" });
+      const partSha = normalizeSha256(req.header("x-part-sha256"));
+      if (!partSha) return res.status(400).json({ ok: false, error: "x-part-sha256 header required" });
+      if (!Buffer.isBuffer(req.body)) return res.status(400).json({ ok: false, error: "missing_body" });
+
+      const session = await getUploadSession(userId, req.params.id);
+      const partNumber = Number(req.params.n);
+      const part = await putUploadPart(session, partNumber, req.body, partSha);
+
+      res.json({ ok: true, uploadId: session.id, partNumber, size: part.size_bytes, sha256: part.sha256 });
+    } catch (e: any) {
+      const msg = e?.message || "server_error";
+      res.status(chunkedUploadStatus(msg)).json({ ok: false, error: msg });
+    }
+  }
+);
+
+app.post("/v1/upload/chunked/:id/complete", async (req, res) => {
+  let file: string | null = null;
+  try {
+    const userId = getUserId(req);
+    if (!UPLOAD_ID_RE.test(req.params.id)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+    const session = await getUploadSession(userId, req.params.id);
+    if (session.status === "completed" && session.call_id) {
+      return res.json({ ok: true, callId: session.call_id, alreadyCompleted: true });
+    }
+    file = await assembleUpload(session);
+
+    const isJson = (session.mime || "").includes("json") || session.filename.toLowerCase().endsWith(".json");
+    const kind = isJson ? "json" : "audio";
+
+    let audio: ReturnType<typeof validateAudio> | null = null;
+    let imported: CallImport | null = null;
+    if (kind === "audio") {
+      try {
+        audio = validateAudio(await readAudioFileSample(file));
+      } catch (e: any) {
+        if (!isAudioRejection(e?.message)) throw e;
+        await closeUploadSession(session, "aborted");
+        return res.status(audioRejectionStatus(e.message)).json({ ok: false, error: e.message });
+      }
+    } else {
+      const parsed = parseCallImport(await fs.readFile(file));
+      if (!parsed.ok) {
+        await closeUploadSession(session, "aborted");
+        return res.status(422).json({ ok: false, error: parsed.error, details: parsed.details });
+      }
+      imported = parsed.data;
+    }
+
+    const id = crypto.randomUUID();
+    const ext = session.filename.includes(".")
+      ? session.filename.slice(session.filename.lastIndexOf("."))
+      : (isJson ? ".json" : ".wav");
+    const path = `${userId}/${id}${ext}`;
+    const mime = audio?.probe.mime ?? session.mime ?? "application/octet-stream";
+
+    // 1) Storage (one object, like the other upload paths), streamed from the temp file
+    const { error: upErr } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, createReadStream(file), { contentType: mime, upsert: false, duplex: "half" });
+    if (upErr) return res.status(500).json({ ok: false, error: `Storage upload failed: ${upErr.message}` });
+
+    // 2) DB row
+    const { error: dbErrCall } = await supabase.from("calls").insert({
+      id,
+      user_id: userId,
+      org_id: session.org_id ?? DEFAULT_ORG_ID,
+      filename: session.filename,
+      storage_path: path,
+      mime_type: mime,
+      size_bytes: session.size_bytes,
+      sha256: session.sha256,
+      kind,
+      status: "queued",
+      audio_path: path,
+      duration_sec: audio?.probe.durationSec != null ? Math.round(audio.probe.durationSec) : null,
+      audio_meta: audio ? audioMeta(audio.probe, { levels: audio.levels }) : null,
+      ...(imported ? importCallFields(imported) : {}),
+    });
+    if (dbErrCall) {
+      await supabase.storage.from(BUCKET).remove([path]).catch(() => { });
+      return res.status(500).json({ ok: false, error: `DB insert failed: ${dbErrCall.message}` });
+    }
+    await closeUploadSession(session, "completed", id);
+
+    // 3) Transcription job (picked up by the queue runner)
+    let jobId: string;
+    try {
+      jobId = await enqueueJob(supabase, { kind: "transcribe", callId: id, userId, payload: { storagePath: path } });
+    } catch (e: any) {
+      return res.status(500).json({ ok: false, error: `Job insert failed: ${e?.message || e}` });
+    }
+
+    res.json({
+      ok: true, callId: id, jobId, kind, filename: session.filename, storagePath: path,
+      size: session.size_bytes, mime, sha256: session.sha256, durationSec: audio?.probe.durationSec ?? null,
+    });
+  } catch (e: any) {
+    const msg = e?.message || "server_error";
+    res.status(chunkedUploadStatus(msg)).json({ ok: false, error: msg });
+  } finally {
+    if (file) await fs.unlink(file).catch(() => { });
+  }
+});
+
+app.delete("/v1/upload/chunked/:id", async (req, res) => {
+  try {
+    const userId = getUserId(req);
+    if (!UPLOAD_ID_RE.test(req.params.id)) return res.status(400).json({ ok: false, error: "invalid id" });
+
+    const session = await getUploadSession(userId, req.params.id);
+    if (session.status !== "open") return res.status(409).json({ ok: false, error: "upload_not_open" });
+    await closeUploadSession(session, "aborted");
+
+    res.json({ ok: true, uploadId: session.id, status: "aborted" });
+  } catch (e: any) {
+    const msg = e?.message || "server_error";
+    res.status(chunkedUploadStatus(msg)).json({ ok: false, error: msg });
   }
 });
 
@@ -742,38 +1074,60 @@ app.post(
       const key = `${userId}/${id}${ext}`;
       const hash = crypto.createHash("sha256").update(f.buffer).digest("hex");
 
+      if (!allowDuplicateUpload(req)) {
+        const existing = await findDuplicateCall({ sha256: hash, userId });
+        if (existing) return res.json({ ...duplicateResponse(existing, hash), kind });
+      }
+
+      // Server-side check of the bytes; the client-supplied mimetype isn't trusted
+      let audio: ReturnType<typeof validateAudio> | null = null;
+      let imported: CallImport | null = null;
+      if (!isJson) {
+        try {
+          audio = validateAudio(f.buffer);
+        } catch (e: any) {
+          if (!isAudioRejection(e?.message)) throw e;
+          return res.status(audioRejectionStatus(e.message)).json({ ok: false, error: e.message });
+        }
+      } else {
+        const parsed = parseCallImport(f.buffer);
+        if (!parsed.ok) return res.status(422).json({ ok: false, error: parsed.error, details: parsed.details });
+        imported = parsed.data;
+      }
+      const mime = audio?.probe.mime ?? f.mimetype;
+      const durationSec = audio?.probe.durationSec ?? null;
+
       // 1) Storage
       const { error: upErr } = await supabase.storage.from(BUCKET).upload(key, f.buffer, {
-        contentType: f.mimetype, upsert: false,
+        contentType: mime, upsert: false,
       });
       if (upErr) return res.status(500).json({ ok: false, error: `Storage upload failed: ${upErr.message}` });
 
       // 2) DB row
       const { error: dbErrCall } = await supabase.from("calls").insert({
         id, user_id: userId, org_id: DEFAULT_ORG_ID,
-        filename: f.originalname, storage_path: key, mime_type: f.mimetype,
+        filename: f.originalname, storage_path: key, mime_type: mime,
         size_bytes: f.size, sha256: hash, kind, status: "queued", audio_path: key,
+        duration_sec: durationSec != null ? Math.round(durationSec) : null,
+        audio_meta: audio ? audioMeta(audio.probe, { levels: audio.levels }) : null,
+        ...(imported ? importCallFields(imported) : {}),
       });
       if (dbErrCall) {
         await supabase.storage.from(BUCKET).remove([key]).catch(() => { });
         return res.status(500).json({ ok: false, error: `DB insert failed: ${dbErrCall.message}` });
       }
 
-      // 3) Job row
-      const jobId = crypto.randomUUID();
-      const { error: dbErrJob } = await supabase.from("jobs").insert({
-        id: jobId, call_id: id, user_id: userId, kind: "transcribe", status: "queued",
-      });
-      if (dbErrJob) return res.status(500).json({ ok: false, error: `Job insert failed: ${dbErrJob.message}` });
-
-      // 4) Sim worker (stub)
-      simulateTranscription(jobId, id, key, userId).catch((e) =>
-        console.error("Sim worker failed:", e.message)
-      );
+      // 3) Transcription job (picked up by the queue runner)
+      let jobId: string;
+      try {
+        jobId = await enqueueJob(supabase, { kind: "transcribe", callId: id, userId, payload: { storagePath: key } });
+      } catch (e: any) {
+        return res.status(500).json({ ok: false, error: `Job insert failed: ${e?.message || e}` });
+      }
 
       return res.json({
         ok: true, callId: id, jobId, kind,
-        filename: f.originalname, storagePath: key, size: f.size, mime: f.mimetype, sha256: hash,
+        filename: f.originalname, storagePath: key, size: f.size, mime, sha256: hash, durationSec,
       });
     } catch (e: any) {
       return res.status(400).json({ ok: false, error: e.message || "Upload failed" });
@@ -891,13 +1245,9 @@ app.post("/v1/admin/force-score/:id", requireAdmin, async (req, res) => {
         callId: id,
         filename: call.filename,
         overall: result.overall,
-        sections: {
-          intro: result.intro.score,
-          discovery: result.discovery.score,
-          objection: result.objection.score,
-          close: result.close.score,
-        },
+        sections: sectionScores(result),
         siteUrl: WEB,
+        fallback: result.fallback,
       });
 
       await postSlack("Call scored ✅", blocksPayload.blocks);
@@ -1267,19 +1617,6 @@ app.get("/v1/coach/drills", (_req, res) => {
 
 
 
-// --- Call score trend (demo data; replace with real query later) ---
-app.get("/v1/calls/:id/scores", async (req, res) => {
-  try {
-    const { id } = req.params;
-    // TODO: replace with real DB-backed history. For now return a deterministic demo series.
-    const n = Math.min(Number(req.query.n || 12), 50);
-    const base = (id?.length || 7) * 3;
-    const values = Array.from({ length: n }).map((_, i) => 58 + ((i * 7 + base) % 32));
-    res.json({ ok: true, values });
-  } catch (e: any) {
-    res.status(500).json({ ok: false, error: e?.message || "scores_failed" });
-  }
-});
 // --- Coach Notes (persist simple text per call) ---
 app.get("/v1/coach/notes", async (req, res) => {
   try {
@@ -1644,6 +1981,7 @@ app.post("/v1/cron/crm/auto-assign", requireCron, async (req, res) => {
 /* ------------------------
    Mount feature routers
 ------------------------- */
+app.use("/v1/calls/:id/pins", callPinsRouter);
 app.use("/v1/calls", callsRouter);
 app.use("/v1/pins", pinsRouter);
 // Includes protected cron endpoints (e.g. POST /v1/cron/crm/auto-assign)
@@ -1657,73 +1995,152 @@ app.use("/v1/whisperer", whispererRouter);
 app.use("/v1/admin", adminRouter);
 app.use("/v1/assignments", assignmentsRoutes());
 app.use("/v1/debug", debugRouter);
+app.use("/v1/rubrics", rubricsRouter);
 
 // NOTE: we’re no longer mounting personasRouter here –
 // /v1/sparring/personas is still handled inside sparringRouter
 
 /* ------------------------------------------
-   Sim workers: transcription + auto-scoring
+   Workers: transcription → scoring → Slack notify (+ objection extraction, system pins)
+   Jobs run on the durable queue in lib/jobQueue (leases, retries with
+   backoff, dead-lettering). Each step enqueues the next on success.
 -------------------------------------------*/
-async function setJobStatus(
-  jobId: string,
-  status: "queued" | "processing" | "succeeded" | "failed",
-  patch: Record<string, unknown> = {}
-) {
-  const { error } = await supabase
-    .from("jobs")
-    .update({ status, ...patch, updated_at: new Date().toISOString() })
-    .eq("id", jobId);
-  if (error) throw new Error(`setJobStatus failed: ${error.message}`);
+async function enqueueScoreJob(callId: string, userId: string) {
+  console.log("[score] enqueue", { callId, userId });
+  return enqueueJob(supabase, { kind: "score", callId, userId, dedupe: true });
 }
 
-async function enqueueScoreJob(callId: string, userId: string) {
-  const jobId = crypto.randomUUID();
-  console.log("[score] enqueue", { callId, userId, jobId });
+registerJobHandler("transcribe", {
+  async run(job) {
+    const callId = String(job.call_id);
+    const { data: callRow, error: callErr } = await supabase
+      .from("calls").select("id, user_id, kind, storage_path, mime_type, duration_sec").eq("id", callId).maybeSingle();
+    if (callErr) throw new Error(`transcribe: call lookup failed: ${callErr.message}`);
+    if (!callRow) throw new Error("transcribe: call not found");
+
+    const storagePath = String((job.payload as any)?.storagePath || callRow.storage_path);
+
+    // Validate + normalise to 16 kHz mono Opus before transcription
+    let prepared: PreparedAudio | null = null;
+    if (callRow.kind !== "json") {
+      try {
+        prepared = await prepareCallAudio({ supabase, bucket: BUCKET, storagePath });
+      } catch (e: any) {
+        if (!isAudioRejection(e?.message)) throw e;
+        // Retrying won't change the bytes: close the call out instead of failing the job.
+        await supabase
+          .from("calls")
+          .update({ status: "rejected", rejection_reason: e.message, updated_at: new Date().toISOString() })
+          .eq("id", callId);
+        console.warn("[transcribe] audio rejected", { callId, reason: e.message });
+        return { rejected: e.message };
+      }
+    }
 
-  const { error } = await supabase.from("jobs").insert({
-    id: jobId, call_id: callId, user_id: userId, kind: "score", status: "queued",
-  });
-  if (error) throw new Error(`enqueue score failed: ${error.message}`);
+    // Imported calls (kind = json) already carry their transcript
+    let transcript: Awaited<ReturnType<typeof transcribeCall>>;
+    if (callRow.kind === "json") {
+      try {
+        ({ transcript } = await importCallTranscript({
+          supabase, bucket: BUCKET, callId, userId: String(callRow.user_id), storagePath,
+        }));
+      } catch (e: any) {
+        if (e?.message !== "invalid_call_import" && e?.message !== "invalid_json") throw e;
+        await supabase
+          .from("calls")
+          .update({ status: "rejected", rejection_reason: e.message, updated_at: new Date().toISOString() })
+          .eq("id", callId);
+        return { rejected: e.message };
+      }
+    } else {
+      transcript = await transcribeCall({
+        supabase,
+        bucket: BUCKET,
+        callId,
+        storagePath,
+        mime: prepared?.mime ?? callRow.mime_type ?? null,
+        audio: prepared?.audio,
+        filename: prepared?.filename,
+      });
+    }
 
-  simulateScore(jobId, callId).catch((e) => console.error("Sim score failed:", e.message));
-  return jobId;
-}
+    const patch: Record<string, unknown> = {
+      status: "processed",
+      conversation_metrics: computeConversationMetrics(transcript.segments),
+      updated_at: new Date().toISOString(),
+    };
+    if (prepared) {
+      patch.audio_meta = audioMeta(prepared.probe, {
+        levels: prepared.levels,
+        normalized_path: prepared.normalizedPath,
+      });
+    }
+    const durationSec = prepared?.probe.durationSec ?? transcript.durationSec;
+    if (callRow.duration_sec == null && durationSec != null) {
+      patch.duration_sec = Math.round(durationSec);
+    }
+    const { error } = await supabase.from("calls").update(patch).eq("id", callId);
+    if (error) throw new Error(`update call failed: ${error.message}`);
+
+    // Both enqueues dedupe on the call: a retry after the first one landed won't score twice.
+    console.log("[transcribe] done → enqueue score + objections", { callId });
+    await enqueueScoreJob(callId, String(job.user_id || callRow.user_id));
+    await enqueueJob(supabase, {
+      kind: "extract_objections",
+      callId,
+      userId: String(job.user_id || callRow.user_id),
+      dedupe: true,
+    });
+
+    return {
+      provider: transcript.provider,
+      model: transcript.model,
+      duration_sec: durationSec,
+      normalized: !!prepared?.normalizedPath,
+      segments: transcript.segments.length,
+    };
+  },
+  async onDead(job) {
+    if (job.call_id) await supabase.from("calls").update({ status: "failed" }).eq("id", job.call_id);
+  },
+});
 
-async function simulateScore(jobId: string, callId: string) {
-  console.log("[score] start", { jobId, callId });
-  await setJobStatus(jobId, "processing", { attempts: 1 });
+registerJobHandler("expire_upload", {
+  async run(job) {
+    const uploadId = String((job.payload as any)?.uploadId || "");
+    const result = await expireUploadSession(uploadId);
+    if (!result.expired && result.expiresAt) {
+      // Parts arrived since the job was scheduled: check again at the new deadline.
+      await enqueueJob(supabase, { kind: "expire_upload", userId: job.user_id, payload: { uploadId }, runAt: result.expiresAt });
+    }
+    return { uploadId, expired: result.expired };
+  },
+});
 
-  try {
+registerJobHandler("score", {
+  async run(job) {
+    const callId = String(job.call_id);
     const { data: callRow, error: callErr } = await supabase
-      .from("calls").select("id, filename, status").eq("id", callId).single();
+      .from("calls").select("id, filename, status, account_id, contact_id").eq("id", callId).single();
     if (callErr || !callRow) throw new Error(`score: call not found`);
 
     const result = await scoreWithLLM({ supabase, callId });
-
-    await setJobStatus(jobId, "succeeded", {
-      result: {
-        model: result.model,
-        overall: result.overall,
-        sections: {
-          intro: result.intro.score,
-          discovery: result.discovery.score,
-          objection: result.objection.score,
-          close: result.close.score,
-        },
-      },
-    });
+    const sections = sectionScores(result);
 
     const { error: upErr } = await supabase
       .from("calls").update({ status: "scored", updated_at: new Date().toISOString() }).eq("id", callId);
     if (upErr) throw new Error(`score status update failed: ${upErr.message}`);
 
-    // Activity: call scored (best-effort)
+    // Activity: call scored (best-effort), on the account/contact timelines too
     try {
-      const summary = `Scored ${Math.round(result.overall)} — Intro ${Math.round(result.intro.score)} / Disc ${Math.round(result.discovery.score)} / Obj ${Math.round(result.objection.score)} / Close ${Math.round(result.close.score)}`;
+      const summary = `Scored ${Math.round(result.overall)} — ` +
+        Object.entries(sections).map(([k, v]) => `${k} ${Math.round(v)}`).join(" / ");
       await supabase.from("activities").insert({
         type: "call_scored",
         summary,
         call_id: callId,
+        account_id: (callRow as any).account_id ?? null,
+        contact_id: (callRow as any).contact_id ?? null,
         created_at: new Date().toISOString(),
       });
     } catch (e: any) {
@@ -1732,63 +2149,115 @@ async function simulateScore(jobId: string, callId: string) {
 
     console.log("[score] wrote", { callId, overall: result.overall, model: result.model });
 
-    try {
-      const WEB = process.env.PUBLIC_WEB_BASE
-        || process.env.SITE_URL
-        || process.env.WEB_BASE_URL
-        || process.env.WEB_APP_URL
-        || process.env.WEB_ORIGIN
-        || "http://localhost:3000";
+    // Slack runs as its own job so a webhook outage retries without re-scoring.
+    await enqueueJob(supabase, {
+      kind: "notify_score",
+      callId,
+      userId: job.user_id,
+      payload: { filename: callRow.filename, overall: result.overall, sections, fallback: result.fallback },
+    });
 
-      const blocksPayload = await buildSlackSummaryBlocks({
-        supabase,
-        callId,
-        filename: callRow.filename,
-        overall: result.overall,
-        sections: {
-          intro: result.intro.score,
-          discovery: result.discovery.score,
-          objection: result.objection.score,
-          close: result.close.score,
-        },
-        siteUrl: WEB,
-      });
+    return {
+      model: result.model,
+      overall: result.overall,
+      rubric_id: result.rubricId,
+      rubric_version: result.rubricVersion,
+      fallback: result.fallback,
+      sections,
+    };
+  },
+});
 
-      await postSlack("Call scored ✅", blocksPayload.blocks);
-    } catch (e: any) {
-      console.warn("Slack score summary failed:", e?.message || e);
-    }
-  } catch (e: any) {
-    console.error("[score] failed:", e?.message || e);
-    await setJobStatus(jobId, "failed", { error: String(e?.message || e) });
-  }
-}
+// Batch re-score (admin /v1/admin/rescore): pinned rubric (+ optional model override /
+// shadow mode for calibration runs), no Slack, no heuristic fallback.
+registerJobHandler("rescore", {
+  concurrency: Math.max(1, Number(process.env.RESCORE_CONCURRENCY || 2)),
+  async run(job) {
+    const rubricId = String((job.payload as any)?.rubricId || "");
+    const rubric = rubricId ? await getRubricById(rubricId) : null;
+    if (!rubric) throw new Error(`rescore: rubric not found (${rubricId || "none"})`);
+
+    const p = (job.payload || {}) as { model?: string | null; shadow?: boolean };
+    const result = await scoreWithLLM({
+      supabase,
+      callId: String(job.call_id),
+      rubric,
+      batchId: job.batch_id,
+      model: p.model ?? null,
+      shadow: !!p.shadow,
+    });
+    return {
+      model: result.model,
+      overall: result.overall,
+      rubric_id: result.rubricId,
+      rubric_version: result.rubricVersion,
+    };
+  },
+});
 
-async function simulateTranscription(jobId: string, callId: string, _storagePath: string, userId: string) {
-  console.log("[transcribe] start", { jobId, callId });
-  await setJobStatus(jobId, "processing", { attempts: 1 });
+// Objection extraction runs beside scoring: an LLM outage here never blocks the score.
+// System pins for key moments follow it, so first_objection sees the stored
+// objections (and still run, on the phrase fallback, if extraction dies).
+registerJobHandler("extract_objections", {
+  async run(job) {
+    const extraction = await extractCallObjections({ supabase, callId: String(job.call_id) });
+    const byCategory: Record<string, number> = {};
+    for (const o of extraction.objections) byCategory[o.category] = (byCategory[o.category] || 0) + 1;
+    await enqueueJob(supabase, { kind: "auto_pins", callId: String(job.call_id), userId: job.user_id });
+    return { model: extraction.model, source: extraction.source, objections: extraction.objections.length, byCategory };
+  },
+  async onDead(job) {
+    if (job.call_id) await enqueueJob(supabase, { kind: "auto_pins", callId: String(job.call_id), userId: job.user_id });
+  },
+});
 
-  await new Promise((r) => setTimeout(r, 3000));
+registerJobHandler("auto_pins", {
+  async run(job) {
+    return createSystemPins(supabase, String(job.call_id));
+  },
+});
 
-  const fakeTranscript = {
-    model: "whisper-stub",
-    text: "This is a stub transcript. Replace with real Whisper/Deepgram later.",
-    words: [],
-  };
+registerJobHandler("notify_score", {
+  async run(job) {
+    const p = (job.payload || {}) as { filename?: string; overall?: number; sections?: any; fallback?: boolean };
+    const WEB = process.env.PUBLIC_WEB_BASE
+      || process.env.SITE_URL
+      || process.env.WEB_BASE_URL
+      || process.env.WEB_APP_URL
+      || process.env.WEB_ORIGIN
+      || "http://localhost:3000";
 
-  await setJobStatus(jobId, "succeeded", { result: fakeTranscript });
+    const blocksPayload = await buildSlackSummaryBlocks({
+      supabase,
+      callId: String(job.call_id),
+      filename: p.filename,
+      overall: Number(p.overall) || 0,
+      sections: p.sections || {},
+      siteUrl: WEB,
+      fallback: !!p.fallback,
+    });
 
-  const { error } = await supabase.from("calls").update({ status: "processed" }).eq("id", callId);
-  if (error) throw new Error(`update call failed: ${error.message}`);
+    // postSlack throws on a non-2xx, which fails the attempt and schedules a retry.
+    await postSlack("Call scored ✅", blocksPayload.blocks);
+    return { posted: true };
+  },
+});
 
-  console.log("[transcribe] done → enqueue score", { callId });
+// Retention: one pending purge at a time; each run (or dead-letter) books the next.
+registerJobHandler("retention_purge", {
+  async run() {
+    const orgs = await runRetentionPurge();
+    await scheduleRetentionPurge().catch((e: any) => console.warn("[retention] reschedule failed:", e?.message || e));
+    return { orgs };
+  },
+  async onDead() {
+    await scheduleRetentionPurge();
+  },
+  concurrency: 1,
+});
 
-  try {
-    await enqueueScoreJob(callId, userId);
-  } catch (e: any) {
-    console.error("[transcribe] enqueue score failed:", e?.message || e);
-  }
-}
+startJobRunner(supabase);
+scheduleRetentionPurge(new Date()).catch((e: any) => console.warn("[retention] schedule failed:", e?.message || e));
 
 // 404 Not Found (must be after all routes)
 app.use((req, res) => {
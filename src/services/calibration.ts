@@ -0,0 +1,222 @@
+import { supabaseAdmin } from "../lib/supabase";
+
+// ---------------------------------------------
+// Score calibration / drift report
+//
+// Compares two "scorers" — an ai_model at a rubric_version (e.g. "gpt-4o-mini@v1")
+// — over calls that both have scored. Latest row per call per scorer wins; when
+// the keys overlap the candidate takes the newest shared row.
+// Reports overall + per-section mean delta (candidate − baseline), mean absolute
+// difference and Spearman rank correlation. Heuristic fallback rows are ignored.
+// ---------------------------------------------
+
+export type ScorerKey = { model: string; rubricVersion: string | null };
+
+type ScoreRow = {
+  call_id: string;
+  ai_model: string | null;
+  rubric_version: string | null;
+  overall: number | null;
+  rubric: Record<string, { score?: number }> | null;
+  created_at: string;
+};
+
+export type PairStats = {
+  n: number;
+  meanDelta: number | null;   // candidate − baseline (bias)
+  mad: number | null;         // mean absolute difference
+  spearman: number | null;    // rank agreement (-1..1)
+  within5Pct: number | null;  // share of calls within ±5 points
+};
+
+// Thresholds for the "safe to switch" hint (overall score)
+const SAFE_MAX_MAD = 5;
+const SAFE_MAX_BIAS = 3;
+const SAFE_MIN_SPEARMAN = 0.8;
+
+/** "gpt-4o-mini@v2" → { model, rubricVersion }; bare "gpt-4o-mini" matches any version. */
+export function parseScorerKey(raw: string): ScorerKey | null {
+  const s = String(raw || "").trim();
+  if (!s) return null;
+  const at = s.lastIndexOf("@");
+  if (at <= 0) return { model: s, rubricVersion: null };
+  return { model: s.slice(0, at), rubricVersion: s.slice(at + 1) || null };
+}
+
+function scorerLabel(row: Pick<ScoreRow, "ai_model" | "rubric_version">) {
+  return `${row.ai_model || "unknown"}@${row.rubric_version || "?"}`;
+}
+
+function matches(row: ScoreRow, key: ScorerKey) {
+  return row.ai_model === key.model && (key.rubricVersion == null || row.rubric_version === key.rubricVersion);
+}
+
+function round(n: number, dp = 2) {
+  const f = Math.pow(10, dp);
+  return Math.round(n * f) / f;
+}
+
+/** Ranks with ties averaged (1-based). */
+function ranks(xs: number[]): number[] {
+  const idx = xs.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(xs.length);
+  for (let i = 0; i < idx.length; ) {
+    let j = i;
+    while (j + 1 < idx.length && idx[j + 1][0] === idx[i][0]) j++;
+    const r = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) out[idx[k][1]] = r;
+    i = j + 1;
+  }
+  return out;
+}
+
+function pearson(a: number[], b: number[]): number | null {
+  const n = a.length;
+  if (n < 3) return null;
+  const ma = a.reduce((s, v) => s + v, 0) / n;
+  const mb = b.reduce((s, v) => s + v, 0) / n;
+  let num = 0, da = 0, db = 0;
+  for (let i = 0; i < n; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  if (!da || !db) return null; // one side is constant — correlation undefined
+  return num / Math.sqrt(da * db);
+}
+
+export function pairStats(base: number[], cand: number[]): PairStats {
+  const n = Math.min(base.length, cand.length);
+  if (!n) return { n: 0, meanDelta: null, mad: null, spearman: null, within5Pct: null };
+
+  const deltas = cand.slice(0, n).map((v, i) => v - base[i]);
+  const rho = pearson(ranks(base.slice(0, n)), ranks(cand.slice(0, n)));
+
+  return {
+    n,
+    meanDelta: round(deltas.reduce((s, d) => s + d, 0) / n),
+    mad: round(deltas.reduce((s, d) => s + Math.abs(d), 0) / n),
+    spearman: rho == null ? null : round(rho, 3),
+    within5Pct: round((deltas.filter((d) => Math.abs(d) <= 5).length / n) * 100, 1),
+  };
+}
+
+async function loadScoreRows(opts: { orgId: string; from?: string | null; to?: string | null; limit: number }) {
+  let q = supabaseAdmin
+    .from("call_scores")
+    .select("call_id,ai_model,rubric_version,overall,rubric,created_at,calls!inner(org_id)")
+    .eq("calls.org_id", opts.orgId)
+    .or("is_fallback.is.null,is_fallback.eq.false")
+    .not("overall", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(opts.limit);
+
+  if (opts.from) q = q.gte("created_at", opts.from);
+  if (opts.to) q = q.lt("created_at", opts.to);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load call_scores: ${error.message}`);
+  return (data || []) as unknown as ScoreRow[];
+}
+
+/**
+ * Without baseline/candidate: lists the scorers present (and how many calls each
+ * shares with the others) so the caller can pick a pair.
+ */
+export async function buildCalibrationReport(opts: {
+  baseline?: ScorerKey | null;
+  candidate?: ScorerKey | null;
+  orgId: string;
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+}) {
+  const rows = await loadScoreRows({
+    orgId: opts.orgId,
+    from: opts.from,
+    to: opts.to,
+    limit: Math.min(Math.max(Number(opts.limit || 20000), 1), 50000),
+  });
+
+  // Scorers present + call coverage
+  const byScorer = new Map<string, Set<string>>();
+  for (const r of rows) {
+    const k = scorerLabel(r);
+    if (!byScorer.has(k)) byScorer.set(k, new Set());
+    byScorer.get(k)!.add(r.call_id);
+  }
+  const scorers = Array.from(byScorer.entries())
+    .map(([scorer, calls]) => ({ scorer, calls: calls.size }))
+    .sort((a, b) => b.calls - a.calls);
+
+  if (!opts.baseline || !opts.candidate) return { scorers, comparison: null };
+
+  // Latest row per call per side (rows are newest first). The keys can
+  // overlap ("gpt-4o-mini" vs "gpt-4o-mini@v2"), so both sides are checked;
+  // a row matching both goes to the candidate first and the baseline takes
+  // the next one — one row never sits on both sides of a pair.
+  const base = new Map<string, ScoreRow>();
+  const cand = new Map<string, ScoreRow>();
+  for (const r of rows) {
+    if (matches(r, opts.candidate) && !cand.has(r.call_id)) cand.set(r.call_id, r);
+    else if (matches(r, opts.baseline) && !base.has(r.call_id)) base.set(r.call_id, r);
+  }
+
+  const shared = Array.from(base.keys()).filter((id) => cand.has(id));
+  const pairs = shared.map((id) => ({ callId: id, base: base.get(id)!, cand: cand.get(id)! }));
+
+  const overall = pairStats(
+    pairs.map((p) => Number(p.base.overall)),
+    pairs.map((p) => Number(p.cand.overall))
+  );
+
+  // Per-section: only keys both rubrics scored
+  const sectionKeys = new Set<string>();
+  for (const p of pairs) {
+    for (const k of Object.keys(p.base.rubric || {})) {
+      if (p.cand.rubric && k in p.cand.rubric) sectionKeys.add(k);
+    }
+  }
+  const sections: Record<string, PairStats> = {};
+  for (const key of Array.from(sectionKeys).sort()) {
+    const both = pairs.filter(
+      (p) => Number.isFinite(Number(p.base.rubric?.[key]?.score)) && Number.isFinite(Number(p.cand.rubric?.[key]?.score))
+    );
+    sections[key] = pairStats(
+      both.map((p) => Number(p.base.rubric![key]!.score)),
+      both.map((p) => Number(p.cand.rubric![key]!.score))
+    );
+  }
+
+  const outliers = pairs
+    .map((p) => ({
+      call_id: p.callId,
+      baseline: Number(p.base.overall),
+      candidate: Number(p.cand.overall),
+      delta: Number(p.cand.overall) - Number(p.base.overall),
+    }))
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    .slice(0, 10);
+
+  const safe =
+    overall.n >= 10 &&
+    overall.mad != null && overall.mad <= SAFE_MAX_MAD &&
+    overall.meanDelta != null && Math.abs(overall.meanDelta) <= SAFE_MAX_BIAS &&
+    overall.spearman != null && overall.spearman >= SAFE_MIN_SPEARMAN;
+
+  return {
+    scorers,
+    comparison: {
+      baseline: opts.baseline,
+      candidate: opts.candidate,
+      calls: pairs.length,
+      overall,
+      sections,
+      outliers,
+      verdict: {
+        safe,
+        thresholds: { minCalls: 10, maxMad: SAFE_MAX_MAD, maxBias: SAFE_MAX_BIAS, minSpearman: SAFE_MIN_SPEARMAN },
+      },
+    },
+  };
+}
@@ -0,0 +1,258 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { supabaseAdmin } from "../lib/supabase";
+
+// ---------------------------------------------
+// Resumable chunked uploads
+//
+// init → PUT part 1..N (any order, re-sendable) → complete | abort.
+// Each part is checked against its own sha256 on arrival and stored as a
+// separate object under <user>/.parts/<uploadId>/; complete streams them in
+// order into a temp file (one part in memory at a time), verifies the
+// whole-file sha256 declared at init and hands the file to the normal call
+// pipeline. Sessions left open past expires_at are swept
+// by an `expire_upload` job scheduled at init.
+//
+// Env (all optional):
+//   UPLOAD_PART_SIZE      (default 8 MiB)
+//   UPLOAD_MAX_BYTES      (default 1 GiB)
+//   UPLOAD_SESSION_TTL_H  (default 24)
+// ---------------------------------------------
+
+const BUCKET = process.env.SUPABASE_STORAGE_BUCKET || "calls";
+
+const MiB = 1024 * 1024;
+export const MIN_PART_SIZE = 1 * MiB;
+export const MAX_PART_SIZE = 64 * MiB;
+const DEFAULT_PART_SIZE = Number(process.env.UPLOAD_PART_SIZE || 8 * MiB);
+const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES || 1024 * MiB);
+const SESSION_TTL_MS = Number(process.env.UPLOAD_SESSION_TTL_H || 24) * 60 * 60 * 1000;
+
+export type UploadSession = {
+  id: string;
+  user_id: string;
+  org_id: string | null;
+  filename: string;
+  mime: string | null;
+  size_bytes: number;
+  sha256: string;
+  part_size: number;
+  total_parts: number;
+  status: "open" | "completed" | "aborted" | "expired";
+  call_id: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at: string | null;
+};
+
+export type UploadPart = {
+  part_number: number;
+  size_bytes: number;
+  sha256: string;
+  storage_path: string;
+};
+
+const SESSION_COLUMNS =
+  "id,user_id,org_id,filename,mime,size_bytes,sha256,part_size,total_parts,status,call_id,expires_at,created_at,updated_at";
+
+function sha256Hex(buf: Buffer) {
+  return crypto.createHash("sha256").update(buf).digest("hex");
+}
+
+function partPath(s: UploadSession, n: number) {
+  return `${s.user_id}/.parts/${s.id}/${String(n).padStart(5, "0")}`;
+}
+
+/** Expected byte length of part n (the last one takes the remainder). */
+export function expectedPartSize(s: Pick<UploadSession, "size_bytes" | "part_size" | "total_parts">, n: number) {
+  return n < s.total_parts ? s.part_size : s.size_bytes - s.part_size * (s.total_parts - 1);
+}
+
+export async function createUploadSession(args: {
+  userId: string;
+  orgId: string | null;
+  filename: string;
+  mime?: string | null;
+  size: number;
+  sha256: string;
+  partSize?: number | null;
+}): Promise<UploadSession> {
+  if (!Number.isInteger(args.size) || args.size <= 0) throw new Error("invalid_size");
+  if (args.size > UPLOAD_MAX_BYTES) throw new Error("file_too_large");
+
+  const partSize = Math.floor(Number(args.partSize || DEFAULT_PART_SIZE));
+  if (partSize < MIN_PART_SIZE || partSize > MAX_PART_SIZE) throw new Error("invalid_part_size");
+
+  const { data, error } = await supabaseAdmin
+    .from("upload_sessions")
+    .insert({
+      user_id: args.userId,
+      org_id: args.orgId,
+      filename: args.filename,
+      mime: args.mime ?? null,
+      size_bytes: args.size,
+      sha256: args.sha256.toLowerCase(),
+      part_size: partSize,
+      total_parts: Math.ceil(args.size / partSize),
+      status: "open",
+      expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to create upload: ${error?.message ?? "No data"}`);
+  return data as UploadSession;
+}
+
+/** The requester's session (throws upload_not_found). */
+export async function getUploadSession(userId: string, uploadId: string): Promise<UploadSession> {
+  const { data, error } = await supabaseAdmin
+    .from("upload_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("id", uploadId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load upload: ${error.message}`);
+  if (!data || (data as any).user_id !== userId) throw new Error("upload_not_found");
+  return data as UploadSession;
+}
+
+function assertOpen(s: UploadSession) {
+  if (s.status !== "open") throw new Error("upload_not_open");
+  if (new Date(s.expires_at).getTime() < Date.now()) throw new Error("upload_expired");
+}
+
+export async function listUploadParts(uploadId: string): Promise<UploadPart[]> {
+  const { data, error } = await supabaseAdmin
+    .from("upload_parts")
+    .select("part_number,size_bytes,sha256,storage_path")
+    .eq("upload_id", uploadId)
+    .order("part_number", { ascending: true });
+  if (error) throw new Error(`Failed to load parts: ${error.message}`);
+  return (data || []) as UploadPart[];
+}
+
+/** Part numbers still missing (1-based), for resuming. */
+export function missingParts(s: UploadSession, parts: UploadPart[]) {
+  const have = new Set(parts.map((p) => Number(p.part_number)));
+  const out: number[] = [];
+  for (let n = 1; n <= s.total_parts; n++) if (!have.has(n)) out.push(n);
+  return out;
+}
+
+/** Store one part after checking its size and checksum. Re-sending a part replaces it. */
+export async function putUploadPart(s: UploadSession, partNumber: number, body: Buffer, sha256: string) {
+  assertOpen(s);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > s.total_parts) {
+    throw new Error("invalid_part_number");
+  }
+  if (body.length !== expectedPartSize(s, partNumber)) throw new Error("part_size_mismatch");
+  const actual = sha256Hex(body);
+  if (actual !== sha256.toLowerCase()) throw new Error("part_checksum_mismatch");
+
+  const path = partPath(s, partNumber);
+  const { error: upErr } = await supabaseAdmin.storage
+    .from(BUCKET)
+    .upload(path, body, { contentType: "application/octet-stream", upsert: true });
+  if (upErr) throw new Error(`Failed to store part: ${upErr.message}`);
+
+  const { error } = await supabaseAdmin
+    .from("upload_parts")
+    .upsert(
+      { upload_id: s.id, part_number: partNumber, size_bytes: body.length, sha256: actual, storage_path: path },
+      { onConflict: "upload_id,part_number" }
+    );
+  if (error) throw new Error(`Failed to record part: ${error.message}`);
+
+  // Activity keeps the session alive for another TTL window.
+  await supabaseAdmin
+    .from("upload_sessions")
+    .update({ updated_at: new Date().toISOString(), expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString() })
+    .eq("id", s.id);
+  return { part_number: partNumber, size_bytes: body.length, sha256: actual };
+}
+
+/**
+ * Append all parts in order to a temp file, re-checking every part and
+ * hashing the whole file as it goes against the sha256 from init. Returns the
+ * file's path; the caller removes it. Throws missing_parts:<n,…>,
+ * part_checksum_mismatch, size_mismatch or sha256_mismatch.
+ */
+export async function assembleUpload(s: UploadSession): Promise<string> {
+  assertOpen(s);
+  const parts = await listUploadParts(s.id);
+  const missing = missingParts(s, parts);
+  if (missing.length) throw new Error(`missing_parts:${missing.slice(0, 50).join(",")}`);
+
+  const file = path.join(os.tmpdir(), `upload-${s.id}-${crypto.randomUUID()}`);
+  const fh = await fs.open(file, "w");
+  try {
+    const whole = crypto.createHash("sha256");
+    let offset = 0;
+    for (const p of parts) {
+      const { data: blob, error } = await supabaseAdmin.storage.from(BUCKET).download(p.storage_path);
+      if (error || !blob) throw new Error(`Failed to read part ${p.part_number}: ${error?.message ?? "no_data"}`);
+      const buf = Buffer.from(await blob.arrayBuffer());
+      if (sha256Hex(buf) !== p.sha256) throw new Error("part_checksum_mismatch");
+      await fh.write(buf);
+      whole.update(buf);
+      offset += buf.length;
+    }
+
+    if (offset !== s.size_bytes) throw new Error("size_mismatch");
+    if (whole.digest("hex") !== s.sha256) throw new Error("sha256_mismatch");
+  } catch (e) {
+    await fh.close();
+    await fs.unlink(file).catch(() => {});
+    throw e;
+  }
+  await fh.close();
+  return file;
+}
+
+/** Delete a session's part objects + rows (after complete, abort or expiry). */
+export async function removeUploadParts(s: UploadSession) {
+  const parts = await listUploadParts(s.id);
+  if (parts.length) {
+    const { error } = await supabaseAdmin.storage.from(BUCKET).remove(parts.map((p) => p.storage_path));
+    if (error) console.warn("[uploads] part cleanup failed:", error.message);
+  }
+  const { error } = await supabaseAdmin.from("upload_parts").delete().eq("upload_id", s.id);
+  if (error) console.warn("[uploads] part rows cleanup failed:", error.message);
+}
+
+export async function closeUploadSession(
+  s: UploadSession,
+  status: "completed" | "aborted" | "expired",
+  callId: string | null = null
+) {
+  const { error } = await supabaseAdmin
+    .from("upload_sessions")
+    .update({ status, call_id: callId, updated_at: new Date().toISOString() })
+    .eq("id", s.id)
+    .eq("status", "open");
+  if (error) throw new Error(`Failed to close upload: ${error.message}`);
+  await removeUploadParts(s);
+}
+
+/**
+ * expire_upload job: drop a session that is still open past its deadline.
+ * A session whose deadline moved (parts still arriving) reports the new
+ * one so the job can be re-scheduled.
+ */
+export async function expireUploadSession(uploadId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("upload_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("id", uploadId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load upload: ${error.message}`);
+  const s = data as UploadSession | null;
+  if (!s || s.status !== "open") return { expired: false as const };
+
+  const expiresAt = new Date(s.expires_at);
+  if (expiresAt.getTime() > Date.now()) return { expired: false as const, expiresAt };
+
+  await closeUploadSession(s, "expired");
+  return { expired: true as const };
+}
@@ -0,0 +1,311 @@
+import { z } from "zod";
+import { supabaseAdmin } from "../lib/supabase";
+import {
+  PERSONAS,
+  getPersonaConfig,
+  isBuiltInPersonaId,
+  type DifficultyModifier,
+  type EmotionalState,
+  type PersonaBehaviour,
+  type PersonaConfig,
+} from "../personas";
+import { TURN_LABELS, type EmotionModel, type EmotionRule } from "../lib/emotionModel";
+
+// ---------------------------------------------
+// Org-defined sparring personas (sparring_personas)
+//
+// Managers build their own buyers — label, traits, behaviour, per-difficulty
+// modifiers, starting mood and product context — stored per org as a
+// PersonaConfig (jsonb). The row id is the persona id, so a custom persona
+// is used anywhere a built-in id ("price_sensitive", …) is accepted.
+// Deleting archives the row: past sessions keep resolving it, new sessions
+// can't pick it.
+//
+// Any persona's emotional model (rules + starting mood), built-ins included,
+// can be overridden per org in persona_emotion_models — tuning a buyer is a
+// PUT, not a deploy.
+// ---------------------------------------------
+
+export type CustomPersonaRow = {
+  id: string;
+  org_id: string;
+  label: string;
+  config: Omit<PersonaConfig, "id" | "orgId">;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+  archived_at: string | null;
+};
+
+const ROW_COLUMNS = "id,org_id,label,config,created_by,created_at,updated_at,archived_at";
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const level = z.enum(["low", "medium", "high"]);
+const emotion = z.number().min(0).max(100);
+
+const BehaviourSchema = z.object({
+  tone: z.string().trim().min(1).max(200),
+  replyLength: z.enum(["short", "medium", "long"]),
+  pace: z.enum(["slow", "normal", "fast"]),
+  objectionFrequency: level,
+  interruptionLevel: level,
+  pricePressure: level,
+  hangupChanceBase: z.number().min(0).max(1),
+  patienceTurns: z.number().int().min(1).max(50),
+}) satisfies z.ZodType<PersonaBehaviour>;
+
+const EmotionalStateSchema = z.object({
+  anger: emotion,
+  boredom: emotion,
+  trust: emotion,
+}) satisfies z.ZodType<EmotionalState>;
+
+const emotionDelta = z.number().min(-100).max(100);
+const EmotionDeltaSchema = z.object({
+  anger: emotionDelta.optional(),
+  boredom: emotionDelta.optional(),
+  trust: emotionDelta.optional(),
+});
+
+const DifficultyModifierSchema = z.object({
+  replyLength: z.enum(["short", "medium", "long"]).optional(),
+  objectionFrequency: level.optional(),
+  interruptionLevel: level.optional(),
+  pricePressure: level.optional(),
+  hangupMultiplier: z.number().min(0).max(5).optional(),
+  patienceOffset: z.number().int().min(-20).max(20).optional(),
+  emotionOffset: EmotionDeltaSchema.optional(),
+}) satisfies z.ZodType<DifficultyModifier>;
+
+const EmotionRuleSchema = z.object({
+  id: z.string().trim().min(1).max(60),
+  phrases: z.array(z.string().trim().min(1).max(80)).max(50).optional(),
+  labels: z.array(z.enum(TURN_LABELS)).max(TURN_LABELS.length).optional(),
+  minTurns: z.number().int().min(0).max(100).optional(),
+  delta: EmotionDeltaSchema.refine((d) => Object.values(d).some((v) => v), { message: "delta must change something" }),
+  scale: z.boolean().optional(),
+}) satisfies z.ZodType<EmotionRule>;
+
+export const EmotionModelSchema = z
+  .object({
+    rules: z.array(EmotionRuleSchema).max(50),
+    inheritShared: z.boolean().optional(),
+    difficultyScale: z
+      .object({
+        easy: z.number().min(0).max(5).optional(),
+        normal: z.number().min(0).max(5).optional(),
+        hard: z.number().min(0).max(5).optional(),
+        nightmare: z.number().min(0).max(5).optional(),
+      })
+      .optional(),
+  })
+  .refine((m) => new Set(m.rules.map((r) => r.id)).size === m.rules.length, {
+    message: "rule ids must be unique",
+    path: ["rules"],
+  }) satisfies z.ZodType<EmotionModel>;
+
+/** PUT body for an org's emotional-model override of one persona. */
+export const EmotionOverrideSchema = z.object({
+  emotion: EmotionModelSchema,
+  initialEmotion: EmotionalStateSchema.optional(),
+});
+
+export type EmotionOverride = z.infer<typeof EmotionOverrideSchema>;
+
+/** Body for create; every field is checked against the PersonaConfig shape. */
+export const CustomPersonaSchema = z.object({
+  label: z.string().trim().min(1).max(80),
+  traits: z.array(z.string().trim().min(1).max(60)).max(10).default([]),
+  description: z.string().trim().max(1000).default(""),
+  difficultyDefault: z.enum(["easy", "normal", "hard", "nightmare"]).default("normal"),
+  modes: z
+    .array(z.enum(["standard", "time_trial", "close_in_2m"]))
+    .min(1)
+    .default(["standard", "time_trial", "close_in_2m"]),
+  behaviour: BehaviourSchema,
+  difficulty: z
+    .object({
+      easy: DifficultyModifierSchema.default({}),
+      normal: DifficultyModifierSchema.default({}),
+      hard: DifficultyModifierSchema.default({}),
+      nightmare: DifficultyModifierSchema.default({}),
+    })
+    .default({ easy: {}, normal: {}, hard: {}, nightmare: {} }),
+  initialEmotion: EmotionalStateSchema.optional(),
+  emotion: EmotionModelSchema.optional(),
+  productContext: z.string().trim().max(4000).optional(),
+}) satisfies z.ZodType<Omit<PersonaConfig, "id" | "orgId">>;
+
+export type CustomPersonaInput = z.infer<typeof CustomPersonaSchema>;
+
+function toPersonaConfig(row: CustomPersonaRow): PersonaConfig {
+  return { ...row.config, id: row.id, orgId: row.org_id, label: row.label };
+}
+
+function uniqueLabelError(error: { code?: string; message: string }) {
+  return error.code === "23505" ? new Error("persona_label_taken") : null;
+}
+
+export async function listCustomPersonas(orgId: string): Promise<PersonaConfig[]> {
+  const { data, error } = await supabaseAdmin
+    .from("sparring_personas")
+    .select(ROW_COLUMNS)
+    .eq("org_id", orgId)
+    .is("archived_at", null)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(`Failed to load personas: ${error.message}`);
+  return ((data || []) as CustomPersonaRow[]).map(toPersonaConfig);
+}
+
+async function loadRow(orgId: string, id: string, includeArchived = false): Promise<CustomPersonaRow | null> {
+  if (!UUID_RE.test(id)) return null;
+  let q = supabaseAdmin.from("sparring_personas").select(ROW_COLUMNS).eq("org_id", orgId).eq("id", id);
+  if (!includeArchived) q = q.is("archived_at", null);
+  const { data, error } = await q.maybeSingle();
+  if (error) throw new Error(`Failed to load persona: ${error.message}`);
+  return (data as CustomPersonaRow) ?? null;
+}
+
+export async function getCustomPersona(orgId: string, id: string): Promise<PersonaConfig | null> {
+  const row = await loadRow(orgId, id);
+  return row ? toPersonaConfig(row) : null;
+}
+
+export async function createCustomPersona(
+  orgId: string,
+  input: CustomPersonaInput,
+  createdBy: string
+): Promise<PersonaConfig> {
+  const { data, error } = await supabaseAdmin
+    .from("sparring_personas")
+    .insert({ org_id: orgId, label: input.label, config: input, created_by: createdBy })
+    .select(ROW_COLUMNS)
+    .single();
+  if (error) throw uniqueLabelError(error) ?? new Error(`Failed to create persona: ${error.message}`);
+  return toPersonaConfig(data as CustomPersonaRow);
+}
+
+/** Replace a persona's config (PATCH merges onto the current config and re-validates first). */
+export async function updateCustomPersona(
+  orgId: string,
+  id: string,
+  input: CustomPersonaInput
+): Promise<PersonaConfig | null> {
+  const { data, error } = await supabaseAdmin
+    .from("sparring_personas")
+    .update({ label: input.label, config: input, updated_at: new Date().toISOString() })
+    .eq("org_id", orgId)
+    .eq("id", id)
+    .is("archived_at", null)
+    .select(ROW_COLUMNS)
+    .maybeSingle();
+  if (error) throw uniqueLabelError(error) ?? new Error(`Failed to update persona: ${error.message}`);
+  return data ? toPersonaConfig(data as CustomPersonaRow) : null;
+}
+
+/** Stored config + patch, as the input to re-validate for an update. */
+export function mergePersonaPatch(current: PersonaConfig, patch: Record<string, unknown>) {
+  const { id: _id, orgId: _orgId, ...config } = current;
+  return { ...config, ...patch };
+}
+
+/** Archive (soft delete). Returns false when there was nothing to archive. */
+export async function archiveCustomPersona(orgId: string, id: string): Promise<boolean> {
+  if (!UUID_RE.test(id)) return false;
+  const { data, error } = await supabaseAdmin
+    .from("sparring_personas")
+    .update({ archived_at: new Date().toISOString() })
+    .eq("org_id", orgId)
+    .eq("id", id)
+    .is("archived_at", null)
+    .select("id");
+  if (error) throw new Error(`Failed to delete persona: ${error.message}`);
+  return (data || []).length > 0;
+}
+
+/**
+ * Built-in id → its config; org persona id → the stored config (archived
+ * ones only with includeArchived, i.e. for existing sessions); otherwise null.
+ */
+export async function findPersona(
+  personaId: string | null | undefined,
+  orgId: string | null,
+  opts: { includeArchived?: boolean } = {}
+): Promise<PersonaConfig | null> {
+  if (!personaId) return null;
+  let persona: PersonaConfig | null = null;
+  if (isBuiltInPersonaId(personaId)) {
+    persona = getPersonaConfig(personaId);
+  } else if (orgId) {
+    const row = await loadRow(orgId, personaId, opts.includeArchived);
+    persona = row ? toPersonaConfig(row) : null;
+  }
+  if (!persona || !orgId) return persona;
+  return withEmotionOverride(persona, await getEmotionOverride(orgId, persona.id));
+}
+
+/** findPersona for a running session: never fails, falls back to the default built-in. */
+export async function resolvePersona(personaId: string | null | undefined, orgId: string | null): Promise<PersonaConfig> {
+  try {
+    return (await findPersona(personaId, orgId, { includeArchived: true })) ?? getPersonaConfig(personaId);
+  } catch (e: any) {
+    console.warn("[personas] custom persona lookup failed:", e?.message || e);
+    return getPersonaConfig(personaId);
+  }
+}
+
+// --- Emotional model overrides ------------------------------------------------
+
+export async function getEmotionOverride(orgId: string, personaId: string): Promise<EmotionOverride | null> {
+  const { data, error } = await supabaseAdmin
+    .from("persona_emotion_models")
+    .select("model")
+    .eq("org_id", orgId)
+    .eq("persona_id", personaId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load emotion model: ${error.message}`);
+  return ((data as any)?.model as EmotionOverride) ?? null;
+}
+
+export async function setEmotionOverride(
+  orgId: string,
+  personaId: string,
+  model: EmotionOverride,
+  updatedBy: string
+): Promise<EmotionOverride> {
+  const { error } = await supabaseAdmin
+    .from("persona_emotion_models")
+    .upsert(
+      { org_id: orgId, persona_id: personaId, model, updated_at: new Date().toISOString(), updated_by: updatedBy },
+      { onConflict: "org_id,persona_id" }
+    );
+  if (error) throw new Error(`Failed to save emotion model: ${error.message}`);
+  return model;
+}
+
+/** Drop the override (back to the persona's own model). Returns false when there was none. */
+export async function clearEmotionOverride(orgId: string, personaId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("persona_emotion_models")
+    .delete()
+    .eq("org_id", orgId)
+    .eq("persona_id", personaId)
+    .select("persona_id");
+  if (error) throw new Error(`Failed to delete emotion model: ${error.message}`);
+  return (data || []).length > 0;
+}
+
+function withEmotionOverride(persona: PersonaConfig, override: EmotionOverride | null): PersonaConfig {
+  if (!override) return persona;
+  return {
+    ...persona,
+    emotion: override.emotion,
+    initialEmotion: override.initialEmotion ?? persona.initialEmotion,
+  };
+}
+
+/** Built-ins followed by the org's own personas. */
+export async function listPersonasForOrg(orgId: string | null): Promise<PersonaConfig[]> {
+  if (!orgId) return PERSONAS;
+  return [...PERSONAS, ...(await listCustomPersonas(orgId))];
+}
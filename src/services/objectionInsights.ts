@@ -0,0 +1,127 @@
+import { supabaseAdmin } from "../lib/supabase";
+import { formatTimestamp } from "../lib/transcription";
+import { OBJECTION_CATEGORIES, OBJECTION_LABELS, type ObjectionCategory } from "../lib/objections";
+
+// ---------------------------------------------
+// Top objections (dashboard)
+//
+// Aggregates call_objections over calls in the window: count + share per
+// category, a per-day/per-week trend, average handling score and the
+// best-handled example (highest handling score, earliest call on ties) so a
+// manager can play what good sounds like.
+// ---------------------------------------------
+
+type ObjectionRow = {
+  call_id: string;
+  category: ObjectionCategory;
+  start_sec: number;
+  quote: string;
+  response_start_sec: number | null;
+  response_text: string | null;
+  handling_score: number | null;
+  handling_quality: string | null;
+  notes: string | null;
+  calls: { org_id: string | null; user_id: string | null; rep_name: string | null; created_at: string };
+};
+
+/** Bucket start (YYYY-MM-DD): the day itself, or the Monday of its week. */
+function bucketOf(iso: string, bucket: "day" | "week") {
+  const d = new Date(iso);
+  if (bucket === "week") d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function bucketKeys(sinceIso: string, bucket: "day" | "week") {
+  const keys: string[] = [];
+  const step = bucket === "week" ? 7 : 1;
+  const cur = new Date(bucketOf(sinceIso, bucket) + "T00:00:00Z");
+  const end = Date.now();
+  while (cur.getTime() <= end) {
+    keys.push(cur.toISOString().slice(0, 10));
+    cur.setUTCDate(cur.getUTCDate() + step);
+  }
+  return keys;
+}
+
+export async function topObjections(opts: {
+  orgId: string;
+  repId?: string | null;
+  days?: number;
+  limit?: number;
+}) {
+  const days = Math.min(Math.max(Number(opts.days || 90), 1), 365);
+  const limit = Math.min(Math.max(Number(opts.limit || 5), 1), OBJECTION_CATEGORIES.length);
+  const sinceIso = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const bucket: "day" | "week" = days <= 14 ? "day" : "week";
+
+  let q = supabaseAdmin
+    .from("call_objections")
+    .select(
+      "call_id,category,start_sec,quote,response_start_sec,response_text,handling_score,handling_quality,notes," +
+      "calls!inner(org_id,user_id,rep_name,created_at)"
+    )
+    .eq("calls.org_id", opts.orgId)
+    .gte("calls.created_at", sinceIso)
+    .limit(20000);
+  if (opts.repId) q = q.eq("calls.user_id", opts.repId);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load objections: ${error.message}`);
+  const rows = (data || []) as unknown as ObjectionRow[];
+
+  const keys = bucketKeys(sinceIso, bucket);
+  const callsWithObjections = new Set(rows.map((r) => r.call_id)).size;
+
+  const items = OBJECTION_CATEGORIES.map((category) => {
+    const hits = rows.filter((r) => r.category === category);
+    const counts = new Map<string, number>(keys.map((k) => [k, 0]));
+    for (const r of hits) {
+      const k = bucketOf(r.calls.created_at, bucket);
+      counts.set(k, (counts.get(k) || 0) + 1);
+    }
+
+    const scored = hits.filter((r) => r.handling_score != null);
+    const best = scored
+      .filter((r) => r.response_start_sec != null)
+      .sort((a, b) => Number(b.handling_score) - Number(a.handling_score) || a.calls.created_at.localeCompare(b.calls.created_at))[0];
+
+    // Trend direction: second half of the window vs the first half
+    const series = keys.map((k) => counts.get(k) || 0);
+    const half = Math.floor(series.length / 2);
+    const early = series.slice(0, half).reduce((a, b) => a + b, 0);
+    const late = series.slice(half).reduce((a, b) => a + b, 0);
+
+    return {
+      category,
+      label: OBJECTION_LABELS[category],
+      count: hits.length,
+      calls: new Set(hits.map((r) => r.call_id)).size,
+      share: rows.length ? Math.round((hits.length / rows.length) * 1000) / 10 : 0,
+      avg_handling: scored.length
+        ? Math.round(scored.reduce((a, r) => a + Number(r.handling_score), 0) / scored.length)
+        : null,
+      trend: keys.map((k) => ({ bucket: k, count: counts.get(k) || 0 })),
+      change_pct: early ? Math.round(((late - early) / early) * 100) : null,
+      best_example: best
+        ? {
+            call_id: best.call_id,
+            rep_id: best.calls.user_id,
+            rep_name: best.calls.rep_name,
+            start_sec: Number(best.start_sec),
+            timestamp: formatTimestamp(Number(best.start_sec)),
+            quote: best.quote,
+            response_start_sec: Number(best.response_start_sec),
+            response_text: best.response_text,
+            handling_score: Number(best.handling_score),
+            handling_quality: best.handling_quality,
+            notes: best.notes,
+          }
+        : null,
+    };
+  })
+    .filter((i) => i.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+
+  return { items, since: sinceIso, bucket, total: rows.length, calls_with_objections: callsWithObjections };
+}
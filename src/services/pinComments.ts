@@ -0,0 +1,199 @@
+import { supabaseAdmin } from "../lib/supabase";
+
+// ---------------------------------------------
+// Pin comment threads (manager ↔ rep coaching)
+//
+// Comments hang off a pin; parent_id makes replies (any depth). Mentions are
+// stored as rep ids on the comment: explicit ids from the UI picker plus any
+// @email / @[uuid] tokens in the body, kept only when the rep can see the pin
+// (the call owner or a Manager/Owner in the org) — anyone else is dropped.
+// Each new mention drops a best-effort "pin_mention" activity.
+// ---------------------------------------------
+
+export type PinComment = {
+  id: string;
+  pin_id: string;
+  parent_id: string | null;
+  author_id: string;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  edited_at: string | null;
+};
+
+export type PinCommentNode = PinComment & { replies: PinCommentNode[] };
+
+const MANAGER_TIERS = new Set(["Manager", "Owner"]);
+
+const COMMENT_COLUMNS = "id,pin_id,parent_id,author_id,body,mentions,created_at,edited_at";
+
+const MENTION_EMAIL_RE = /@([a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,})/gi;
+const MENTION_ID_RE = /@\[([0-9a-f-]{36})\]/gi;
+
+/** Raw mention tokens in a comment body: { ids, emails }. */
+export function parseMentionTokens(body: string) {
+  const text = String(body || "");
+  return {
+    ids: Array.from(text.matchAll(MENTION_ID_RE)).map((m) => m[1].toLowerCase()),
+    emails: Array.from(text.matchAll(MENTION_EMAIL_RE)).map((m) => m[1].toLowerCase()),
+  };
+}
+
+/**
+ * Resolve ids + body tokens to rep ids that can open the pin: the call owner
+ * and the org's managers. Unknown, other-org and other-rep mentions are dropped.
+ */
+export async function resolveMentions(
+  orgId: string,
+  callOwnerId: string | null,
+  body: string,
+  explicitIds: string[] = []
+): Promise<string[]> {
+  const tokens = parseMentionTokens(body);
+  const ids = Array.from(new Set([...explicitIds.map((s) => s.toLowerCase()), ...tokens.ids]));
+  const found = new Set<string>();
+  const keep = (r: any) => {
+    if (String(r.id) === callOwnerId || MANAGER_TIERS.has(String(r.tier || ""))) found.add(String(r.id));
+  };
+
+  if (ids.length) {
+    const { data, error } = await supabaseAdmin.from("reps").select("id,tier").eq("org_id", orgId).in("id", ids);
+    if (error) throw new Error(`Failed to resolve mentions: ${error.message}`);
+    for (const r of data || []) keep(r);
+  }
+  if (tokens.emails.length) {
+    const { data, error } = await supabaseAdmin
+      .from("reps")
+      .select("id,tier,email")
+      .eq("org_id", orgId)
+      .in("email", tokens.emails);
+    if (error) throw new Error(`Failed to resolve mentions: ${error.message}`);
+    for (const r of data || []) keep(r);
+  }
+  return Array.from(found);
+}
+
+export async function listPinComments(pinId: string): Promise<PinComment[]> {
+  const { data, error } = await supabaseAdmin
+    .from("pin_comments")
+    .select(COMMENT_COLUMNS)
+    .eq("pin_id", pinId)
+    .order("created_at", { ascending: true })
+    .limit(1000);
+  if (error) throw new Error(`Failed to load comments: ${error.message}`);
+  return (data || []) as PinComment[];
+}
+
+/** Flat (oldest → newest) comments → root threads with nested replies. */
+export function threadComments(comments: PinComment[]): PinCommentNode[] {
+  const byId = new Map<string, PinCommentNode>();
+  for (const c of comments) byId.set(c.id, { ...c, mentions: c.mentions || [], replies: [] });
+
+  const roots: PinCommentNode[] = [];
+  for (const node of byId.values()) {
+    const parent = node.parent_id ? byId.get(node.parent_id) : null;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+/** Comment counts per pin (for pin lists). */
+export async function commentCounts(pinIds: string[]): Promise<Record<string, number>> {
+  if (!pinIds.length) return {};
+  const { data, error } = await supabaseAdmin.from("pin_comments").select("pin_id").in("pin_id", pinIds).limit(10000);
+  if (error) throw new Error(`Failed to count comments: ${error.message}`);
+  const out: Record<string, number> = {};
+  for (const r of data || []) out[String((r as any).pin_id)] = (out[String((r as any).pin_id)] || 0) + 1;
+  return out;
+}
+
+export async function addPinComment(args: {
+  pinId: string;
+  callId: string;
+  orgId: string | null;
+  callOwnerId: string | null;
+  authorId: string;
+  body: string;
+  parentId?: string | null;
+  mentions?: string[];
+}): Promise<PinComment> {
+  if (args.parentId) {
+    const { data: parent, error } = await supabaseAdmin
+      .from("pin_comments")
+      .select("id,pin_id")
+      .eq("id", args.parentId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load parent comment: ${error.message}`);
+    if (!parent || String((parent as any).pin_id) !== args.pinId) throw new Error("parent_not_found");
+  }
+
+  const mentions = args.orgId
+    ? (await resolveMentions(args.orgId, args.callOwnerId, args.body, args.mentions)).filter((id) => id !== args.authorId)
+    : [];
+
+  const { data, error } = await supabaseAdmin
+    .from("pin_comments")
+    .insert({
+      pin_id: args.pinId,
+      parent_id: args.parentId ?? null,
+      author_id: args.authorId,
+      body: args.body,
+      mentions,
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to save comment: ${error?.message ?? "No data"}`);
+
+  if (mentions.length) {
+    const comment = data as PinComment;
+    const { error: actErr } = await supabaseAdmin.from("activities").insert(
+      mentions.map((repId) => ({
+        org_id: args.orgId,
+        type: "pin_mention", // allowed by sql/20261028_pin_comments.sql
+        actor_user_id: args.authorId,
+        call_id: args.callId,
+        summary: `Mentioned on a pin: ${args.body.slice(0, 140)}`,
+        payload: { pin_id: args.pinId, comment_id: comment.id, mentioned_rep_id: repId },
+        created_at: new Date().toISOString(),
+      }))
+    );
+    if (actErr) console.warn("[pins] mention activity insert failed:", actErr.message);
+  }
+
+  return data as PinComment;
+}
+
+export async function getPinComment(commentId: string): Promise<PinComment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("pin_comments")
+    .select(COMMENT_COLUMNS)
+    .eq("id", commentId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load comment: ${error.message}`);
+  return (data as PinComment) ?? null;
+}
+
+/** Delete a comment; replies go with it (FK cascade). */
+export async function deletePinComment(commentId: string) {
+  const { error } = await supabaseAdmin.from("pin_comments").delete().eq("id", commentId);
+  if (error) throw new Error(`Failed to delete comment: ${error.message}`);
+}
+
+/** Comments that mention a rep, newest first, with their pin (for a "mentions" inbox). */
+export async function listMentions(repId: string, opts: { unresolvedOnly?: boolean; limit?: number } = {}) {
+  let q = supabaseAdmin
+    .from("pin_comments")
+    .select(`${COMMENT_COLUMNS},pins!inner(id,call_id,t,note,resolved_at)`)
+    .contains("mentions", [repId])
+    .order("created_at", { ascending: false })
+    .limit(Math.min(Math.max(Number(opts.limit || 50), 1), 200));
+  if (opts.unresolvedOnly) q = q.is("pins.resolved_at", null);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load mentions: ${error.message}`);
+  return (data || []).map((r: any) => {
+    const { pins, ...comment } = r;
+    return { comment: comment as PinComment, pin: pins };
+  });
+}
@@ -0,0 +1,249 @@
+import { z } from "zod";
+import { supabaseAdmin } from "../lib/supabase";
+import { commentCounts } from "./pinComments";
+
+// ---------------------------------------------
+// Pins (timestamped moments on a call)
+//
+// One schema and one set of ownership rules behind both /v1/pins and
+// /v1/calls/:id/pins. A pin covers start_sec..end_sec (end null = a point);
+// the legacy `t` column mirrors floor(start_sec) for older clients.
+// Access: the call owner and Manager/Owner reps in the call's org.
+// Editing a pin's note/range is limited to its author; system pins
+// (source = 'system') are dismissed rather than deleted.
+// ---------------------------------------------
+
+const MAX_SEC = 24 * 60 * 60; // up to 24h audio
+const MANAGER_TIERS = new Set(["Manager", "Owner"]);
+
+export const PIN_SOURCES = ["user", "system"] as const;
+export type PinSource = (typeof PIN_SOURCES)[number];
+
+export const PIN_COLORS = ["amber", "red", "green", "blue", "violet"] as const;
+
+export type Pin = {
+  id: string;
+  call_id: string;
+  user_id: string | null;
+  t: number;
+  start_sec: number;
+  end_sec: number | null;
+  label: string | null;
+  note: string | null;
+  color: string | null;
+  source: PinSource;
+  system_key: string | null;
+  dismissed_at: string | null;
+  dismissed_by: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+const PIN_COLUMNS =
+  "id,call_id,user_id,t,start_sec,end_sec,label,note,color,source,system_key," +
+  "dismissed_at,dismissed_by,resolved_at,resolved_by,created_at,updated_at";
+
+const seconds = z.number().min(0).max(MAX_SEC);
+
+/** Body for creating a pin. `t` is accepted as a legacy alias for start_sec. */
+export const PinInputSchema = z
+  .object({
+    start_sec: seconds.optional(),
+    end_sec: seconds.nullable().optional(),
+    t: seconds.optional(),
+    label: z.string().trim().max(80).nullable().optional(),
+    note: z.string().trim().max(500).nullable().optional(),
+    color: z.enum(PIN_COLORS).nullable().optional(),
+  })
+  .refine((b) => b.start_sec != null || b.t != null, { message: "start_sec is required", path: ["start_sec"] })
+  .refine((b) => b.end_sec == null || b.end_sec >= (b.start_sec ?? b.t ?? 0), {
+    message: "end_sec must be >= start_sec",
+    path: ["end_sec"],
+  });
+
+/** Body for editing a pin (any subset). */
+export const PinPatchSchema = z
+  .object({
+    start_sec: seconds.optional(),
+    end_sec: seconds.nullable().optional(),
+    label: z.string().trim().max(80).nullable().optional(),
+    note: z.string().trim().max(500).nullable().optional(),
+    color: z.enum(PIN_COLORS).nullable().optional(),
+  })
+  .refine((b) => Object.keys(b).length > 0, { message: "nothing to update" });
+
+export type PinInput = z.infer<typeof PinInputSchema>;
+export type PinPatch = z.infer<typeof PinPatchSchema>;
+
+export type CallAccess = {
+  call: { id: string; user_id: string; org_id: string | null };
+  isOwner: boolean;
+  isManager: boolean; // Manager/Owner in the call's org
+};
+
+/** Throws not_found / forbidden. */
+export async function callAccess(requester: string, callId: string): Promise<CallAccess> {
+  const { data: call, error: callErr } = await supabaseAdmin
+    .from("calls")
+    .select("id,user_id,org_id")
+    .eq("id", callId)
+    .maybeSingle();
+  if (callErr) throw new Error(`Failed to load call: ${callErr.message}`);
+  if (!call) throw new Error("not_found");
+
+  const isOwner = call.user_id === requester;
+  let isManager = false;
+  if (call.org_id) {
+    const { data: rep } = await supabaseAdmin
+      .from("reps")
+      .select("id,tier,org_id")
+      .eq("id", requester)
+      .maybeSingle();
+    isManager =
+      !!rep &&
+      MANAGER_TIERS.has(String((rep as any).tier || "")) &&
+      String((rep as any).org_id || "") === String(call.org_id);
+  }
+  if (!isOwner && !isManager) throw new Error("forbidden");
+
+  return { call: call as CallAccess["call"], isOwner, isManager };
+}
+
+export async function getPin(pinId: string): Promise<Pin | null> {
+  const { data, error } = await supabaseAdmin.from("pins").select(PIN_COLUMNS).eq("id", pinId).maybeSingle();
+  if (error) throw new Error(`Failed to load pin: ${error.message}`);
+  return (data as unknown as Pin) ?? null;
+}
+
+/** Pin + access to its call. callId (nested routes) must match the pin's call. */
+export async function pinAccess(requester: string, pinId: string, callId?: string | null) {
+  const pin = await getPin(pinId);
+  if (!pin || (callId && pin.call_id !== callId)) throw new Error("not_found");
+  const access = await callAccess(requester, pin.call_id);
+  return { pin, ...access };
+}
+
+export async function listPins(
+  callId: string,
+  opts: { source?: PinSource | null; includeDismissed?: boolean; resolved?: boolean | null } = {}
+) {
+  let q = supabaseAdmin
+    .from("pins")
+    .select(PIN_COLUMNS)
+    .eq("call_id", callId)
+    .order("start_sec", { ascending: true })
+    .order("created_at", { ascending: true })
+    .limit(500);
+  if (opts.source) q = q.eq("source", opts.source);
+  if (!opts.includeDismissed) q = q.is("dismissed_at", null);
+  if (opts.resolved === true) q = q.not("resolved_at", "is", null);
+  if (opts.resolved === false) q = q.is("resolved_at", null);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load pins: ${error.message}`);
+
+  const pins = (data || []) as unknown as Pin[];
+  const counts = await commentCounts(pins.map((p) => p.id));
+  return pins.map((p) => ({ ...p, comment_count: counts[p.id] || 0 }));
+}
+
+export async function createPin(callId: string, authorId: string, input: PinInput): Promise<Pin> {
+  const start = input.start_sec ?? input.t ?? 0;
+  const { data, error } = await supabaseAdmin
+    .from("pins")
+    .insert({
+      call_id: callId,
+      user_id: authorId,
+      t: Math.floor(start),
+      start_sec: start,
+      end_sec: input.end_sec ?? null,
+      label: input.label ?? null,
+      note: input.note ?? null,
+      color: input.color ?? null,
+      source: "user",
+    })
+    .select(PIN_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to create pin: ${error?.message ?? "No data"}`);
+  return data as unknown as Pin;
+}
+
+/** Author-only edit of note / label / colour / range. */
+export async function updatePin(pin: Pin, requester: string, patch: PinPatch): Promise<Pin> {
+  if (pin.source === "system" || pin.user_id !== requester) throw new Error("forbidden");
+
+  const start = patch.start_sec ?? Number(pin.start_sec);
+  const end = patch.end_sec === undefined ? pin.end_sec : patch.end_sec;
+  if (end != null && end < start) throw new Error("invalid_range");
+
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.start_sec !== undefined) {
+    update.start_sec = patch.start_sec;
+    update.t = Math.floor(patch.start_sec);
+  }
+  if (patch.end_sec !== undefined) update.end_sec = patch.end_sec;
+  if (patch.label !== undefined) update.label = patch.label;
+  if (patch.note !== undefined) update.note = patch.note;
+  if (patch.color !== undefined) update.color = patch.color;
+
+  const { data, error } = await supabaseAdmin
+    .from("pins")
+    .update(update)
+    .eq("id", pin.id)
+    .select(PIN_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to update pin: ${error?.message ?? "No data"}`);
+  return data as unknown as Pin;
+}
+
+/**
+ * Pin author or call owner may delete. System pins are dismissed (soft) by the
+ * call owner instead, so re-scoring the call doesn't recreate them.
+ */
+export async function deletePin(pin: Pin, requester: string, access: CallAccess): Promise<{ dismissed: boolean }> {
+  if (pin.source === "system") {
+    if (!access.isOwner) throw new Error("forbidden");
+    const { error } = await supabaseAdmin
+      .from("pins")
+      .update({ dismissed_at: new Date().toISOString(), dismissed_by: requester })
+      .eq("id", pin.id);
+    if (error) throw new Error(`Failed to dismiss pin: ${error.message}`);
+    return { dismissed: true };
+  }
+
+  if (!access.isOwner && pin.user_id !== requester) throw new Error("forbidden");
+  const { error } = await supabaseAdmin.from("pins").delete().eq("id", pin.id);
+  if (error) throw new Error(`Failed to delete pin: ${error.message}`);
+  return { dismissed: false };
+}
+
+/** Bring back a dismissed system pin (call owner). */
+export async function restorePin(pin: Pin, access: CallAccess): Promise<Pin> {
+  if (pin.source !== "system") throw new Error("not_a_system_pin");
+  if (!access.isOwner) throw new Error("forbidden");
+  const { data, error } = await supabaseAdmin
+    .from("pins")
+    .update({ dismissed_at: null, dismissed_by: null })
+    .eq("id", pin.id)
+    .select(PIN_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to restore pin: ${error?.message ?? "No data"}`);
+  return data as unknown as Pin;
+}
+
+export async function setPinResolved(pin: Pin, requester: string, resolved: boolean): Promise<Pin> {
+  const { data, error } = await supabaseAdmin
+    .from("pins")
+    .update(
+      resolved
+        ? { resolved_at: new Date().toISOString(), resolved_by: requester }
+        : { resolved_at: null, resolved_by: null }
+    )
+    .eq("id", pin.id)
+    .select(PIN_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to update pin: ${error?.message ?? "No data"}`);
+  return data as unknown as Pin;
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { supabaseAdmin } from "../lib/supabase";
+import { emptyPiiCounts, PII_TYPES, type PiiReport } from "../lib/redaction";
+
+// ---------------------------------------------
+// Org privacy settings + PII redaction report
+//
+// org_privacy_settings.redact_pii decides whether LLM prompts (scoring,
+// objections, sparring) get the redacted transcript; it defaults to on.
+// The redacted variant is always stored, so flipping the toggle needs no
+// re-processing. The report sums calls.pii_report across the org's calls —
+// types, counts and segment positions only, never the redacted values.
+// ---------------------------------------------
+
+export type PrivacySettings = {
+  org_id: string;
+  redact_pii: boolean;
+  updated_at: string | null;
+  updated_by: string | null;
+};
+
+const SETTINGS_COLUMNS = "org_id,redact_pii,updated_at,updated_by";
+
+export const PrivacySettingsSchema = z.object({ redact_pii: z.boolean() });
+
+export async function getPrivacySettings(orgId: string): Promise<PrivacySettings> {
+  const { data, error } = await supabaseAdmin
+    .from("org_privacy_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("org_id", orgId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load privacy settings: ${error.message}`);
+  return (data as PrivacySettings) ?? { org_id: orgId, redact_pii: true, updated_at: null, updated_by: null };
+}
+
+export async function setPrivacySettings(
+  orgId: string,
+  patch: z.infer<typeof PrivacySettingsSchema>,
+  updatedBy: string
+): Promise<PrivacySettings> {
+  const { data, error } = await supabaseAdmin
+    .from("org_privacy_settings")
+    .upsert(
+      { org_id: orgId, redact_pii: patch.redact_pii, updated_at: new Date().toISOString(), updated_by: updatedBy },
+      { onConflict: "org_id" }
+    )
+    .select(SETTINGS_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to save privacy settings: ${error?.message ?? "No data"}`);
+  return data as PrivacySettings;
+}
+
+/**
+ * What was redacted across the org's calls (optionally since a date):
+ * totals per type, how many calls had any PII, and the calls with the most.
+ * Calls transcribed before redaction existed have no report and are skipped
+ * (their prompts are still redacted on the fly).
+ */
+export async function piiRedactionReport(opts: { orgId: string; since?: string | null; limit?: number }) {
+  let q = supabaseAdmin
+    .from("calls")
+    .select("id,filename,user_id,created_at,pii_report")
+    .eq("org_id", opts.orgId)
+    .not("pii_report", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(20000);
+  if (opts.since) q = q.gte("created_at", opts.since);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load calls: ${error.message}`);
+
+  const totals = emptyPiiCounts();
+  const withPii: { id: string; filename: string | null; user_id: string | null; created_at: string; report: PiiReport }[] = [];
+  for (const c of (data || []) as any[]) {
+    const report = c.pii_report as PiiReport;
+    for (const t of PII_TYPES) totals[t] += Number(report.counts?.[t]) || 0;
+    if (report.total > 0) withPii.push({ id: c.id, filename: c.filename, user_id: c.user_id, created_at: c.created_at, report });
+  }
+
+  withPii.sort((a, b) => b.report.total - a.report.total || b.created_at.localeCompare(a.created_at));
+  const settings = await getPrivacySettings(opts.orgId);
+  return {
+    redact_pii: settings.redact_pii,
+    since: opts.since ?? null,
+    calls_scanned: (data || []).length,
+    calls_with_pii: withPii.length,
+    totals,
+    total: PII_TYPES.reduce((n, t) => n + totals[t], 0),
+    calls: withPii.slice(0, Math.min(Math.max(Number(opts.limit || 50), 1), 500)),
+  };
+}
@@ -0,0 +1,245 @@
+import { supabaseAdmin } from "../lib/supabase";
+import { batchJobCounts, cancelBatchJobs, enqueueJobs } from "../lib/jobQueue";
+import { getActiveRubric, getRubricById, rubricVersionLabel } from "./rubrics";
+
+// ---------------------------------------------
+// Batch re-score (rubric migrations)
+//
+// A batch selects scored calls by filters, pins the target rubric and enqueues
+// one "rescore" job per call (job kind concurrency caps the load). Progress is
+// read straight from the jobs table. Every re-score appends a new call_scores
+// row tagged with rescore_batch_id; the originals stay for before/after.
+// Batches are always bound to one org (the requesting manager's): selection,
+// listing, progress, compare and cancel never reach across orgs.
+// ---------------------------------------------
+
+export type RescoreFilters = {
+  from?: string | null;          // created_at >= (ISO)
+  to?: string | null;            // created_at <  (ISO)
+  repId?: string | null;         // calls.user_id
+  orgId: string;                 // calls.org_id (always the requester's org)
+  rubricVersion?: string | null; // current calls.rubric_version (e.g. "v1")
+  rubricId?: string | null;      // current calls.rubric_id
+};
+
+export type RescoreBatch = {
+  id: string;
+  model: string | null;   // override of AI_MODEL (calibration), null = default
+  shadow: boolean;        // only append call_scores; live call scores untouched
+  org_id: string | null;
+  requested_by: string | null;
+  filters: RescoreFilters;
+  rubric_id: string;
+  rubric_version: string;
+  total: number;
+  status: "running" | "done" | "cancelled";
+  created_at: string;
+  finished_at: string | null;
+};
+
+export const RESCORE_MAX_CALLS = Number(process.env.RESCORE_MAX_CALLS || 5000);
+
+const BATCH_COLUMNS = "id,model,shadow,org_id,requested_by,filters,rubric_id,rubric_version,total,status,created_at,finished_at";
+
+/** Calls matching the filters (scored calls only), oldest first. */
+export async function selectRescoreCalls(filters: RescoreFilters, limit = RESCORE_MAX_CALLS) {
+  let q = supabaseAdmin
+    .from("calls")
+    .select("id,user_id,org_id,created_at,score_overall,rubric_version,rubric_id")
+    .not("score_overall", "is", null)
+    .order("created_at", { ascending: true })
+    .limit(limit + 1);
+
+  if (filters.from) q = q.gte("created_at", filters.from);
+  if (filters.to) q = q.lt("created_at", filters.to);
+  if (filters.repId) q = q.eq("user_id", filters.repId);
+  q = q.eq("org_id", filters.orgId);
+  if (filters.rubricVersion) q = q.eq("rubric_version", filters.rubricVersion);
+  if (filters.rubricId) q = q.eq("rubric_id", filters.rubricId);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to select calls: ${error.message}`);
+
+  const rows = data || [];
+  return { calls: rows.slice(0, limit), truncated: rows.length > limit };
+}
+
+/**
+ * Create a batch and enqueue its jobs. Target rubric: explicit id (global or the
+ * org's own), else the org's active rubric, else the built-in default.
+ */
+export async function createRescoreBatch(args: {
+  filters: RescoreFilters;
+  targetRubricId?: string | null;
+  model?: string | null;
+  shadow?: boolean;
+  requestedBy: string | null;
+}): Promise<{ batch: RescoreBatch; truncated: boolean }> {
+  const { filters, requestedBy } = args;
+
+  const rubric = args.targetRubricId
+    ? await getRubricById(args.targetRubricId)
+    : await getActiveRubric(filters.orgId);
+  if (!rubric) throw new Error("rubric_not_found");
+  if (rubric.org_id && rubric.org_id !== filters.orgId) throw new Error("rubric_org_mismatch");
+
+  const { calls, truncated } = await selectRescoreCalls(filters);
+  if (!calls.length) throw new Error("no_matching_calls");
+
+  const { data, error } = await supabaseAdmin
+    .from("rescore_batches")
+    .insert({
+      org_id: filters.orgId,
+      requested_by: requestedBy,
+      filters,
+      rubric_id: rubric.id,
+      rubric_version: rubricVersionLabel(rubric),
+      model: args.model ?? null,
+      shadow: !!args.shadow,
+      total: calls.length,
+      status: "running",
+    })
+    .select(BATCH_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to create batch: ${error?.message ?? "No data"}`);
+
+  const batch = data as RescoreBatch;
+
+  await enqueueJobs(
+    supabaseAdmin,
+    calls.map((call: any) => ({
+      kind: "rescore",
+      callId: String(call.id),
+      userId: call.user_id ?? null,
+      batchId: batch.id,
+      payload: { rubricId: rubric.id, model: args.model ?? null, shadow: !!args.shadow },
+      maxAttempts: 3,
+    }))
+  );
+
+  return { batch, truncated };
+}
+
+/** The org's batch (null for unknown ids and other orgs' batches). */
+export async function getRescoreBatch(orgId: string, batchId: string): Promise<RescoreBatch | null> {
+  const { data, error } = await supabaseAdmin
+    .from("rescore_batches")
+    .select(BATCH_COLUMNS)
+    .eq("id", batchId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load batch: ${error.message}`);
+  return (data as RescoreBatch) ?? null;
+}
+
+export async function listRescoreBatches(orgId: string, limit = 20): Promise<RescoreBatch[]> {
+  const { data, error } = await supabaseAdmin
+    .from("rescore_batches")
+    .select(BATCH_COLUMNS)
+    .eq("org_id", orgId)
+    .order("created_at", { ascending: false })
+    .limit(Math.min(Math.max(limit, 1), 100));
+  if (error) throw new Error(`Failed to list batches: ${error.message}`);
+  return (data || []) as RescoreBatch[];
+}
+
+/** Batch + live job counts; flips the batch to done once nothing is left in flight. */
+export async function getRescoreProgress(orgId: string, batchId: string) {
+  const batch = await getRescoreBatch(orgId, batchId);
+  if (!batch) throw new Error("batch_not_found");
+
+  const counts = await batchJobCounts(supabaseAdmin, batchId);
+  const finished = counts.done + counts.dead + counts.cancelled;
+  const inFlight = counts.queued + counts.running + counts.failed;
+
+  if (batch.status === "running" && inFlight === 0) {
+    const finishedAt = new Date().toISOString();
+    await supabaseAdmin
+      .from("rescore_batches")
+      .update({ status: "done", finished_at: finishedAt })
+      .eq("id", batchId)
+      .eq("status", "running");
+    batch.status = "done";
+    batch.finished_at = finishedAt;
+  }
+
+  return {
+    batch,
+    progress: {
+      ...counts,
+      total: batch.total,
+      finished,
+      pct: batch.total ? Math.round((finished / batch.total) * 100) : 100,
+    },
+  };
+}
+
+export async function cancelRescoreBatch(orgId: string, batchId: string) {
+  const batch = await getRescoreBatch(orgId, batchId);
+  if (!batch) throw new Error("batch_not_found");
+
+  const cancelled = await cancelBatchJobs(supabaseAdmin, batchId);
+  await supabaseAdmin
+    .from("rescore_batches")
+    .update({ status: "cancelled", finished_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .eq("status", "running");
+
+  return { cancelled };
+}
+
+/**
+ * Before/after per call: the batch's row vs the newest earlier row for the same call.
+ * Only calls the batch has re-scored so far are included.
+ */
+export async function compareRescoreBatch(orgId: string, batchId: string, limit = 500) {
+  const batch = await getRescoreBatch(orgId, batchId);
+  if (!batch) throw new Error("batch_not_found");
+
+  const { data: after, error } = await supabaseAdmin
+    .from("call_scores")
+    .select("call_id,overall,rubric_version,ai_model,created_at")
+    .eq("rescore_batch_id", batchId)
+    .order("created_at", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load batch scores: ${error.message}`);
+
+  const callIds = Array.from(new Set((after || []).map((r: any) => String(r.call_id))));
+  if (!callIds.length) return { batch, items: [], summary: { calls: 0, meanDelta: null, meanAbsDelta: null } };
+
+  const { data: before, error: beforeErr } = await supabaseAdmin
+    .from("call_scores")
+    .select("call_id,overall,rubric_version,ai_model,created_at")
+    .in("call_id", callIds)
+    .lt("created_at", batch.created_at)
+    .order("created_at", { ascending: false })
+    .limit(callIds.length * 20);
+  if (beforeErr) throw new Error(`Failed to load prior scores: ${beforeErr.message}`);
+
+  const prior = new Map<string, any>();
+  for (const r of before || []) if (!prior.has(String((r as any).call_id))) prior.set(String((r as any).call_id), r);
+
+  const items = (after || []).map((r: any) => {
+    const old = prior.get(String(r.call_id)) ?? null;
+    const oldOverall = old ? Number(old.overall) : null;
+    return {
+      call_id: r.call_id,
+      before: old ? { overall: oldOverall, rubric_version: old.rubric_version, ai_model: old.ai_model } : null,
+      after: { overall: Number(r.overall), rubric_version: r.rubric_version, ai_model: r.ai_model },
+      delta: oldOverall == null ? null : Number(r.overall) - oldOverall,
+    };
+  });
+
+  const deltas = items.map((i) => i.delta).filter((d): d is number => d != null);
+  const mean = (xs: number[]) => (xs.length ? Math.round((xs.reduce((a, b) => a + b, 0) / xs.length) * 10) / 10 : null);
+
+  return {
+    batch,
+    items,
+    summary: {
+      calls: items.length,
+      meanDelta: mean(deltas),
+      meanAbsDelta: mean(deltas.map(Math.abs)),
+    },
+  };
+}
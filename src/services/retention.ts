@@ -0,0 +1,498 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { supabaseAdmin } from "../lib/supabase";
+import { enqueueJob } from "../lib/jobQueue";
+
+// ---------------------------------------------
+// Retention + erasure
+//
+// Per-org policy (retention_policies), each window in days, null = keep:
+//   audio_days       → delete recordings from storage (scores etc. stay)
+//   transcript_days  → redact transcript text, objection quotes, system pin
+//                      notes (they quote the transcript), summaries
+//   call_days        → hard-delete the call and everything hanging off it
+// A self-rescheduling `retention_purge` job applies every policy daily.
+//
+// Erasure ("delete everything for this rep / contact") hard-deletes the
+// subject's calls plus their own records and writes a deletion receipt:
+// the subject is stored only as a sha256 hash, and the receipt is signed
+// (HMAC) so it can later be verified untampered — and re-checked that
+// nothing for the subject remains.
+//
+// Env (all optional):
+//   RETENTION_PURGE_INTERVAL_H  (default 24)
+//   DELETION_RECEIPT_SECRET     (default: the service role key)
+// ---------------------------------------------
+
+const BUCKET = process.env.SUPABASE_STORAGE_BUCKET || "calls";
+const PURGE_INTERVAL_MS = Number(process.env.RETENTION_PURGE_INTERVAL_H || 24) * 60 * 60 * 1000;
+const PURGE_BATCH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REDACTED = "[redacted]";
+
+/** Tables keyed by call_id, deleted before the call row itself. */
+const CALL_CHILD_TABLES = [
+  "call_transcript_segments",
+  "call_objections",
+  "call_score_overrides",
+  "call_scores",
+  "pins", // pin_comments cascade
+  "coach_assignments",
+  "coach_notes",
+  "crm_call_links",
+  "activities",
+  "jobs",
+] as const;
+
+export type RetentionPolicy = {
+  org_id: string;
+  audio_days: number | null;
+  transcript_days: number | null;
+  call_days: number | null;
+  updated_at: string | null;
+  updated_by: string | null;
+};
+
+const POLICY_COLUMNS = "org_id,audio_days,transcript_days,call_days,updated_at,updated_by";
+
+const days = z.number().int().min(1).max(3650).nullable().optional();
+
+export const RetentionPolicySchema = z
+  .object({ audio_days: days, transcript_days: days, call_days: days })
+  .refine((p) => Object.values(p).some((v) => v !== undefined), { message: "nothing to update" });
+
+export type RetentionPolicyPatch = z.infer<typeof RetentionPolicySchema>;
+
+export async function getRetentionPolicy(orgId: string): Promise<RetentionPolicy> {
+  const { data, error } = await supabaseAdmin
+    .from("retention_policies")
+    .select(POLICY_COLUMNS)
+    .eq("org_id", orgId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load retention policy: ${error.message}`);
+  return (
+    (data as RetentionPolicy) ?? {
+      org_id: orgId,
+      audio_days: null,
+      transcript_days: null,
+      call_days: null,
+      updated_at: null,
+      updated_by: null,
+    }
+  );
+}
+
+export async function setRetentionPolicy(
+  orgId: string,
+  patch: RetentionPolicyPatch,
+  updatedBy: string
+): Promise<RetentionPolicy> {
+  const row: Record<string, unknown> = { org_id: orgId, updated_at: new Date().toISOString(), updated_by: updatedBy };
+  for (const k of ["audio_days", "transcript_days", "call_days"] as const) {
+    if (patch[k] !== undefined) row[k] = patch[k];
+  }
+  const { data, error } = await supabaseAdmin
+    .from("retention_policies")
+    .upsert(row, { onConflict: "org_id" })
+    .select(POLICY_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to save retention policy: ${error?.message ?? "No data"}`);
+  return data as RetentionPolicy;
+}
+
+// --- Storage + hard delete ----------------------------------------------------
+
+type CallFiles = { id: string; storage_path: string | null; audio_path: string | null; audio_meta: any };
+
+function storagePaths(calls: CallFiles[]) {
+  const paths = new Set<string>();
+  for (const c of calls) {
+    for (const p of [c.storage_path, c.audio_path, c.audio_meta?.normalized_path]) if (p) paths.add(String(p));
+  }
+  return Array.from(paths);
+}
+
+async function removeObjects(paths: string[]) {
+  let removed = 0;
+  for (let i = 0; i < paths.length; i += 100) {
+    const chunk = paths.slice(i, i + 100);
+    const { data, error } = await supabaseAdmin.storage.from(BUCKET).remove(chunk);
+    if (error) throw new Error(`Failed to remove audio: ${error.message}`);
+    removed += (data || []).length;
+  }
+  return removed;
+}
+
+export type DeletionCounts = Record<string, number>;
+
+/**
+ * Hard-delete calls: storage objects, every call_id child table, then the
+ * rows. Per-table failures are collected (not thrown) so a receipt can show
+ * exactly what did and didn't go.
+ */
+export async function deleteCalls(callIds: string[]) {
+  const counts: DeletionCounts = { storage_objects: 0 };
+  const errors: string[] = [];
+  if (!callIds.length) return { counts: { ...counts, calls: 0 }, errors };
+
+  for (let i = 0; i < callIds.length; i += PURGE_BATCH) {
+    const ids = callIds.slice(i, i + PURGE_BATCH);
+
+    const { data: calls, error } = await supabaseAdmin
+      .from("calls")
+      .select("id,storage_path,audio_path,audio_meta")
+      .in("id", ids);
+    if (error) throw new Error(`Failed to load calls: ${error.message}`);
+
+    try {
+      counts.storage_objects += await removeObjects(storagePaths((calls || []) as CallFiles[]));
+    } catch (e: any) {
+      errors.push(`storage: ${e?.message || e}`);
+    }
+
+    for (const table of CALL_CHILD_TABLES) {
+      const { count, error: delErr } = await supabaseAdmin.from(table).delete({ count: "exact" }).in("call_id", ids);
+      if (delErr) errors.push(`${table}: ${delErr.message}`);
+      else counts[table] = (counts[table] || 0) + (count || 0);
+    }
+
+    const { count, error: callErr } = await supabaseAdmin.from("calls").delete({ count: "exact" }).in("id", ids);
+    if (callErr) errors.push(`calls: ${callErr.message}`);
+    else counts.calls = (counts.calls || 0) + (count || 0);
+  }
+
+  return { counts, errors };
+}
+
+// --- Scheduled purge ------------------------------------------------------------
+
+async function expiredCallIds(orgId: string, cutoffIso: string, unset?: string) {
+  let q = supabaseAdmin
+    .from("calls")
+    .select("id,storage_path,audio_path,audio_meta")
+    .eq("org_id", orgId)
+    .lt("created_at", cutoffIso)
+    .order("created_at", { ascending: true })
+    .limit(PURGE_BATCH);
+  if (unset) q = q.is(unset, null);
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load expired calls: ${error.message}`);
+  return (data || []) as CallFiles[];
+}
+
+/** Delete recordings older than the window; the call, scores and transcript stay. */
+async function purgeAudio(orgId: string, cutoffIso: string) {
+  let calls = 0;
+  let objects = 0;
+  for (;;) {
+    const batch = await expiredCallIds(orgId, cutoffIso, "audio_purged_at");
+    if (!batch.length) break;
+    objects += await removeObjects(storagePaths(batch));
+    const { error } = await supabaseAdmin
+      .from("calls")
+      .update({ audio_purged_at: new Date().toISOString(), audio_path: null })
+      .in("id", batch.map((c) => c.id));
+    if (error) throw new Error(`Failed to mark audio purged: ${error.message}`);
+    calls += batch.length;
+    if (batch.length < PURGE_BATCH) break;
+  }
+  return { calls, storage_objects: objects };
+}
+
+/** Blank transcript text + quotes (objections, system pins) + summaries; scores and metrics stay. */
+async function redactTranscripts(orgId: string, cutoffIso: string) {
+  let calls = 0;
+  for (;;) {
+    const ids = (await expiredCallIds(orgId, cutoffIso, "transcript_redacted_at")).map((c) => c.id);
+    if (!ids.length) break;
+
+    const steps = [
+      supabaseAdmin.from("call_transcript_segments").update({ text: REDACTED, text_redacted: REDACTED }).in("call_id", ids),
+      supabaseAdmin.from("call_objections").update({ quote: REDACTED, response_text: null }).in("call_id", ids),
+      supabaseAdmin.from("pins").update({ note: REDACTED }).in("call_id", ids).eq("source", "system"),
+      supabaseAdmin
+        .from("calls")
+        .update({ summary: null, transcript_redacted_at: new Date().toISOString() })
+        .in("id", ids),
+    ];
+    for (const step of steps) {
+      const { error } = await step;
+      if (error) throw new Error(`Failed to redact transcripts: ${error.message}`);
+    }
+    calls += ids.length;
+    if (ids.length < PURGE_BATCH) break;
+  }
+  return { calls };
+}
+
+/** Apply one org's policy now. */
+export async function purgeOrg(policy: RetentionPolicy, now = new Date()) {
+  const cutoff = (d: number) => new Date(now.getTime() - d * DAY_MS).toISOString();
+  const result: Record<string, unknown> = { org_id: policy.org_id };
+
+  if (policy.call_days) {
+    const ids: string[] = [];
+    for (;;) {
+      const batch = (await expiredCallIds(policy.org_id, cutoff(policy.call_days))).map((c) => c.id);
+      const { counts, errors } = await deleteCalls(batch);
+      ids.push(...batch);
+      if (errors.length) {
+        console.warn("[retention] call delete errors:", { orgId: policy.org_id, errors });
+        break; // don't spin on rows that won't delete
+      }
+      if (batch.length < PURGE_BATCH || !counts.calls) break;
+    }
+    result.calls_deleted = ids.length;
+  }
+  if (policy.audio_days) result.audio = await purgeAudio(policy.org_id, cutoff(policy.audio_days));
+  if (policy.transcript_days) result.transcripts = await redactTranscripts(policy.org_id, cutoff(policy.transcript_days));
+
+  return result;
+}
+
+/** retention_purge job body: every org with a policy (or just one). */
+export async function runRetentionPurge(opts: { orgId?: string | null } = {}) {
+  let q = supabaseAdmin
+    .from("retention_policies")
+    .select(POLICY_COLUMNS)
+    .or("audio_days.not.is.null,transcript_days.not.is.null,call_days.not.is.null");
+  if (opts.orgId) q = q.eq("org_id", opts.orgId);
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to load retention policies: ${error.message}`);
+
+  const results = [];
+  for (const policy of (data || []) as RetentionPolicy[]) results.push(await purgeOrg(policy));
+  return results;
+}
+
+/** Make sure one retention_purge job is pending (on boot, and after each run). */
+export async function scheduleRetentionPurge(runAt?: Date) {
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .select("id")
+    .eq("kind", "retention_purge")
+    .in("status", ["queued", "failed"])
+    .limit(1);
+  if (error) throw new Error(`Failed to check purge schedule: ${error.message}`);
+  if ((data || []).length) return null;
+  return enqueueJob(supabaseAdmin, {
+    kind: "retention_purge",
+    runAt: runAt ?? new Date(Date.now() + PURGE_INTERVAL_MS),
+  });
+}
+
+// --- Erasure + receipts -----------------------------------------------------------
+
+export type ErasureSubject = { type: "rep"; repId: string } | { type: "contact"; email: string };
+
+export type DeletionReceipt = {
+  id: string;
+  org_id: string;
+  subject_type: "rep" | "contact";
+  subject_hash: string;
+  requested_by: string;
+  call_ids: string[];
+  counts: DeletionCounts;
+  errors: string[];
+  status: "completed" | "partial";
+  completed_at: string;
+  signature: string;
+};
+
+const RECEIPT_COLUMNS =
+  "id,org_id,subject_type,subject_hash,requested_by,call_ids,counts,errors,status,completed_at,signature";
+
+function receiptSecret() {
+  return process.env.DELETION_RECEIPT_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+}
+
+function subjectKey(s: ErasureSubject) {
+  return s.type === "rep" ? `rep:${s.repId.toLowerCase()}` : `contact:${s.email.trim().toLowerCase()}`;
+}
+
+/** sha256 of the subject — lets a requester prove which subject a receipt covers. */
+export function subjectHash(s: ErasureSubject) {
+  return crypto.createHash("sha256").update(subjectKey(s)).digest("hex");
+}
+
+function signReceipt(r: Omit<DeletionReceipt, "signature">) {
+  const canonical = JSON.stringify([
+    r.id, r.org_id, r.subject_type, r.subject_hash, r.requested_by,
+    r.call_ids.slice().sort(), Object.entries(r.counts).sort(), r.errors, r.status,
+    new Date(r.completed_at).toISOString(), // timestamptz comes back reformatted
+  ]);
+  return crypto.createHmac("sha256", receiptSecret()).update(canonical).digest("hex");
+}
+
+async function countRows(table: string, apply: (q: any) => any) {
+  const { count, error } = await apply(supabaseAdmin.from(table).select("*", { count: "exact", head: true }));
+  if (error) throw new Error(`Failed to count ${table}: ${error.message}`);
+  return count || 0;
+}
+
+async function deleteWhere(counts: DeletionCounts, errors: string[], key: string, table: string, apply: (q: any) => any) {
+  const { count, error } = await apply(supabaseAdmin.from(table).delete({ count: "exact" }));
+  if (error) errors.push(`${key}: ${error.message}`);
+  else counts[key] = (counts[key] || 0) + (count || 0);
+}
+
+/** Contacts with this email owned by reps in the org. */
+async function orgContactIds(orgId: string, email: string) {
+  const { data: reps, error: repErr } = await supabaseAdmin.from("reps").select("id").eq("org_id", orgId);
+  if (repErr) throw new Error(`Failed to load reps: ${repErr.message}`);
+  const owners = (reps || []).map((r: any) => String(r.id));
+  if (!owners.length) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from("crm_contacts")
+    .select("id")
+    .eq("email", email.trim().toLowerCase())
+    .in("user_id", owners);
+  if (error) throw new Error(`Failed to load contacts: ${error.message}`);
+  return (data || []).map((c: any) => String(c.id));
+}
+
+async function subjectCallIds(orgId: string, subject: ErasureSubject, contactIds: string[]) {
+  const ids = new Set<string>();
+  if (subject.type === "rep") {
+    const { data, error } = await supabaseAdmin.from("calls").select("id").eq("org_id", orgId).eq("user_id", subject.repId);
+    if (error) throw new Error(`Failed to load calls: ${error.message}`);
+    for (const c of data || []) ids.add(String((c as any).id));
+    return Array.from(ids);
+  }
+
+  if (contactIds.length) {
+    const { data, error } = await supabaseAdmin.from("crm_call_links").select("call_id").in("contact_id", contactIds);
+    if (error) throw new Error(`Failed to load call links: ${error.message}`);
+    for (const l of data || []) ids.add(String((l as any).call_id));
+  }
+  // Imported calls name the contact in import_meta even when the link failed
+  const { data: imported, error } = await supabaseAdmin
+    .from("calls")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("import_meta->>contact_email", subject.email.trim().toLowerCase());
+  if (error) throw new Error(`Failed to load imported calls: ${error.message}`);
+  for (const c of imported || []) ids.add(String((c as any).id));
+
+  // Only calls in this org
+  if (!ids.size) return [];
+  const { data: scoped, error: scopeErr } = await supabaseAdmin
+    .from("calls")
+    .select("id")
+    .eq("org_id", orgId)
+    .in("id", Array.from(ids));
+  if (scopeErr) throw new Error(`Failed to load calls: ${scopeErr.message}`);
+  return (scoped || []).map((c: any) => String(c.id));
+}
+
+/**
+ * Delete everything held about a rep or a contact in an org and return a
+ * signed receipt. Reps keep an anonymised row (other records point at it).
+ */
+export async function eraseSubject(args: {
+  orgId: string;
+  subject: ErasureSubject;
+  requestedBy: string;
+}): Promise<DeletionReceipt> {
+  const { orgId, subject } = args;
+
+  if (subject.type === "rep") {
+    const { data: rep, error } = await supabaseAdmin.from("reps").select("id,org_id").eq("id", subject.repId).maybeSingle();
+    if (error) throw new Error(`Failed to load rep: ${error.message}`);
+    if (!rep || String((rep as any).org_id) !== orgId) throw new Error("subject_not_found");
+  }
+
+  const contactIds = subject.type === "contact" ? await orgContactIds(orgId, subject.email) : [];
+  const callIds = await subjectCallIds(orgId, subject, contactIds);
+  if (subject.type === "contact" && !contactIds.length && !callIds.length) throw new Error("subject_not_found");
+
+  const { counts, errors } = await deleteCalls(callIds);
+
+  if (subject.type === "rep") {
+    const rep = subject.repId;
+    await deleteWhere(counts, errors, "pin_comments", "pin_comments", (q) => q.eq("author_id", rep));
+    await deleteWhere(counts, errors, "pins_authored", "pins", (q) => q.eq("user_id", rep));
+    await deleteWhere(counts, errors, "activities_by_rep", "activities", (q) => q.eq("actor_user_id", rep));
+
+    const { data: sessions } = await supabaseAdmin.from("sparring_sessions").select("id").eq("rep_id", rep);
+    const sessionIds = (sessions || []).map((s: any) => String(s.id));
+    if (sessionIds.length) {
+      await deleteWhere(counts, errors, "sparring_turns", "sparring_turns", (q) => q.in("session_id", sessionIds));
+    }
+    await deleteWhere(counts, errors, "sparring_sessions", "sparring_sessions", (q) => q.eq("rep_id", rep));
+
+    const { error: anonErr } = await supabaseAdmin.from("reps").update({ name: "Deleted rep", email: null }).eq("id", rep);
+    if (anonErr) errors.push(`reps: ${anonErr.message}`);
+    else counts.reps_anonymised = 1;
+  } else if (contactIds.length) {
+    await deleteWhere(counts, errors, "crm_contact_notes", "crm_contact_notes", (q) => q.in("contact_id", contactIds));
+    await deleteWhere(counts, errors, "crm_actions", "crm_actions", (q) => q.in("contact_id", contactIds));
+    await deleteWhere(counts, errors, "crm_call_links", "crm_call_links", (q) => q.in("contact_id", contactIds));
+    await deleteWhere(counts, errors, "crm_contacts", "crm_contacts", (q) => q.in("id", contactIds));
+  }
+
+  const unsigned: Omit<DeletionReceipt, "signature"> = {
+    id: crypto.randomUUID(),
+    org_id: orgId,
+    subject_type: subject.type,
+    subject_hash: subjectHash(subject),
+    requested_by: args.requestedBy,
+    call_ids: callIds,
+    counts,
+    errors,
+    status: errors.length ? "partial" : "completed",
+    completed_at: new Date().toISOString(),
+  };
+  const receipt: DeletionReceipt = { ...unsigned, signature: signReceipt(unsigned) };
+
+  const { error } = await supabaseAdmin.from("deletion_receipts").insert(receipt);
+  if (error) throw new Error(`Failed to save deletion receipt: ${error.message}`);
+  return receipt;
+}
+
+export async function getDeletionReceipt(id: string, orgId: string): Promise<DeletionReceipt | null> {
+  const { data, error } = await supabaseAdmin
+    .from("deletion_receipts")
+    .select(RECEIPT_COLUMNS)
+    .eq("id", id)
+    .eq("org_id", orgId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load receipt: ${error.message}`);
+  return (data as DeletionReceipt) ?? null;
+}
+
+/**
+ * Check a receipt: signature intact, none of its calls exist any more and,
+ * when the subject is supplied, that it matches and nothing for it remains.
+ */
+export async function verifyDeletionReceipt(receipt: DeletionReceipt, subject?: ErasureSubject | null) {
+  const { signature, ...unsigned } = receipt;
+  const expected = signReceipt({ ...unsigned, call_ids: unsigned.call_ids || [], counts: unsigned.counts || {} });
+  const signatureValid =
+    expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+
+  const remaining: Record<string, number> = {
+    calls: receipt.call_ids.length ? await countRows("calls", (q) => q.in("id", receipt.call_ids)) : 0,
+  };
+
+  let subjectMatches: boolean | null = null;
+  if (subject) {
+    subjectMatches = subjectHash(subject) === receipt.subject_hash && subject.type === receipt.subject_type;
+    if (subjectMatches && subject.type === "rep") {
+      remaining.subject_calls = await countRows("calls", (q) => q.eq("org_id", receipt.org_id).eq("user_id", subject.repId));
+      remaining.pins = await countRows("pins", (q) => q.eq("user_id", subject.repId));
+      remaining.sparring_sessions = await countRows("sparring_sessions", (q) => q.eq("rep_id", subject.repId));
+    } else if (subjectMatches && subject.type === "contact") {
+      remaining.crm_contacts = (await orgContactIds(receipt.org_id, subject.email)).length;
+    }
+  }
+
+  const clean = Object.values(remaining).every((n) => n === 0);
+  return {
+    verified: signatureValid && clean && subjectMatches !== false,
+    signature_valid: signatureValid,
+    subject_matches: subjectMatches,
+    remaining,
+  };
+}
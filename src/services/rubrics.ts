@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { supabaseAdmin } from "../lib/supabase";
+
+// ---------------------------------------------
+// Scoring rubrics (versioned, per org)
+//
+// Each org owns an append-only list of rubric versions (1, 2, 3 …); exactly one
+// is active and is what new scores use. Orgs without their own rubric fall back
+// to the built-in default (seeded as a global row, org_id null).
+// call_scores.rubric_id / calls.rubric_id point at the exact row used.
+// ---------------------------------------------
+
+export type RubricSectionDef = {
+  key: string;      // JSON key in calls.rubric / call_scores.rubric (e.g. "discovery", "metrics")
+  label: string;    // human label for prompts + UI
+  weight: number;   // relative weight in the overall score
+  guidance: string; // what "good" looks like — goes straight into the scoring prompt
+};
+
+export type ScoringRubric = {
+  id: string;
+  org_id: string | null;
+  version: number;
+  name: string;
+  sections: RubricSectionDef[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string | null;
+};
+
+/** Well-known id of the built-in rubric row (see sql/20261020_scoring_rubrics.sql). */
+export const DEFAULT_RUBRIC_ID = "00000000-0000-4000-8000-000000000001";
+
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  id: DEFAULT_RUBRIC_ID,
+  org_id: null,
+  version: 1,
+  name: "Gravix default",
+  sections: [
+    { key: "intro", label: "Intro", weight: 1, guidance: "Pattern interrupt, clear reason for the call, agenda set." },
+    { key: "discovery", label: "Discovery", weight: 1, guidance: "Deep questions, pain/impact, budget/timeline, authority." },
+    { key: "objection", label: "Objection Handling", weight: 1, guidance: "Isolates the true objection, reframes value, tests commitment." },
+    { key: "close", label: "Close", weight: 1, guidance: "Clear next step, assumptive/binary ask, time/date locked." },
+  ],
+  is_active: true,
+  created_by: null,
+  created_at: null,
+};
+
+/** "v3" — the label stored in calls.rubric_version / call_scores.rubric_version. */
+export function rubricVersionLabel(rubric: Pick<ScoringRubric, "version">) {
+  return `v${rubric.version}`;
+}
+
+const SectionSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,31}$/, "key must be snake_case (a-z, 0-9, _)"),
+  label: z.string().trim().min(1).max(60),
+  weight: z.number().positive().max(100),
+  guidance: z.string().trim().min(1).max(600),
+});
+
+export const RubricInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  sections: z
+    .array(SectionSchema)
+    .min(1)
+    .max(12)
+    .refine((s) => new Set(s.map((x) => x.key)).size === s.length, "section keys must be unique")
+    .refine((s) => !s.some((x) => ["model", "overall"].includes(x.key)), "section key is reserved"),
+});
+
+export type RubricInput = z.infer<typeof RubricInputSchema>;
+
+const RUBRIC_COLUMNS = "id,org_id,version,name,sections,is_active,created_by,created_at";
+
+function toRubric(row: any): ScoringRubric {
+  return {
+    id: String(row.id),
+    org_id: row.org_id ?? null,
+    version: Number(row.version),
+    name: String(row.name || ""),
+    sections: Array.isArray(row.sections) ? (row.sections as RubricSectionDef[]) : [],
+    is_active: !!row.is_active,
+    created_by: row.created_by ?? null,
+    created_at: row.created_at ?? null,
+  };
+}
+
+const activeCache = new Map<string, { value: ScoringRubric; expiresAt: number }>();
+
+/** Active rubric for an org (30 sec cache); falls back to the built-in default. */
+export async function getActiveRubric(orgId: string | null | undefined): Promise<ScoringRubric> {
+  if (!orgId) return DEFAULT_RUBRIC;
+
+  const now = Date.now();
+  const hit = activeCache.get(orgId);
+  if (hit && hit.expiresAt > now) return hit.value;
+
+  const { data, error } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .select(RUBRIC_COLUMNS)
+    .eq("org_id", orgId)
+    .eq("is_active", true)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load active rubric: ${error.message}`);
+
+  const value = data ? toRubric(data) : DEFAULT_RUBRIC;
+  activeCache.set(orgId, { value, expiresAt: now + 30_000 });
+  return value;
+}
+
+export async function getRubricById(id: string): Promise<ScoringRubric | null> {
+  if (id === DEFAULT_RUBRIC_ID) return DEFAULT_RUBRIC;
+
+  const { data, error } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .select(RUBRIC_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load rubric: ${error.message}`);
+  return data ? toRubric(data) : null;
+}
+
+export async function listRubrics(orgId: string): Promise<ScoringRubric[]> {
+  const { data, error } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .select(RUBRIC_COLUMNS)
+    .eq("org_id", orgId)
+    .order("version", { ascending: false });
+
+  if (error) throw new Error(`Failed to list rubrics: ${error.message}`);
+  return (data || []).map(toRubric);
+}
+
+/** Append a new version for the org and make it active. Existing versions are never edited. */
+export async function createRubricVersion(
+  orgId: string,
+  input: RubricInput,
+  createdBy: string | null
+): Promise<ScoringRubric> {
+  const { data: latest, error: latestErr } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .select("version")
+    .eq("org_id", orgId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestErr) throw new Error(`Failed to read rubric versions: ${latestErr.message}`);
+
+  const version = Number((latest as any)?.version || 0) + 1;
+
+  const { data, error } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .insert({
+      org_id: orgId,
+      version,
+      name: input.name,
+      sections: input.sections,
+      is_active: false,
+      created_by: createdBy,
+    })
+    .select(RUBRIC_COLUMNS)
+    .single();
+
+  // unique (org_id, version) — a concurrent create took this number
+  if (error?.code === "23505") throw new Error("rubric_version_conflict");
+  if (error || !data) throw new Error(`Failed to create rubric: ${error?.message ?? "No data"}`);
+
+  return activateRubric(orgId, String((data as any).id));
+}
+
+/** Make one version active (also used to roll back to an older version). */
+export async function activateRubric(orgId: string, rubricId: string): Promise<ScoringRubric> {
+  const { data: target, error: targetErr } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .select(RUBRIC_COLUMNS)
+    .eq("id", rubricId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+  if (targetErr) throw new Error(`Failed to load rubric: ${targetErr.message}`);
+  if (!target) throw new Error("rubric_not_found");
+
+  const { error: offErr } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .update({ is_active: false })
+    .eq("org_id", orgId)
+    .neq("id", rubricId);
+  if (offErr) throw new Error(`Failed to deactivate rubrics: ${offErr.message}`);
+
+  const { data, error } = await supabaseAdmin
+    .from("scoring_rubrics")
+    .update({ is_active: true })
+    .eq("id", rubricId)
+    .select(RUBRIC_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(`Failed to activate rubric: ${error?.message ?? "No data"}`);
+
+  activeCache.delete(orgId);
+  return toRubric(data);
+}
@@ -0,0 +1,209 @@
+import { supabaseAdmin } from "../lib/supabase";
+import { weightedOverall, type RubricSection } from "../lib/scoring";
+import { DEFAULT_RUBRIC, getRubricById, type ScoringRubric } from "./rubrics";
+
+// ---------------------------------------------
+// Manager score overrides (human-in-the-loop)
+//
+// The AI score is never modified. Each override is an append-only row in
+// call_score_overrides (section, AI score at the time, override score, reason,
+// author); the latest row per section wins and score = null clears it.
+// calls.override_overall caches the effective overall (null = no overrides).
+// ---------------------------------------------
+
+export type OverrideInput = { section: string; score: number | null; reason: string };
+
+export type OverrideRow = {
+  id: string;
+  call_id: string;
+  call_score_id: string | null;
+  section_key: string;
+  ai_score: number | null;
+  override_score: number | null;
+  reason: string;
+  author_id: string;
+  created_at: string;
+};
+
+const OVERRIDE_COLUMNS = "id,call_id,call_score_id,section_key,ai_score,override_score,reason,author_id,created_at";
+
+async function loadCallScoring(callId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("calls")
+    .select("id,org_id,user_id,score_overall,rubric,rubric_id,rubric_version,ai_model,score_is_fallback,override_overall")
+    .eq("id", callId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load call: ${error.message}`);
+  if (!data) throw new Error("call_not_found");
+  return data as any;
+}
+
+async function rubricForCall(call: any): Promise<ScoringRubric> {
+  if (!call.rubric_id) return DEFAULT_RUBRIC;
+  return (await getRubricById(String(call.rubric_id))) ?? DEFAULT_RUBRIC;
+}
+
+/** Latest override per section (cleared sections drop out). */
+function effectiveOverrides(history: OverrideRow[]): Record<string, OverrideRow> {
+  const latest: Record<string, OverrideRow> = {};
+  for (const row of history) latest[row.section_key] = row; // history is oldest → newest
+  for (const key of Object.keys(latest)) if (latest[key].override_score == null) delete latest[key];
+  return latest;
+}
+
+export async function listOverrides(callId: string): Promise<OverrideRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from("call_score_overrides")
+    .select(OVERRIDE_COLUMNS)
+    .eq("call_id", callId)
+    .order("created_at", { ascending: true })
+    .limit(1000);
+  if (error) throw new Error(`Failed to load overrides: ${error.message}`);
+  return (data || []) as OverrideRow[];
+}
+
+/**
+ * AI score, overrides and the effective result side by side.
+ * sections[key] = { ai, override, effective } so the UI can show both.
+ */
+export async function getScoreView(callId: string) {
+  const call = await loadCallScoring(callId);
+  const rubric = await rubricForCall(call);
+  const history = await listOverrides(callId);
+  const active = effectiveOverrides(history);
+
+  const aiSections = (call.rubric || {}) as Record<string, RubricSection>;
+  const effective: Record<string, RubricSection> = {};
+  const sections: Record<string, any> = {};
+
+  for (const def of rubric.sections) {
+    const ai = aiSections[def.key] ?? null;
+    const ov = active[def.key] ?? null;
+    const score = ov ? Number(ov.override_score) : Number(ai?.score);
+    if (Number.isFinite(score)) effective[def.key] = { score, notes: ai?.notes ?? "" };
+    sections[def.key] = {
+      label: def.label,
+      ai: ai ? { score: ai.score, notes: ai.notes, evidence: ai.evidence ?? [] } : null,
+      override: ov
+        ? { score: ov.override_score, reason: ov.reason, author_id: ov.author_id, created_at: ov.created_at }
+        : null,
+      effective: Number.isFinite(score) ? score : null,
+    };
+  }
+
+  return {
+    rubric: { id: rubric.id, version: call.rubric_version ?? null, name: rubric.name },
+    ai: {
+      overall: call.score_overall ?? null,
+      model: call.ai_model ?? null,
+      fallback: !!call.score_is_fallback,
+    },
+    overridden: Object.keys(active).length > 0,
+    effective_overall: Object.keys(active).length ? weightedOverall(rubric, effective) : call.score_overall ?? null,
+    sections,
+    audit: history,
+  };
+}
+
+/** Record overrides (one row per section) and refresh calls.override_overall. */
+export async function applyOverrides(args: {
+  callId: string;
+  authorId: string;
+  overrides: OverrideInput[];
+}) {
+  const call = await loadCallScoring(args.callId);
+  if (call.score_overall == null) throw new Error("call_not_scored");
+
+  const rubric = await rubricForCall(call);
+  const known = new Set(rubric.sections.map((s) => s.key));
+  const unknown = args.overrides.filter((o) => !known.has(o.section)).map((o) => o.section);
+  if (unknown.length) throw new Error(`unknown_section:${unknown.join(",")}`);
+
+  // Pin the AI row being overridden: the newest history row that is the live
+  // score. Shadow runs (calibration) append rows without touching calls, so
+  // "latest row" can be a score the manager never saw; match on what calls
+  // carries instead. Batch re-scores that went live keep their batch id, so
+  // rescore_batch_id alone can't tell them apart.
+  let aiQ = supabaseAdmin.from("call_scores").select("id, overall").eq("call_id", args.callId);
+  aiQ = call.ai_model == null ? aiQ.is("ai_model", null) : aiQ.eq("ai_model", call.ai_model);
+  aiQ = call.rubric_id == null ? aiQ.is("rubric_id", null) : aiQ.eq("rubric_id", call.rubric_id);
+  aiQ = call.rubric_version == null ? aiQ.is("rubric_version", null) : aiQ.eq("rubric_version", call.rubric_version);
+  const { data: candidates } = await aiQ.order("created_at", { ascending: false }).limit(20);
+  const aiRow = (candidates || []).find((r: any) => Number(r.overall) === Number(call.score_overall)) ?? null;
+
+  const aiSections = (call.rubric || {}) as Record<string, RubricSection>;
+  const rows = args.overrides.map((o) => ({
+    call_id: args.callId,
+    call_score_id: (aiRow as any)?.id ?? null,
+    section_key: o.section,
+    ai_score: Number.isFinite(Number(aiSections[o.section]?.score)) ? Number(aiSections[o.section].score) : null,
+    override_score: o.score,
+    reason: o.reason,
+    author_id: args.authorId,
+  }));
+
+  const { error } = await supabaseAdmin.from("call_score_overrides").insert(rows);
+  if (error) throw new Error(`Failed to save overrides: ${error.message}`);
+
+  const view = await getScoreView(args.callId);
+  const { error: upErr } = await supabaseAdmin
+    .from("calls")
+    .update({ override_overall: view.overridden ? view.effective_overall : null })
+    .eq("id", args.callId);
+  if (upErr) console.warn("[overrides] override_overall update failed:", upErr.message);
+
+  return view;
+}
+
+/**
+ * Calibration dataset: one row per override event with the AI's view at the time.
+ * Cleared overrides (score null) are skipped.
+ */
+export async function exportOverrideDataset(opts: {
+  orgId: string;
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+}) {
+  let q = supabaseAdmin
+    .from("call_score_overrides")
+    .select(
+      `${OVERRIDE_COLUMNS},calls!inner(org_id,user_id,ai_model,rubric_version,rubric_id,rubric),` +
+      `ai:call_scores!call_score_id(ai_model,rubric_version,rubric_id,rubric)`
+    )
+    .eq("calls.org_id", opts.orgId)
+    .not("override_score", "is", null)
+    .order("created_at", { ascending: true })
+    .limit(Math.min(Math.max(Number(opts.limit || 10000), 1), 50000));
+
+  if (opts.from) q = q.gte("created_at", opts.from);
+  if (opts.to) q = q.lt("created_at", opts.to);
+
+  const { data, error } = await q;
+  if (error) throw new Error(`Failed to export overrides: ${error.message}`);
+
+  return (data || []).map((r: any) => {
+    const call = r.calls || {};
+    // Prefer the pinned AI row (what the manager actually disagreed with) over the call's latest score
+    const ai = r.ai || call;
+    const aiSection = (ai.rubric || {})[r.section_key] || {};
+    return {
+      override_id: r.id,
+      call_id: r.call_id,
+      org_id: call.org_id ?? null,
+      rep_id: call.user_id ?? null,
+      ai_model: ai.ai_model ?? null,
+      rubric_version: ai.rubric_version ?? null,
+      rubric_id: ai.rubric_id ?? null,
+      section: r.section_key,
+      ai_score: r.ai_score,
+      override_score: r.override_score,
+      delta: r.ai_score == null ? null : Number(r.override_score) - Number(r.ai_score),
+      ai_notes: aiSection.notes ?? null,
+      ai_evidence: aiSection.evidence ?? [],
+      reason: r.reason,
+      author_id: r.author_id,
+      created_at: r.created_at,
+    };
+  });
+}
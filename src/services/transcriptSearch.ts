@@ -0,0 +1,134 @@
+import { supabaseAdmin } from "../lib/supabase";
+import { formatTimestamp, type SpeakerRole } from "../lib/transcription";
+
+// ---------------------------------------------
+// Transcript search (segment level)
+//
+// Modes:
+//   - websearch (default) → Postgres full-text over call_transcript_segments.search_tsv;
+//     supports "quoted phrases", OR and -exclusions
+//   - phrase  → the words in order (full-text, stemmed)
+//   - keyword → literal, case-insensitive substring (exact wording, stopwords kept)
+//
+// Always scoped to one org via calls.org_id; callers narrow to a rep for
+// non-managers. Each hit carries call id, speaker and timestamp so the UI can
+// seek the audio from /v1/calls/:id/signed-audio.
+// ---------------------------------------------
+
+export type SearchMode = "websearch" | "phrase" | "keyword";
+
+export type ScoreBand = "low" | "mid" | "high";
+
+// Same bands as the call_review XP award (>= 80 high, >= 60 mid)
+export const SCORE_BANDS: Record<ScoreBand, { min: number | null; max: number | null }> = {
+  low: { min: null, max: 60 },
+  mid: { min: 60, max: 80 },
+  high: { min: 80, max: null },
+};
+
+export type TranscriptSearchQuery = {
+  orgId: string;
+  q: string;
+  mode?: SearchMode;
+  speaker?: SpeakerRole | null; // rep | buyer
+  repId?: string | null;        // calls.user_id
+  from?: string | null;         // calls.created_at >= (ISO)
+  to?: string | null;           // calls.created_at <  (ISO)
+  minScore?: number | null;     // calls.score_overall >=
+  maxScore?: number | null;     // calls.score_overall <
+  tags?: string[];              // calls.tags overlaps any
+  limit?: number;
+  offset?: number;
+};
+
+export type TranscriptHit = {
+  call_id: string;
+  segment_idx: number;
+  speaker: string;
+  role: SpeakerRole;
+  start_sec: number;
+  end_sec: number;
+  timestamp: string;
+  text: string;
+  call: {
+    rep_id: string | null;
+    rep_name: string | null;
+    filename: string | null;
+    created_at: string;
+    score_overall: number | null;
+    tags: string[];
+  };
+};
+
+export const SEARCH_MAX_LIMIT = 100;
+
+/** Escape LIKE wildcards so keyword mode matches the text literally. */
+function likeLiteral(s: string) {
+  return s.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+export async function searchTranscripts(query: TranscriptSearchQuery) {
+  const q = String(query.q || "").trim();
+  if (q.length < 2) throw new Error("query_too_short");
+
+  const mode: SearchMode = query.mode ?? "websearch";
+  const limit = Math.min(Math.max(Number(query.limit || 25), 1), SEARCH_MAX_LIMIT);
+  const offset = Math.max(Number(query.offset || 0), 0);
+
+  let s = supabaseAdmin
+    .from("call_transcript_segments")
+    .select(
+      "call_id,idx,speaker,role,start_sec,end_sec,text,created_at," +
+      "calls!inner(id,org_id,user_id,rep_name,filename,created_at,score_overall,tags)"
+    )
+    .eq("calls.org_id", query.orgId);
+
+  if (mode === "keyword") s = s.ilike("text", `%${likeLiteral(q)}%`);
+  else s = s.textSearch("search_tsv", q, { type: mode === "phrase" ? "phrase" : "websearch", config: "english" });
+
+  if (query.speaker) s = s.eq("role", query.speaker);
+  if (query.repId) s = s.eq("calls.user_id", query.repId);
+  if (query.from) s = s.gte("calls.created_at", query.from);
+  if (query.to) s = s.lt("calls.created_at", query.to);
+  if (query.minScore != null) s = s.gte("calls.score_overall", query.minScore);
+  if (query.maxScore != null) s = s.lt("calls.score_overall", query.maxScore);
+  if (query.tags?.length) s = s.overlaps("calls.tags", query.tags);
+
+  // Newest transcripts first, then playback order within a call
+  const { data, error } = await s
+    .order("created_at", { ascending: false })
+    .order("call_id", { ascending: true })
+    .order("idx", { ascending: true })
+    .range(offset, offset + limit); // one extra row → hasMore
+  if (error) throw new Error(`Transcript search failed: ${error.message}`);
+
+  const rows = (data || []) as any[];
+  const hits: TranscriptHit[] = rows.slice(0, limit).map((r) => {
+    const call = r.calls || {};
+    const start = Number(r.start_sec) || 0;
+    return {
+      call_id: String(r.call_id),
+      segment_idx: Number(r.idx),
+      speaker: String(r.speaker),
+      role: (r.role || "unknown") as SpeakerRole,
+      start_sec: start,
+      end_sec: Number(r.end_sec) || 0,
+      timestamp: formatTimestamp(start),
+      text: String(r.text || ""),
+      call: {
+        rep_id: call.user_id ?? null,
+        rep_name: call.rep_name ?? null,
+        filename: call.filename ?? null,
+        created_at: call.created_at,
+        score_overall: call.score_overall ?? null,
+        tags: Array.isArray(call.tags) ? call.tags : [],
+      },
+    };
+  });
+
+  return {
+    hits,
+    calls: new Set(hits.map((h) => h.call_id)).size,
+    nextOffset: rows.length > limit ? offset + limit : null,
+  };
+}
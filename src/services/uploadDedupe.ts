@@ -0,0 +1,162 @@
+import { supabaseAdmin } from "../lib/supabase";
+import { cancelCallJobs } from "../lib/jobQueue";
+
+// ---------------------------------------------
+// Upload de-duplication (calls.sha256)
+//
+// The same recording uploaded twice by the same user resolves to the call
+// that already exists instead of a new row + job. Matching is per uploader:
+// uploads are stamped with a shared default org, so an org-wide match would
+// hand one rep another rep's call. Failed calls don't count, so re-uploading
+// after a failure still works.
+// Historical duplicates are listed per (uploader, sha256) to the org's
+// managers, with a canonical call (scored first, then oldest) — the same
+// per-uploader rule, so a merge never folds one rep's call into another's.
+// Merging moves user pins, coach assignments and CRM links onto the
+// canonical call and marks the rest duplicate_of = canonical, status = 'merged'.
+// ---------------------------------------------
+
+export type DuplicateCall = {
+  id: string;
+  user_id: string | null;
+  org_id: string | null;
+  filename: string | null;
+  status: string | null;
+  created_at: string;
+};
+
+const CALL_COLUMNS = "id,user_id,org_id,filename,status,created_at";
+const SHA256_RE = /^[a-f0-9]{64}$/i;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export function normalizeSha256(v: unknown): string | null {
+  return typeof v === "string" && SHA256_RE.test(v) ? v.toLowerCase() : null;
+}
+
+/** The user's existing call with this hash (oldest first), or null. */
+export async function findDuplicateCall(args: { sha256: string | null; userId: string }): Promise<DuplicateCall | null> {
+  const hash = normalizeSha256(args.sha256);
+  if (!hash) return null;
+  if (!UUID_RE.test(args.userId)) throw new Error("invalid_user_id");
+
+  const { data, error } = await supabaseAdmin
+    .from("calls")
+    .select(CALL_COLUMNS)
+    .eq("sha256", hash)
+    .eq("user_id", args.userId)
+    .is("duplicate_of", null)
+    .or("status.is.null,status.neq.failed")
+    .order("created_at", { ascending: true })
+    .limit(1);
+  if (error) throw new Error(`Failed to check duplicates: ${error.message}`);
+  return ((data || [])[0] as DuplicateCall) ?? null;
+}
+
+function canonicalFirst(a: DuplicateCall, b: DuplicateCall) {
+  const scored = Number(b.status === "scored") - Number(a.status === "scored");
+  return scored || String(a.created_at).localeCompare(String(b.created_at));
+}
+
+/** Historical duplicate groups in the org: same uploader + sha256, more than one live call. */
+export async function listDuplicateGroups(opts: { orgId: string; limit?: number }) {
+  const { data, error } = await supabaseAdmin
+    .from("calls")
+    .select(`${CALL_COLUMNS},sha256,size_bytes`)
+    .eq("org_id", opts.orgId)
+    .not("sha256", "is", null)
+    .is("duplicate_of", null)
+    .order("created_at", { ascending: true })
+    .limit(20000);
+  if (error) throw new Error(`Failed to load calls: ${error.message}`);
+
+  const groups = new Map<string, (DuplicateCall & { sha256: string; size_bytes: number | null })[]>();
+  for (const c of (data || []) as any[]) {
+    const key = `${c.user_id ?? ""}:${c.sha256}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(c);
+  }
+
+  const out = [];
+  for (const calls of groups.values()) {
+    if (calls.length < 2) continue;
+    const [canonical, ...duplicates] = calls.slice().sort(canonicalFirst);
+    out.push({
+      sha256: canonical.sha256,
+      org_id: canonical.org_id,
+      user_id: canonical.user_id,
+      size_bytes: canonical.size_bytes,
+      count: calls.length,
+      canonical,
+      duplicates,
+    });
+  }
+
+  out.sort((a, b) => b.count - a.count || String(a.canonical.created_at).localeCompare(String(b.canonical.created_at)));
+  return out.slice(0, Math.min(Math.max(Number(opts.limit || 100), 1), 500));
+}
+
+/**
+ * Fold duplicates into the canonical call. The canonical call must belong to
+ * orgId and every duplicate must share its sha256, org and uploader; ids from
+ * another uploader fail as not_duplicates. If duplicateIds is omitted, all of
+ * the uploader's live calls with the same hash in that org are merged.
+ */
+export async function mergeDuplicates(args: { orgId: string; canonicalId: string; duplicateIds?: string[] | null }) {
+  const { data: canonical, error: cErr } = await supabaseAdmin
+    .from("calls")
+    .select(`${CALL_COLUMNS},sha256,duplicate_of`)
+    .eq("id", args.canonicalId)
+    .eq("org_id", args.orgId)
+    .maybeSingle();
+  if (cErr) throw new Error(`Failed to load call: ${cErr.message}`);
+  if (!canonical) throw new Error("call_not_found");
+  if ((canonical as any).duplicate_of) throw new Error("canonical_is_merged");
+  if (!(canonical as any).sha256) throw new Error("call_has_no_sha256");
+
+  let q = supabaseAdmin
+    .from("calls")
+    .select(`${CALL_COLUMNS},sha256`)
+    .eq("sha256", (canonical as any).sha256)
+    .eq("org_id", args.orgId)
+    .is("duplicate_of", null)
+    .neq("id", canonical.id);
+  q = canonical.user_id ? q.eq("user_id", canonical.user_id) : q.is("user_id", null);
+  if (args.duplicateIds?.length) q = q.in("id", args.duplicateIds);
+
+  const { data: dups, error: dErr } = await q;
+  if (dErr) throw new Error(`Failed to load duplicates: ${dErr.message}`);
+
+  const ids = (dups || []).map((d: any) => String(d.id));
+  if (args.duplicateIds?.length) {
+    const missing = args.duplicateIds.filter((id) => !ids.includes(id));
+    if (missing.length) throw new Error(`not_duplicates:${missing.join(",")}`);
+  }
+  if (!ids.length) return { canonicalId: canonical.id, merged: [] as string[], moved: {}, cancelledJobs: 0 };
+
+  // Human work moves to the canonical call; system pins, scores, transcripts
+  // and objections are derived and stay with the duplicate.
+  const moved: Record<string, number> = {};
+  const move = async (table: string, filter?: (q: any) => any) => {
+    let u: any = supabaseAdmin.from(table).update({ call_id: canonical.id }).in("call_id", ids);
+    if (filter) u = filter(u);
+    const { data, error } = await u.select("call_id");
+    if (error) {
+      console.warn(`[dedupe] ${table} move failed:`, error.message);
+      return;
+    }
+    moved[table] = (data || []).length;
+  };
+  await move("pins", (u) => u.eq("source", "user"));
+  await move("coach_assignments");
+  await move("crm_call_links"); // table is optional
+
+  const { error: upErr } = await supabaseAdmin
+    .from("calls")
+    .update({ duplicate_of: canonical.id, status: "merged" })
+    .in("id", ids);
+  if (upErr) throw new Error(`Failed to mark duplicates: ${upErr.message}`);
+
+  const cancelledJobs = await cancelCallJobs(supabaseAdmin, ids);
+
+  return { canonicalId: canonical.id, merged: ids, moved, cancelledJobs };
+}